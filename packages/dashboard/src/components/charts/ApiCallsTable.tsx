@@ -0,0 +1,72 @@
+'use client';
+
+import React from 'react';
+import { formatDuration, formatNumber, formatPercentage } from '@/lib/format';
+
+interface ApiCallsTableProps {
+  calls: Array<{
+    method: string;
+    url_template: string;
+    requests: number;
+    error_count: number;
+    error_rate: number;
+    p50: number | null;
+    p95: number | null;
+  }>;
+}
+
+export function ApiCallsTable({ calls }: ApiCallsTableProps) {
+  if (calls.length === 0) {
+    return (
+      <div className="flex h-40 items-center justify-center text-center text-sm text-[var(--color-muted-foreground)]">
+        No API calls recorded. Enable the tracker&apos;s autoNetwork option to collect them.
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-[var(--color-border)] text-left text-xs text-[var(--color-muted-foreground)]">
+            <th className="px-3 py-2 font-medium">Endpoint</th>
+            <th className="px-3 py-2 text-right font-medium">Requests</th>
+            <th className="px-3 py-2 text-right font-medium">p50</th>
+            <th className="px-3 py-2 text-right font-medium">p95</th>
+            <th className="px-3 py-2 text-right font-medium">Error rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {calls.map((call) => (
+            <tr
+              key={`${call.method} ${call.url_template}`}
+              className="border-b border-[var(--color-border)] last:border-0"
+            >
+              <td className="px-3 py-2">
+                <span className="mr-2 text-xs font-semibold text-[var(--color-muted-foreground)]">
+                  {call.method}
+                </span>
+                <span className="break-all font-medium">{call.url_template}</span>
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">{formatNumber(call.requests)}</td>
+              <td className="px-3 py-2 text-right tabular-nums">
+                {call.p50 !== null ? formatDuration(call.p50) : '--'}
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">
+                {call.p95 !== null ? formatDuration(call.p95) : '--'}
+              </td>
+              <td
+                className={`px-3 py-2 text-right font-semibold tabular-nums ${
+                  call.error_rate >= 5 ? 'text-red-600 dark:text-red-400' : ''
+                }`}
+                title={`${formatNumber(call.error_count)} failed`}
+              >
+                {formatPercentage(call.error_rate)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+import { formatNumber } from '@/lib/format';
+
+interface CampaignsTableProps {
+  campaigns: Array<{
+    utm_source: string | null;
+    utm_medium: string | null;
+    utm_campaign: string | null;
+    visitors: number;
+    sessions: number;
+    views: number;
+  }>;
+}
+
+export function CampaignsTable({ campaigns }: CampaignsTableProps) {
+  if (campaigns.length === 0) {
+    return (
+      <div className="flex h-40 items-center justify-center text-sm text-[var(--color-muted-foreground)]">
+        No campaign data available
+      </div>
+    );
+  }
+
+  const maxCount = Math.max(...campaigns.map((c) => c.visitors));
+
+  return (
+    <div className="space-y-2">
+      {campaigns.map((campaign, index) => {
+        const name = campaign.utm_campaign || '(not set)';
+        const source = [campaign.utm_source, campaign.utm_medium].filter(Boolean).join(' / ');
+
+        return (
+          <div
+            key={`${campaign.utm_source}|${campaign.utm_medium}|${campaign.utm_campaign}`}
+            className="group relative"
+          >
+            <div
+              className="absolute inset-y-0 left-0 rounded bg-purple-500/10 transition-all group-hover:bg-purple-500/15"
+              style={{ width: `${(campaign.visitors / maxCount) * 100}%` }}
+            />
+            <div className="relative flex items-center justify-between px-3 py-2">
+              <div className="flex items-center gap-2">
+                <span className="w-5 text-xs text-[var(--color-muted-foreground)]">
+                  {index + 1}
+                </span>
+                <div className="flex flex-col">
+                  <span className="text-sm font-medium">{name}</span>
+                  {source && (
+                    <span className="text-xs text-[var(--color-muted-foreground)]">{source}</span>
+                  )}
+                </div>
+              </div>
+              <span
+                className="text-sm font-semibold tabular-nums"
+                title={`${campaign.sessions} sessions, ${campaign.views} views`}
+              >
+                {formatNumber(campaign.visitors)}
+              </span>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import React from 'react';
+import { formatNumber } from '@/lib/format';
+
+interface DownloadsTableProps {
+  downloads: Array<{
+    link_url: string;
+    file_extension: string | null;
+    downloads: number;
+    sessions: number;
+  }>;
+}
+
+export function DownloadsTable({ downloads }: DownloadsTableProps) {
+  if (downloads.length === 0) {
+    return (
+      <div className="flex h-40 items-center justify-center text-center text-sm text-[var(--color-muted-foreground)]">
+        No downloads recorded. Enable the tracker&apos;s autoDownloads option to collect them.
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-[var(--color-border)] text-left text-xs text-[var(--color-muted-foreground)]">
+            <th className="px-3 py-2 font-medium">File</th>
+            <th className="px-3 py-2 text-right font-medium">Downloads</th>
+            <th className="px-3 py-2 text-right font-medium">Sessions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {downloads.map((download) => (
+            <tr
+              key={download.link_url}
+              className="border-b border-[var(--color-border)] last:border-0"
+            >
+              <td className="px-3 py-2">
+                {download.file_extension && (
+                  <span className="mr-2 text-xs font-semibold uppercase text-[var(--color-muted-foreground)]">
+                    {download.file_extension}
+                  </span>
+                )}
+                <span className="break-all font-medium">
+                  {download.link_url.replace(/^https?:\/\//, '')}
+                </span>
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">
+                {formatNumber(download.downloads)}
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">
+                {formatNumber(download.sessions)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import React from 'react';
+import type { FormFieldStats } from '@open-observability/sdk';
+import { formatNumber, formatPercentage } from '@/lib/format';
+
+interface FormFieldsTableProps {
+  fields: FormFieldStats[] | null;
+  loading: boolean;
+}
+
+export function FormFieldsTable({ fields, loading }: FormFieldsTableProps) {
+  if (loading || !fields || fields.length === 0) {
+    return (
+      <div className="flex h-40 items-center justify-center text-sm text-[var(--color-muted-foreground)]">
+        {loading ? 'Loading fields...' : fields ? 'No field data' : 'Select a form'}
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-[var(--color-border)] text-left text-xs text-[var(--color-muted-foreground)]">
+            <th className="px-3 py-2 font-medium">Field</th>
+            <th className="px-3 py-2 text-right font-medium">Reached</th>
+            <th className="px-3 py-2 text-right font-medium">Drop-off</th>
+            <th className="px-3 py-2 text-right font-medium">Avg. Time</th>
+            <th className="px-3 py-2 text-right font-medium">Errors</th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map((field) => (
+            <tr
+              key={field.field_name}
+              className="border-b border-[var(--color-border)] last:border-0"
+            >
+              <td className="break-all px-3 py-2 font-medium">{field.field_name}</td>
+              <td className="px-3 py-2 text-right tabular-nums">{formatNumber(field.reached)}</td>
+              <td
+                className={`px-3 py-2 text-right tabular-nums ${
+                  field.drop_off_rate > 20 ? 'text-red-600 dark:text-red-400' : ''
+                }`}
+                title={`${formatNumber(field.abandoned)} left the form here`}
+              >
+                {formatPercentage(field.drop_off_rate)}
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">{field.avg_time.toFixed(1)}s</td>
+              <td className="px-3 py-2 text-right tabular-nums">{formatNumber(field.errors)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
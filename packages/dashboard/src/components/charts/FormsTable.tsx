@@ -0,0 +1,69 @@
+'use client';
+
+import React from 'react';
+import { formatNumber, formatPercentage } from '@/lib/format';
+
+interface FormsTableProps {
+  forms: Array<{
+    form_id: string;
+    starts: number;
+    submissions: number;
+    abandonments: number;
+    conversion_rate: number;
+    avg_duration: number | null;
+  }>;
+  selectedId: string | null;
+  onSelect: (formId: string) => void;
+}
+
+export function FormsTable({ forms, selectedId, onSelect }: FormsTableProps) {
+  if (forms.length === 0) {
+    return (
+      <div className="flex h-40 items-center justify-center text-center text-sm text-[var(--color-muted-foreground)]">
+        No form interactions recorded. Enable the tracker&apos;s autoForms option to collect them.
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-[var(--color-border)] text-left text-xs text-[var(--color-muted-foreground)]">
+            <th className="px-3 py-2 font-medium">Form</th>
+            <th className="px-3 py-2 text-right font-medium">Starts</th>
+            <th className="px-3 py-2 text-right font-medium">Submitted</th>
+            <th className="px-3 py-2 text-right font-medium">Abandoned</th>
+            <th className="px-3 py-2 text-right font-medium">Time to Submit</th>
+          </tr>
+        </thead>
+        <tbody>
+          {forms.map((form) => (
+            <tr
+              key={form.form_id}
+              onClick={() => onSelect(form.form_id)}
+              className={`cursor-pointer border-b border-[var(--color-border)] transition-colors last:border-0 hover:bg-[var(--color-muted)] ${
+                form.form_id === selectedId ? 'bg-[var(--color-muted)]' : ''
+              }`}
+            >
+              <td className="break-all px-3 py-2 font-medium">{form.form_id}</td>
+              <td className="px-3 py-2 text-right tabular-nums">{formatNumber(form.starts)}</td>
+              <td className="px-3 py-2 text-right tabular-nums">
+                {formatNumber(form.submissions)}
+                <span className="ml-1 text-xs text-[var(--color-muted-foreground)]">
+                  ({formatPercentage(form.conversion_rate)})
+                </span>
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">
+                {formatNumber(form.abandonments)}
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">
+                {form.avg_duration !== null ? `${Math.round(form.avg_duration)}s` : '--'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
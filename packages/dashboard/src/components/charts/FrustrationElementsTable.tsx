@@ -0,0 +1,65 @@
+'use client';
+
+import React from 'react';
+import { formatNumber } from '@/lib/format';
+
+interface FrustrationElementsTableProps {
+  elements: Array<{
+    pathname: string;
+    selector: string;
+    rage_clicks: number;
+    dead_clicks: number;
+    error_clicks: number;
+    total: number;
+  }>;
+}
+
+export function FrustrationElementsTable({ elements }: FrustrationElementsTableProps) {
+  if (elements.length === 0) {
+    return (
+      <div className="flex h-40 items-center justify-center text-center text-sm text-[var(--color-muted-foreground)]">
+        No frustration signals recorded. Enable the tracker&apos;s autoFrustration option to collect
+        them.
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-[var(--color-border)] text-left text-xs text-[var(--color-muted-foreground)]">
+            <th className="px-3 py-2 font-medium">Element</th>
+            <th className="px-3 py-2 text-right font-medium">Rage</th>
+            <th className="px-3 py-2 text-right font-medium">Dead</th>
+            <th className="px-3 py-2 text-right font-medium">Error</th>
+          </tr>
+        </thead>
+        <tbody>
+          {elements.map((element) => (
+            <tr
+              key={`${element.pathname} ${element.selector}`}
+              className="border-b border-[var(--color-border)] last:border-0"
+            >
+              <td className="px-3 py-2">
+                <code className="block break-all font-mono text-xs">{element.selector}</code>
+                <span className="break-all text-xs text-[var(--color-muted-foreground)]">
+                  {element.pathname}
+                </span>
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">
+                {formatNumber(element.rage_clicks)}
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">
+                {formatNumber(element.dead_clicks)}
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">
+                {formatNumber(element.error_clicks)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import React from 'react';
+import { formatNumber } from '@/lib/format';
+
+interface FrustrationPagesTableProps {
+  pages: Array<{
+    pathname: string;
+    rage_clicks: number;
+    dead_clicks: number;
+    error_clicks: number;
+    total: number;
+    sessions: number;
+  }>;
+}
+
+export function FrustrationPagesTable({ pages }: FrustrationPagesTableProps) {
+  if (pages.length === 0) {
+    return (
+      <div className="flex h-40 items-center justify-center text-center text-sm text-[var(--color-muted-foreground)]">
+        No frustration signals recorded. Enable the tracker&apos;s autoFrustration option to collect
+        them.
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-[var(--color-border)] text-left text-xs text-[var(--color-muted-foreground)]">
+            <th className="px-3 py-2 font-medium">Page</th>
+            <th className="px-3 py-2 text-right font-medium">Rage</th>
+            <th className="px-3 py-2 text-right font-medium">Dead</th>
+            <th className="px-3 py-2 text-right font-medium">Error</th>
+            <th className="px-3 py-2 text-right font-medium">Sessions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {pages.map((page) => (
+            <tr key={page.pathname} className="border-b border-[var(--color-border)] last:border-0">
+              <td className="break-all px-3 py-2 font-medium">{page.pathname}</td>
+              <td className="px-3 py-2 text-right tabular-nums">
+                {formatNumber(page.rage_clicks)}
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">
+                {formatNumber(page.dead_clicks)}
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">
+                {formatNumber(page.error_clicks)}
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">{formatNumber(page.sessions)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
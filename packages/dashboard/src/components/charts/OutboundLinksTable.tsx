@@ -0,0 +1,51 @@
+'use client';
+
+import React from 'react';
+import { formatNumber } from '@/lib/format';
+
+interface OutboundLinksTableProps {
+  links: Array<{
+    link_url: string;
+    link_host: string | null;
+    clicks: number;
+    sessions: number;
+  }>;
+}
+
+export function OutboundLinksTable({ links }: OutboundLinksTableProps) {
+  if (links.length === 0) {
+    return (
+      <div className="flex h-40 items-center justify-center text-center text-sm text-[var(--color-muted-foreground)]">
+        No outbound clicks recorded. Enable the tracker&apos;s autoOutbound option to collect them.
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-[var(--color-border)] text-left text-xs text-[var(--color-muted-foreground)]">
+            <th className="px-3 py-2 font-medium">Link</th>
+            <th className="px-3 py-2 text-right font-medium">Clicks</th>
+            <th className="px-3 py-2 text-right font-medium">Sessions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {links.map((link) => (
+            <tr key={link.link_url} className="border-b border-[var(--color-border)] last:border-0">
+              <td className="px-3 py-2">
+                <span className="block font-medium">{link.link_host ?? '--'}</span>
+                <span className="break-all text-xs text-[var(--color-muted-foreground)]">
+                  {link.link_url.replace(/^https?:\/\//, '')}
+                </span>
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">{formatNumber(link.clicks)}</td>
+              <td className="px-3 py-2 text-right tabular-nums">{formatNumber(link.sessions)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
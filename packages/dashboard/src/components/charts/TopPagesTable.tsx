@@ -1,12 +1,14 @@
 'use client';
 
 import React from 'react';
-import { formatNumber } from '@/lib/format';
+import { formatNumber, formatPercentage } from '@/lib/format';
 
 interface TopPagesTableProps {
   pages: Array<{
     pathname: string;
     count: number;
+    avg_engaged_time: number | null;
+    avg_scroll_depth: number | null;
   }>;
 }
 
@@ -37,7 +39,21 @@ export function TopPagesTable({ pages }: TopPagesTableProps) {
               </span>
               <span className="text-sm font-medium">{page.pathname}</span>
             </div>
-            <span className="text-sm font-semibold tabular-nums">{formatNumber(page.count)}</span>
+            <div className="flex items-center gap-4">
+              <span
+                className="w-12 text-right text-xs tabular-nums text-[var(--color-muted-foreground)]"
+                title="Average engaged time"
+              >
+                {page.avg_engaged_time !== null ? `${Math.round(page.avg_engaged_time)}s` : '--'}
+              </span>
+              <span
+                className="w-12 text-right text-xs tabular-nums text-[var(--color-muted-foreground)]"
+                title="Average scroll depth"
+              >
+                {page.avg_scroll_depth !== null ? formatPercentage(page.avg_scroll_depth) : '--'}
+              </span>
+              <span className="text-sm font-semibold tabular-nums">{formatNumber(page.count)}</span>
+            </div>
           </div>
         </div>
       ))}
@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useState } from 'react';
+import type { SymbolicatedFrame } from '@open-observability/sdk';
+import type { DashboardBreadcrumb, DashboardError } from '@/types';
+import { useSymbolication } from '@/hooks/useSymbolication';
+import { formatDate, formatDuration } from '@/lib/format';
+
+interface ErrorDetailProps {
+  siteId: string;
+  error: DashboardError | null;
+}
+
+const BREADCRUMB_LABELS: Record<DashboardBreadcrumb['type'], string> = {
+  navigation: 'Navigation',
+  click: 'Click',
+  console: 'Console',
+  network: 'Network',
+  custom: 'Custom',
+};
+
+const LEVEL_COLORS: Record<DashboardBreadcrumb['level'], string> = {
+  info: 'bg-brand-500',
+  warning: 'bg-yellow-500',
+  error: 'bg-red-500',
+};
+
+const ERROR_LEVEL_COLORS: Record<DashboardError['level'], string> = {
+  fatal: 'bg-red-700 text-white',
+  error: 'bg-red-500 text-white',
+  warning: 'bg-yellow-500 text-black',
+  info: 'bg-brand-500 text-white',
+};
+
+export function ErrorDetail({ siteId, error }: ErrorDetailProps) {
+  const { frames, loading } = useSymbolication(siteId, error);
+  const [showRaw, setShowRaw] = useState(false);
+
+  if (!error) {
+    return (
+      <div className="flex h-40 items-center justify-center text-sm text-[var(--color-muted-foreground)]">
+        Select an error to see what led up to it
+      </div>
+    );
+  }
+
+  const location = [error.source, error.line, error.column_number].filter(Boolean).join(':');
+  const breadcrumbs = error.breadcrumbs ?? [];
+  const errorTime = new Date(error.created_at).getTime();
+  const symbolicated = frames?.some((frame) => frame.original) ?? false;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="font-semibold">
+          <span
+            className={`mr-2 rounded px-1.5 py-0.5 align-middle text-xs font-medium uppercase ${ERROR_LEVEL_COLORS[error.level]}`}
+          >
+            {error.level}
+          </span>
+          {error.message}
+        </p>
+        <p className="text-xs text-[var(--color-muted-foreground)]">
+          {error.pathname} &middot; {formatDate(error.created_at, true)}
+          {location && <> &middot; {location}</>}
+          {error.release && <> &middot; release {error.release}</>}
+        </p>
+        {error.tags && (
+          <div className="mt-2 flex flex-wrap gap-1">
+            {Object.entries(error.tags).map(([key, value]) => (
+              <span key={key} className="rounded bg-[var(--color-muted)] px-2 py-0.5 text-xs">
+                {key}: {value}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error.extra && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+          {Object.entries(error.extra).map(([key, value]) => (
+            <React.Fragment key={key}>
+              <dt className="text-[var(--color-muted-foreground)]">{key}</dt>
+              <dd className="break-all">{String(value)}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+
+      {error.stack && (
+        <div>
+          <div className="mb-2 flex items-center justify-between">
+            <h3 className="text-sm font-semibold">Stack trace</h3>
+            {symbolicated && (
+              <div className="flex gap-1 text-xs">
+                {[false, true].map((raw) => (
+                  <button
+                    key={String(raw)}
+                    type="button"
+                    onClick={() => setShowRaw(raw)}
+                    className={`rounded px-2 py-0.5 ${
+                      showRaw === raw
+                        ? 'bg-[var(--color-muted)] font-medium'
+                        : 'text-[var(--color-muted-foreground)]'
+                    }`}
+                  >
+                    {raw ? 'Raw' : 'Original'}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          {symbolicated && !showRaw ? (
+            <OriginalFrames frames={frames!} />
+          ) : (
+            <pre className="max-h-48 overflow-auto rounded bg-[var(--color-muted)] p-3 text-xs">
+              {error.stack}
+            </pre>
+          )}
+          {loading && (
+            <p className="mt-1 text-xs text-[var(--color-muted-foreground)]">
+              Applying source maps&hellip;
+            </p>
+          )}
+        </div>
+      )}
+
+      <div>
+        <h3 className="mb-2 text-sm font-semibold">Breadcrumbs</h3>
+        {breadcrumbs.length === 0 ? (
+          <p className="text-sm text-[var(--color-muted-foreground)]">
+            No breadcrumbs were recorded before this error
+          </p>
+        ) : (
+          <ol className="relative space-y-3 border-l border-[var(--color-border)] pl-4">
+            {breadcrumbs.map((crumb, index) => (
+              <li key={index} className="relative">
+                <span
+                  className={`absolute -left-[21px] top-1.5 h-2 w-2 rounded-full ${LEVEL_COLORS[crumb.level]}`}
+                />
+                <div className="flex items-baseline justify-between gap-4">
+                  <span className="text-xs font-medium text-[var(--color-muted-foreground)]">
+                    {BREADCRUMB_LABELS[crumb.type]}
+                  </span>
+                  <span className="text-xs tabular-nums text-[var(--color-muted-foreground)]">
+                    {formatOffset(new Date(crumb.timestamp).getTime() - errorTime)}
+                  </span>
+                </div>
+                <p className="break-all text-sm">
+                  {crumb.type === 'navigation' && crumb.data?.from
+                    ? `${crumb.data.from} → ${crumb.message}`
+                    : crumb.message}
+                </p>
+                {crumb.type === 'network' && crumb.data && (
+                  <p className="text-xs text-[var(--color-muted-foreground)]">
+                    {crumb.data.status || 'no response'} &middot;{' '}
+                    {formatDuration(Number(crumb.data.duration))}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Symbolicated frames, innermost first, with source context where the
+ * source map embeds it. Frames without a source map are shown as recorded.
+ */
+function OriginalFrames({ frames }: { frames: SymbolicatedFrame[] }) {
+  return (
+    <ol className="max-h-96 space-y-2 overflow-auto rounded bg-[var(--color-muted)] p-3 text-xs">
+      {frames.map((frame, index) => {
+        const shown = frame.original ?? frame;
+        return (
+          <li key={index} className={frame.original ? '' : 'opacity-60'}>
+            <p className="font-mono">
+              <span className="font-semibold">{shown.function ?? '<anonymous>'}</span>{' '}
+              <span className="text-[var(--color-muted-foreground)]">
+                {shown.file}:{shown.line}:{shown.column}
+              </span>
+            </p>
+            {frame.original?.context && (
+              <pre className="mt-1 overflow-x-auto">
+                {frame.original.context.pre.map((line, i) => (
+                  <div key={`pre-${i}`}>
+                    {formatLineNumber(shown.line - frame.original!.context!.pre.length + i)}
+                    {line}
+                  </div>
+                ))}
+                <div className="bg-red-500/10 font-semibold">
+                  {formatLineNumber(shown.line)}
+                  {frame.original.context.line}
+                </div>
+                {frame.original.context.post.map((line, i) => (
+                  <div key={`post-${i}`}>
+                    {formatLineNumber(shown.line + 1 + i)}
+                    {line}
+                  </div>
+                ))}
+              </pre>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+function formatLineNumber(line: number): string {
+  return String(line).padStart(5) + '  ';
+}
+
+/**
+ * Time relative to the error, e.g. "-2.40s".
+ */
+function formatOffset(ms: number): string {
+  if (!isFinite(ms)) return '';
+  if (Math.abs(ms) < 1) return '0ms';
+  return (ms <= 0 ? '-' : '+') + formatDuration(Math.abs(ms));
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import React from 'react';
+import type { DashboardData } from '@/types';
+import { formatNumber } from '@/lib/format';
+
+interface ErrorDropsNoteProps {
+  drops: DashboardData['errorDrops'];
+}
+
+/**
+ * Notes that the tracker throttled errors in the period, so the list
+ * above is not every error that occurred.
+ */
+export function ErrorDropsNote({ drops }: ErrorDropsNoteProps) {
+  const parts = [
+    drops.deduplicated > 0 && `${formatNumber(drops.deduplicated)} merged as duplicates`,
+    drops.rate_limited > 0 && `${formatNumber(drops.rate_limited)} dropped by rate limits`,
+    drops.filtered > 0 && `${formatNumber(drops.filtered)} ignored by filters`,
+  ].filter(Boolean);
+
+  if (parts.length === 0) return null;
+
+  return (
+    <p className="mt-4 border-t border-[var(--color-border)] pt-3 text-xs text-[var(--color-muted-foreground)]">
+      Throttled on {formatNumber(drops.page_views)}{' '}
+      {drops.page_views === 1 ? 'page view' : 'page views'}: {parts.join(', ')}
+    </p>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import React from 'react';
+import type { DashboardError } from '@/types';
+import { formatDate } from '@/lib/format';
+
+interface ErrorsListProps {
+  errors: DashboardError[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+export function ErrorsList({ errors, selectedId, onSelect }: ErrorsListProps) {
+  if (errors.length === 0) {
+    return (
+      <div className="flex h-40 items-center justify-center text-sm text-[var(--color-muted-foreground)]">
+        No errors recorded
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {errors.map((error) => (
+        <button
+          key={error.id}
+          type="button"
+          onClick={() => onSelect(error.id)}
+          className={`flex w-full flex-col rounded px-3 py-2 text-left transition-colors hover:bg-[var(--color-muted)] ${
+            error.id === selectedId ? 'bg-[var(--color-muted)]' : ''
+          }`}
+        >
+          <span className="truncate text-sm font-medium">
+            {error.message}
+            {error.occurrences > 1 && (
+              <span className="ml-2 text-xs font-normal text-[var(--color-muted-foreground)]">
+                &times;{error.occurrences}
+              </span>
+            )}
+          </span>
+          <span className="text-xs text-[var(--color-muted-foreground)]">
+            {error.pathname} &middot; {formatDate(error.created_at, true)}
+          </span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import React, { useState } from 'react';
 import type { TimeRangeOption } from '@/types';
 import type { Site } from '@/hooks/useSites';
 import { useAnalytics } from '@/hooks/useAnalytics';
+import { useFormAnalytics } from '@/hooks/useFormAnalytics';
 import { Header } from '@/components/layout/Header';
 import { StatCard } from '@/components/common/StatCard';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
@@ -11,8 +12,19 @@ import { EmptyState } from '@/components/common/EmptyState';
 import { PageViewChart } from '@/components/charts/PageViewChart';
 import { TopPagesTable } from '@/components/charts/TopPagesTable';
 import { ReferrersTable } from '@/components/charts/ReferrersTable';
+import { CampaignsTable } from '@/components/charts/CampaignsTable';
 import { DeviceChart } from '@/components/charts/DeviceChart';
 import { VitalsCard } from '@/components/charts/VitalsCard';
+import { ApiCallsTable } from '@/components/charts/ApiCallsTable';
+import { OutboundLinksTable } from '@/components/charts/OutboundLinksTable';
+import { DownloadsTable } from '@/components/charts/DownloadsTable';
+import { FrustrationPagesTable } from '@/components/charts/FrustrationPagesTable';
+import { FrustrationElementsTable } from '@/components/charts/FrustrationElementsTable';
+import { FormsTable } from '@/components/charts/FormsTable';
+import { FormFieldsTable } from '@/components/charts/FormFieldsTable';
+import { ErrorsList } from '@/components/errors/ErrorsList';
+import { ErrorDetail } from '@/components/errors/ErrorDetail';
+import { ErrorDropsNote } from '@/components/errors/ErrorDropsNote';
 import { formatNumber, formatPercentage } from '@/lib/format';
 
 interface DashboardProps {
@@ -32,6 +44,14 @@ export function Dashboard({
 }: DashboardProps) {
   const [timeRange, setTimeRange] = useState<TimeRangeOption>('24h');
   const { data, loading, error } = useAnalytics(siteId, timeRange);
+  const [selectedErrorId, setSelectedErrorId] = useState<string | null>(null);
+  const selectedError = data.errors.find((e) => e.id === selectedErrorId) ?? null;
+  const [selectedFormId, setSelectedFormId] = useState<string | null>(null);
+  // Show the most started form until another is picked
+  const formId = data.forms.some((f) => f.form_id === selectedFormId)
+    ? selectedFormId
+    : (data.forms[0]?.form_id ?? null);
+  const formFields = useFormAnalytics(siteId, formId, timeRange);
 
   const interval: 'hour' | 'day' =
     timeRange === '1h' || timeRange === '24h' ? 'hour' : 'day';
@@ -70,10 +90,16 @@ export function Dashboard({
                 <StatCard
                   label="Total Page Views"
                   value={formatNumber(data.stats.totalViews)}
+                  subtitle={
+                    data.stats.pagesPerSession !== null
+                      ? `${data.stats.pagesPerSession.toFixed(1)} pages / session`
+                      : undefined
+                  }
                 />
                 <StatCard
                   label="Unique Visitors"
                   value={formatNumber(data.stats.uniqueVisitors)}
+                  subtitle={`${formatNumber(data.stats.sessions)} sessions`}
                 />
                 <StatCard
                   label="Bounce Rate"
@@ -85,7 +111,7 @@ export function Dashboard({
                   subtitle={data.stats.bounceRate === null ? 'Not enough data' : undefined}
                 />
                 <StatCard
-                  label="Avg. Time on Page"
+                  label="Avg. Engaged Time"
                   value={
                     data.stats.avgTimeOnPage !== null
                       ? `${Math.round(data.stats.avgTimeOnPage)}s`
@@ -104,8 +130,8 @@ export function Dashboard({
               </div>
             </section>
 
-            {/* Top Pages & Referrers */}
-            <section className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            {/* Top Pages, Referrers & Campaigns */}
+            <section className="grid grid-cols-1 gap-6 lg:grid-cols-3">
               <div className="card">
                 <h2 className="mb-4 text-lg font-semibold">Top Pages</h2>
                 <TopPagesTable pages={data.topPages} />
@@ -114,6 +140,10 @@ export function Dashboard({
                 <h2 className="mb-4 text-lg font-semibold">Top Referrers</h2>
                 <ReferrersTable referrers={data.topReferrers} />
               </div>
+              <div className="card">
+                <h2 className="mb-4 text-lg font-semibold">Campaigns</h2>
+                <CampaignsTable campaigns={data.topCampaigns} />
+              </div>
             </section>
 
             {/* Web Vitals & Devices */}
@@ -127,6 +157,74 @@ export function Dashboard({
                 <DeviceChart data={data.devices} />
               </div>
             </section>
+
+            {/* API Calls */}
+            <section>
+              <div className="card">
+                <h2 className="mb-4 text-lg font-semibold">API Calls</h2>
+                <ApiCallsTable calls={data.apiCalls} />
+              </div>
+            </section>
+
+            {/* Outbound Links & Downloads */}
+            <section className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <div className="card">
+                <h2 className="mb-4 text-lg font-semibold">Outbound Links</h2>
+                <OutboundLinksTable links={data.outboundLinks} />
+              </div>
+              <div className="card">
+                <h2 className="mb-4 text-lg font-semibold">Downloads</h2>
+                <DownloadsTable downloads={data.downloads} />
+              </div>
+            </section>
+
+            {/* Frustration */}
+            <section className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <div className="card">
+                <h2 className="mb-4 text-lg font-semibold">Frustrated Pages</h2>
+                <FrustrationPagesTable pages={data.frustrationPages} />
+              </div>
+              <div className="card">
+                <h2 className="mb-4 text-lg font-semibold">Frustrating Elements</h2>
+                <FrustrationElementsTable elements={data.frustrationElements} />
+              </div>
+            </section>
+
+            {/* Forms */}
+            <section className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <div className="card">
+                <h2 className="mb-4 text-lg font-semibold">Forms</h2>
+                <FormsTable forms={data.forms} selectedId={formId} onSelect={setSelectedFormId} />
+              </div>
+              <div className="card">
+                <h2 className="mb-4 text-lg font-semibold">
+                  Field Drop-off
+                  {formId && (
+                    <span className="ml-2 text-sm font-normal text-[var(--color-muted-foreground)]">
+                      {formId}
+                    </span>
+                  )}
+                </h2>
+                <FormFieldsTable fields={formFields.fields} loading={formFields.loading} />
+              </div>
+            </section>
+
+            {/* Errors */}
+            <section className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+              <div className="card">
+                <h2 className="mb-4 text-lg font-semibold">Recent Errors</h2>
+                <ErrorsList
+                  errors={data.errors}
+                  selectedId={selectedErrorId}
+                  onSelect={setSelectedErrorId}
+                />
+                <ErrorDropsNote drops={data.errorDrops} />
+              </div>
+              <div className="card">
+                <h2 className="mb-4 text-lg font-semibold">Error Detail</h2>
+                <ErrorDetail siteId={siteId} error={selectedError} />
+              </div>
+            </section>
           </div>
         )}
       </main>
@@ -10,14 +10,25 @@ const EMPTY_DATA: DashboardData = {
   stats: {
     totalViews: 0,
     uniqueVisitors: 0,
+    sessions: 0,
+    pagesPerSession: null,
     avgTimeOnPage: null,
     bounceRate: null,
   },
   timeSeries: [],
   topPages: [],
   topReferrers: [],
+  topCampaigns: [],
   devices: [],
   vitals: [],
+  apiCalls: [],
+  outboundLinks: [],
+  downloads: [],
+  frustrationPages: [],
+  frustrationElements: [],
+  forms: [],
+  errors: [],
+  errorDrops: { deduplicated: 0, rate_limited: 0, filtered: 0, page_views: 0 },
 };
 
 export function useAnalytics(siteId: string, timeRange: TimeRangeOption) {
@@ -45,28 +56,63 @@ export function useAnalytics(siteId: string, timeRange: TimeRangeOption) {
       const interval: 'hour' | 'day' =
         timeRange === '1h' || timeRange === '24h' ? 'hour' : 'day';
 
-      const [stats, timeSeries, topPages, topReferrers, devices, vitals] =
-        await Promise.all([
-          client.getStats(siteId, dateRange),
-          client.getPageViewTimeSeries(siteId, dateRange, interval),
-          client.getTopPages(siteId, dateRange, 10),
-          client.getTopReferrers(siteId, dateRange, 10),
-          client.getDeviceBreakdown(siteId, dateRange),
-          client.getVitalsSummary(siteId, dateRange),
-        ]);
+      const [
+        stats,
+        timeSeries,
+        topPages,
+        topReferrers,
+        topCampaigns,
+        devices,
+        vitals,
+        apiCalls,
+        outboundLinks,
+        downloads,
+        frustrationPages,
+        frustrationElements,
+        forms,
+        errors,
+        errorDrops,
+      ] = await Promise.all([
+        client.getStats(siteId, dateRange),
+        client.getPageViewTimeSeries(siteId, dateRange, interval),
+        client.getTopPages(siteId, dateRange, 10),
+        client.getTopReferrers(siteId, dateRange, 10),
+        client.getTopCampaigns(siteId, dateRange, 10),
+        client.getDeviceBreakdown(siteId, dateRange),
+        client.getVitalsSummary(siteId, dateRange),
+        client.getApiCalls(siteId, dateRange, 10),
+        client.getOutboundLinks(siteId, dateRange, 10),
+        client.getDownloads(siteId, dateRange, 10),
+        client.getFrustrationByPage(siteId, dateRange, 10),
+        client.getFrustrationByElement(siteId, dateRange, 10),
+        client.getForms(siteId, dateRange, 10),
+        client.getErrors(siteId, dateRange, 20, { excludeExtensions: true }),
+        client.getErrorDrops(siteId, dateRange),
+      ]);
 
       setData({
         stats: {
           totalViews: stats.total_views,
           uniqueVisitors: stats.unique_visitors,
+          sessions: stats.sessions,
+          pagesPerSession: stats.pages_per_session,
           avgTimeOnPage: stats.avg_time_on_page,
           bounceRate: stats.bounce_rate,
         },
         timeSeries,
         topPages,
         topReferrers,
+        topCampaigns,
         devices,
         vitals,
+        apiCalls,
+        outboundLinks,
+        downloads,
+        frustrationPages,
+        frustrationElements,
+        forms,
+        errors,
+        errorDrops,
       });
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to fetch analytics data';
@@ -0,0 +1,55 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { createAnalyticsClient, getDateRange } from '@open-observability/sdk';
+import type { AnalyticsBackend, FormFieldStats } from '@open-observability/sdk';
+import { useAuth } from '@/components/providers/AuthProvider';
+import type { TimeRangeOption } from '@/types';
+
+/**
+ * Drop-off per field of a form over the time range. Fields are fetched
+ * when the form or range changes; `fields` is null while loading or when
+ * no form is selected.
+ */
+export function useFormAnalytics(
+  siteId: string,
+  formId: string | null,
+  timeRange: TimeRangeOption,
+) {
+  const { supabase } = useAuth();
+  const [fields, setFields] = useState<FormFieldStats[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const clientRef = useRef<AnalyticsBackend | null>(null);
+
+  if (!clientRef.current) {
+    clientRef.current = createAnalyticsClient({
+      backend: 'supabase',
+      client: supabase,
+    });
+  }
+
+  useEffect(() => {
+    setFields(null);
+    if (!formId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    clientRef
+      .current!.getFormAnalytics(siteId, getDateRange(timeRange), formId)
+      .then((result) => {
+        if (!cancelled) setFields(result);
+      })
+      .catch((err) => {
+        console.error('Failed to fetch form analytics:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [siteId, formId, timeRange]);
+
+  return { fields, loading };
+}
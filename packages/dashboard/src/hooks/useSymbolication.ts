@@ -0,0 +1,51 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { createAnalyticsClient } from '@open-observability/sdk';
+import type { AnalyticsBackend, SymbolicatedFrame } from '@open-observability/sdk';
+import { useAuth } from '@/components/providers/AuthProvider';
+import type { DashboardError } from '@/types';
+
+/**
+ * Stack frames of an error mapped to original source with the source maps
+ * uploaded for its release. Frames are fetched when the error changes;
+ * `frames` is null while loading or when the error has no stack frames.
+ */
+export function useSymbolication(siteId: string, error: DashboardError | null) {
+  const { supabase } = useAuth();
+  const [frames, setFrames] = useState<SymbolicatedFrame[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const clientRef = useRef<AnalyticsBackend | null>(null);
+
+  if (!clientRef.current) {
+    clientRef.current = createAnalyticsClient({
+      backend: 'supabase',
+      client: supabase,
+    });
+  }
+
+  useEffect(() => {
+    setFrames(null);
+    if (!error?.frames?.length) return;
+
+    let cancelled = false;
+    setLoading(true);
+    clientRef
+      .current!.symbolicateError(siteId, error)
+      .then((result) => {
+        if (!cancelled) setFrames(result);
+      })
+      .catch((err) => {
+        console.error('Failed to symbolicate error:', err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [siteId, error]);
+
+  return { frames, loading };
+}
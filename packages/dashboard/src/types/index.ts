@@ -8,6 +8,8 @@ export interface DashboardData {
   stats: {
     totalViews: number;
     uniqueVisitors: number;
+    sessions: number;
+    pagesPerSession: number | null;
     avgTimeOnPage: number | null;
     bounceRate: number | null;
   };
@@ -18,11 +20,22 @@ export interface DashboardData {
   topPages: Array<{
     pathname: string;
     count: number;
+    /** Seconds */
+    avg_engaged_time: number | null;
+    avg_scroll_depth: number | null;
   }>;
   topReferrers: Array<{
     referrer: string;
     count: number;
   }>;
+  topCampaigns: Array<{
+    utm_source: string | null;
+    utm_medium: string | null;
+    utm_campaign: string | null;
+    visitors: number;
+    sessions: number;
+    views: number;
+  }>;
   devices: Array<{
     category: 'mobile' | 'tablet' | 'desktop';
     count: number;
@@ -38,4 +51,91 @@ export interface DashboardData {
     poor_count: number;
     total_count: number;
   }>;
+  apiCalls: Array<{
+    method: string;
+    url_template: string;
+    requests: number;
+    error_count: number;
+    error_rate: number;
+    p50: number | null;
+    p95: number | null;
+  }>;
+  outboundLinks: Array<{
+    link_url: string;
+    link_host: string | null;
+    clicks: number;
+    sessions: number;
+  }>;
+  downloads: Array<{
+    link_url: string;
+    file_extension: string | null;
+    downloads: number;
+    sessions: number;
+  }>;
+  frustrationPages: Array<{
+    pathname: string;
+    rage_clicks: number;
+    dead_clicks: number;
+    error_clicks: number;
+    total: number;
+    sessions: number;
+  }>;
+  frustrationElements: Array<{
+    pathname: string;
+    selector: string;
+    rage_clicks: number;
+    dead_clicks: number;
+    error_clicks: number;
+    total: number;
+  }>;
+  forms: Array<{
+    form_id: string;
+    starts: number;
+    submissions: number;
+    abandonments: number;
+    conversion_rate: number;
+    avg_duration: number | null;
+  }>;
+  errors: DashboardError[];
+  errorDrops: {
+    deduplicated: number;
+    rate_limited: number;
+    filtered: number;
+    page_views: number;
+  };
+}
+
+export interface DashboardError {
+  id: string;
+  message: string;
+  pathname: string;
+  stack: string | null;
+  frames: DashboardErrorFrame[] | null;
+  source: string | null;
+  line: number | null;
+  column_number: number | null;
+  breadcrumbs: DashboardBreadcrumb[] | null;
+  release: string | null;
+  occurrences: number;
+  level: 'fatal' | 'error' | 'warning' | 'info';
+  tags: Record<string, string> | null;
+  extra: Record<string, string | number | boolean> | null;
+  created_at: string;
+}
+
+export interface DashboardErrorFrame {
+  function: string | null;
+  file: string;
+  line: number;
+  column: number;
+  in_app: boolean;
+  extension: boolean;
+}
+
+export interface DashboardBreadcrumb {
+  type: 'navigation' | 'click' | 'console' | 'network' | 'custom';
+  timestamp: string;
+  message: string;
+  level: 'info' | 'warning' | 'error';
+  data: Record<string, string | number | boolean> | null;
 }
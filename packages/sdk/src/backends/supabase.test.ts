@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { SupabaseBackend } from './supabase';
+import type { ErrorFrame } from '../types';
+
+const map = {
+  version: 3,
+  sources: ['src/app.ts'],
+  names: [],
+  mappings: 'AAAA',
+};
+
+const frames: ErrorFrame[] = [
+  {
+    function: 'r',
+    file: 'https://example.com/assets/app.min.js',
+    line: 1,
+    column: 10,
+    in_app: true,
+    extension: false,
+  },
+];
+
+/** A backend whose storage serves `map` for every script */
+function backend() {
+  const download = vi.fn(async (_path: string) => ({
+    data: new Blob([JSON.stringify(map)]),
+    error: null,
+  }));
+  const client = { storage: { from: () => ({ download }) } } as unknown as SupabaseClient;
+  return { backend: new SupabaseBackend({ client }), download };
+}
+
+describe('SupabaseBackend.symbolicateError', () => {
+  it("maps the frames parsed at ingest with the release's source maps", async () => {
+    const { backend: client, download } = backend();
+    const result = await client.symbolicateError('site', { frames, release: 'v1.2' });
+
+    expect(download).toHaveBeenCalledWith('site/v1.2/assets/app.min.js.map');
+    expect(result).toEqual([
+      {
+        ...frames[0],
+        original: { function: 'r', file: 'src/app.ts', line: 1, column: 1, context: null },
+      },
+    ]);
+  });
+
+  it('returns the frames unmapped without a release', async () => {
+    const { backend: client, download } = backend();
+    const result = await client.symbolicateError('site', { frames, release: null });
+
+    expect(download).not.toHaveBeenCalled();
+    expect(result).toEqual([{ ...frames[0], original: null }]);
+  });
+
+  it('has nothing to map for errors stored without frames', async () => {
+    const { backend: client } = backend();
+    expect(await client.symbolicateError('site', { frames: null, release: 'v1.2' })).toEqual([]);
+  });
+});
@@ -10,16 +10,44 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import type {
   AnalyticsBackend,
   DateRange,
+  ReferrerGrouping,
   PageView,
   TimeSeriesPoint,
   TopPage,
   TopReferrer,
+  TopCampaign,
   DeviceBreakdown,
   VitalSummary,
+  VitalAttribution,
+  PageVital,
+  BlockingScript,
+  ResourceGrouping,
+  SlowResource,
+  ThirdPartyHost,
+  ApiCall,
+  OutboundLink,
+  Download,
+  FrustrationPage,
+  FrustrationElement,
+  FormSummary,
+  FormFieldStats,
+  ErrorIssue,
+  IssueStatus,
+  SymbolicatedFrame,
   ErrorRecord,
+  ErrorFilters,
+  ErrorDrops,
   CustomEventRecord,
   PageViewStats,
 } from '../types';
+import {
+  SourceMapConsumer,
+  sourceMapPath,
+  symbolicateFrames,
+} from '../symbolication';
+
+/** Storage bucket holding source maps as `<site>/<release>/<script path>.map` */
+const SOURCE_MAP_BUCKET = 'sourcemaps';
 
 /**
  * Configuration using URL + key (creates a new Supabase client internally).
@@ -42,6 +70,8 @@ export type SupabaseBackendConfig = SupabaseBackendCredentialsConfig | SupabaseB
 
 export class SupabaseBackend implements AnalyticsBackend {
   private client: SupabaseClient;
+  /** Parsed source maps by storage path, kept for later symbolication */
+  private sourceMaps = new Map<string, Promise<SourceMapConsumer | null>>();
 
   constructor(config: SupabaseBackendConfig) {
     if ('client' in config) {
@@ -93,18 +123,33 @@ export class SupabaseBackend implements AnalyticsBackend {
     });
 
     if (error) throw new Error(`Failed to fetch top pages: ${error.message}`);
-    return (data ?? []).map((row: { pathname: string; count: number }) => ({
-      pathname: row.pathname,
-      count: Number(row.count),
-    }));
+    return (data ?? []).map(
+      (row: {
+        pathname: string;
+        count: number;
+        avg_engaged_time: number | null;
+        avg_scroll_depth: number | null;
+      }) => ({
+        pathname: row.pathname,
+        count: Number(row.count),
+        avg_engaged_time: row.avg_engaged_time != null ? Number(row.avg_engaged_time) : null,
+        avg_scroll_depth: row.avg_scroll_depth != null ? Number(row.avg_scroll_depth) : null,
+      }),
+    );
   }
 
-  async getTopReferrers(siteId: string, range: DateRange, limit = 10): Promise<TopReferrer[]> {
+  async getTopReferrers(
+    siteId: string,
+    range: DateRange,
+    limit = 10,
+    groupBy: ReferrerGrouping = 'host',
+  ): Promise<TopReferrer[]> {
     const { data, error } = await this.client.rpc('get_top_referrers', {
       p_site_id: siteId,
       p_from: range.from.toISOString(),
       p_to: range.to.toISOString(),
       p_limit: limit,
+      p_group_by: groupBy,
     });
 
     if (error) throw new Error(`Failed to fetch top referrers: ${error.message}`);
@@ -114,6 +159,34 @@ export class SupabaseBackend implements AnalyticsBackend {
     }));
   }
 
+  async getTopCampaigns(siteId: string, range: DateRange, limit = 10): Promise<TopCampaign[]> {
+    const { data, error } = await this.client.rpc('get_top_campaigns', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_limit: limit,
+    });
+
+    if (error) throw new Error(`Failed to fetch top campaigns: ${error.message}`);
+    return (data ?? []).map(
+      (row: {
+        utm_source: string | null;
+        utm_medium: string | null;
+        utm_campaign: string | null;
+        visitors: number;
+        sessions: number;
+        views: number;
+      }) => ({
+        utm_source: row.utm_source,
+        utm_medium: row.utm_medium,
+        utm_campaign: row.utm_campaign,
+        visitors: Number(row.visitors),
+        sessions: Number(row.sessions),
+        views: Number(row.views),
+      }),
+    );
+  }
+
   async getDeviceBreakdown(siteId: string, range: DateRange): Promise<DeviceBreakdown[]> {
     const { data, error } = await this.client.rpc('get_device_breakdown', {
       p_site_id: siteId,
@@ -164,20 +237,444 @@ export class SupabaseBackend implements AnalyticsBackend {
     );
   }
 
-  async getErrors(siteId: string, range: DateRange, limit = 50): Promise<ErrorRecord[]> {
+  async getVitalsByPage(
+    siteId: string,
+    range: DateRange,
+    metric: string,
+    limit = 10,
+  ): Promise<PageVital[]> {
+    const { data, error } = await this.client.rpc('get_vitals_by_page', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_metric: metric,
+      p_limit: limit,
+    });
+
+    if (error) throw new Error(`Failed to fetch vitals by page: ${error.message}`);
+    return (data ?? []).map(
+      (row: { pathname: string; p75: number; poor_count: number; total_count: number }) => ({
+        pathname: row.pathname,
+        p75: Number(row.p75),
+        poor_count: Number(row.poor_count),
+        total_count: Number(row.total_count),
+      }),
+    );
+  }
+
+  async getVitalAttribution(
+    siteId: string,
+    range: DateRange,
+    metric: string,
+    limit = 10,
+  ): Promise<VitalAttribution[]> {
+    const { data, error } = await this.client.rpc('get_vital_attribution', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_metric: metric,
+      p_limit: limit,
+    });
+
+    if (error) throw new Error(`Failed to fetch vital attribution: ${error.message}`);
+    return (data ?? []).map(
+      (row: {
+        target: string | null;
+        url: string | null;
+        event_type: string | null;
+        count: number;
+        poor_count: number;
+        p75: number;
+        phases: Record<string, number> | null;
+      }) => ({
+        target: row.target,
+        url: row.url,
+        event_type: row.event_type,
+        count: Number(row.count),
+        poor_count: Number(row.poor_count),
+        p75: Number(row.p75),
+        phases: row.phases ?? {},
+      }),
+    );
+  }
+
+  async getBlockingScripts(
+    siteId: string,
+    range: DateRange,
+    limit = 10,
+  ): Promise<BlockingScript[]> {
+    const { data, error } = await this.client.rpc('get_blocking_scripts', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_limit: limit,
+    });
+
+    if (error) throw new Error(`Failed to fetch blocking scripts: ${error.message}`);
+    return (data ?? []).map(
+      (row: {
+        source_url: string | null;
+        function_name: string | null;
+        invoker: string | null;
+        total_duration: number;
+        occurrences: number;
+        page_views: number;
+        worst_frame: number;
+      }) => ({
+        source_url: row.source_url,
+        function_name: row.function_name,
+        invoker: row.invoker,
+        total_duration: Number(row.total_duration),
+        occurrences: Number(row.occurrences),
+        page_views: Number(row.page_views),
+        worst_frame: Number(row.worst_frame),
+      }),
+    );
+  }
+
+  async getSlowResources(
+    siteId: string,
+    range: DateRange,
+    limit = 10,
+    groupBy: ResourceGrouping = 'url',
+  ): Promise<SlowResource[]> {
+    const { data, error } = await this.client.rpc('get_slow_resources', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_limit: limit,
+      p_group_by: groupBy,
+    });
+
+    if (error) throw new Error(`Failed to fetch slow resources: ${error.message}`);
+    return (data ?? []).map(
+      (row: {
+        resource: string;
+        initiator_type: string;
+        p75_duration: number;
+        avg_transfer_size: number;
+        occurrences: number;
+        render_blocking_count: number;
+        failed_count: number;
+      }) => ({
+        resource: row.resource,
+        initiator_type: row.initiator_type,
+        p75_duration: Number(row.p75_duration),
+        avg_transfer_size: Number(row.avg_transfer_size),
+        occurrences: Number(row.occurrences),
+        render_blocking_count: Number(row.render_blocking_count),
+        failed_count: Number(row.failed_count),
+      }),
+    );
+  }
+
+  async getThirdPartyImpact(
+    siteId: string,
+    range: DateRange,
+    limit = 10,
+  ): Promise<ThirdPartyHost[]> {
+    const { data, error } = await this.client.rpc('get_third_party_impact', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_limit: limit,
+    });
+
+    if (error) throw new Error(`Failed to fetch third-party impact: ${error.message}`);
+    return (data ?? []).map(
+      (row: {
+        host: string;
+        requests: number;
+        page_views: number;
+        transfer_size: number;
+        avg_duration: number | null;
+        bytes_share: number;
+      }) => ({
+        host: row.host,
+        requests: Number(row.requests),
+        page_views: Number(row.page_views),
+        transfer_size: Number(row.transfer_size),
+        avg_duration: Number(row.avg_duration ?? 0),
+        bytes_share: Number(row.bytes_share),
+      }),
+    );
+  }
+
+  async getApiCalls(siteId: string, range: DateRange, limit = 10): Promise<ApiCall[]> {
+    const { data, error } = await this.client.rpc('get_api_calls', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_limit: limit,
+    });
+
+    if (error) throw new Error(`Failed to fetch API calls: ${error.message}`);
+    return (data ?? []).map(
+      (row: {
+        method: string;
+        url_template: string;
+        requests: number;
+        error_count: number;
+        error_rate: number;
+        p50: number | null;
+        p95: number | null;
+      }) => ({
+        method: row.method,
+        url_template: row.url_template,
+        requests: Number(row.requests),
+        error_count: Number(row.error_count),
+        error_rate: Number(row.error_rate),
+        p50: row.p50 !== null ? Number(row.p50) : null,
+        p95: row.p95 !== null ? Number(row.p95) : null,
+      }),
+    );
+  }
+
+  async getOutboundLinks(siteId: string, range: DateRange, limit = 10): Promise<OutboundLink[]> {
+    const { data, error } = await this.client.rpc('get_outbound_links', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_limit: limit,
+    });
+
+    if (error) throw new Error(`Failed to fetch outbound links: ${error.message}`);
+    return (data ?? []).map((row: OutboundLink) => ({
+      ...row,
+      clicks: Number(row.clicks),
+      sessions: Number(row.sessions),
+    }));
+  }
+
+  async getDownloads(siteId: string, range: DateRange, limit = 10): Promise<Download[]> {
+    const { data, error } = await this.client.rpc('get_downloads', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_limit: limit,
+    });
+
+    if (error) throw new Error(`Failed to fetch downloads: ${error.message}`);
+    return (data ?? []).map((row: Download) => ({
+      ...row,
+      downloads: Number(row.downloads),
+      sessions: Number(row.sessions),
+    }));
+  }
+
+  async getFrustrationByPage(
+    siteId: string,
+    range: DateRange,
+    limit = 10,
+  ): Promise<FrustrationPage[]> {
+    const { data, error } = await this.client.rpc('get_frustration_by_page', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_limit: limit,
+    });
+
+    if (error) throw new Error(`Failed to fetch frustration by page: ${error.message}`);
+    return (data ?? []).map((row: FrustrationPage) => ({
+      ...row,
+      rage_clicks: Number(row.rage_clicks),
+      dead_clicks: Number(row.dead_clicks),
+      error_clicks: Number(row.error_clicks),
+      total: Number(row.total),
+      sessions: Number(row.sessions),
+    }));
+  }
+
+  async getFrustrationByElement(
+    siteId: string,
+    range: DateRange,
+    limit = 10,
+  ): Promise<FrustrationElement[]> {
+    const { data, error } = await this.client.rpc('get_frustration_by_element', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_limit: limit,
+    });
+
+    if (error) throw new Error(`Failed to fetch frustration by element: ${error.message}`);
+    return (data ?? []).map((row: FrustrationElement) => ({
+      ...row,
+      rage_clicks: Number(row.rage_clicks),
+      dead_clicks: Number(row.dead_clicks),
+      error_clicks: Number(row.error_clicks),
+      total: Number(row.total),
+    }));
+  }
+
+  async getForms(siteId: string, range: DateRange, limit = 10): Promise<FormSummary[]> {
+    const { data, error } = await this.client.rpc('get_forms', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_limit: limit,
+    });
+
+    if (error) throw new Error(`Failed to fetch forms: ${error.message}`);
+    return (data ?? []).map((row: FormSummary) => ({
+      ...row,
+      starts: Number(row.starts),
+      submissions: Number(row.submissions),
+      abandonments: Number(row.abandonments),
+      conversion_rate: Number(row.conversion_rate),
+      avg_duration: row.avg_duration != null ? Number(row.avg_duration) : null,
+    }));
+  }
+
+  async getFormAnalytics(
+    siteId: string,
+    range: DateRange,
+    formId: string,
+  ): Promise<FormFieldStats[]> {
+    const { data, error } = await this.client.rpc('get_form_analytics', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_form_id: formId,
+    });
+
+    if (error) throw new Error(`Failed to fetch form analytics: ${error.message}`);
+    return (data ?? []).map((row: FormFieldStats) => ({
+      ...row,
+      avg_order: Number(row.avg_order),
+      reached: Number(row.reached),
+      abandoned: Number(row.abandoned),
+      drop_off_rate: Number(row.drop_off_rate),
+      avg_time: Number(row.avg_time),
+      errors: Number(row.errors),
+    }));
+  }
+
+  async getErrors(
+    siteId: string,
+    range: DateRange,
+    limit = 50,
+    filters: ErrorFilters = {},
+  ): Promise<ErrorRecord[]> {
+    let query = this.client
+      .from('errors')
+      .select('*')
+      .eq('site_id', siteId)
+      .gte('created_at', range.from.toISOString())
+      .lte('created_at', range.to.toISOString());
+
+    if (filters.excludeExtensions) query = query.eq('from_extension', false);
+    if (filters.level) {
+      query = query.in('level', Array.isArray(filters.level) ? filters.level : [filters.level]);
+    }
+    if (filters.tags) query = query.contains('tags', filters.tags);
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(limit);
+
+    if (error) throw new Error(`Failed to fetch errors: ${error.message}`);
+    return data ?? [];
+  }
+
+  async getErrorIssues(
+    siteId: string,
+    range: DateRange,
+    status?: IssueStatus,
+    limit = 50,
+  ): Promise<ErrorIssue[]> {
+    const { data, error } = await this.client.rpc('get_error_issues', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+      p_status: status ?? null,
+      p_limit: limit,
+    });
+
+    if (error) throw new Error(`Failed to fetch error issues: ${error.message}`);
+    return (data ?? []).map((row: ErrorIssue) => ({
+      ...row,
+      occurrences: Number(row.occurrences),
+      period_occurrences: Number(row.period_occurrences),
+      affected_pages: Number(row.affected_pages),
+    }));
+  }
+
+  async getErrorDrops(siteId: string, range: DateRange): Promise<ErrorDrops> {
+    const { data, error } = await this.client.rpc('get_error_drops', {
+      p_site_id: siteId,
+      p_from: range.from.toISOString(),
+      p_to: range.to.toISOString(),
+    });
+
+    if (error) throw new Error(`Failed to fetch error drops: ${error.message}`);
+
+    const row = data?.[0] ?? { deduplicated: 0, rate_limited: 0, filtered: 0, page_views: 0 };
+
+    return {
+      deduplicated: Number(row.deduplicated),
+      rate_limited: Number(row.rate_limited),
+      filtered: Number(row.filtered),
+      page_views: Number(row.page_views),
+    };
+  }
+
+  async getIssueOccurrences(
+    siteId: string,
+    fingerprint: string,
+    range: DateRange,
+    limit = 50,
+  ): Promise<ErrorRecord[]> {
     const { data, error } = await this.client
       .from('errors')
       .select('*')
       .eq('site_id', siteId)
+      .eq('fingerprint', fingerprint)
       .gte('created_at', range.from.toISOString())
       .lte('created_at', range.to.toISOString())
       .order('created_at', { ascending: false })
       .limit(limit);
 
-    if (error) throw new Error(`Failed to fetch errors: ${error.message}`);
+    if (error) throw new Error(`Failed to fetch issue occurrences: ${error.message}`);
     return data ?? [];
   }
 
+  async updateIssueStatus(siteId: string, issueId: string, status: IssueStatus): Promise<void> {
+    const { error } = await this.client.rpc('update_issue_status', {
+      p_site_id: siteId,
+      p_issue_id: issueId,
+      p_status: status,
+    });
+
+    if (error) throw new Error(`Failed to update issue status: ${error.message}`);
+  }
+
+  async uploadSourceMap(
+    siteId: string,
+    release: string,
+    file: string,
+    sourceMap: string | object,
+  ): Promise<void> {
+    const path = this.sourceMapKey(siteId, release, file);
+    const body = typeof sourceMap === 'string' ? sourceMap : JSON.stringify(sourceMap);
+    const { error } = await this.client.storage
+      .from(SOURCE_MAP_BUCKET)
+      .upload(path, body, { upsert: true, contentType: 'application/json' });
+
+    if (error) throw new Error(`Failed to upload source map: ${error.message}`);
+    this.sourceMaps.delete(path);
+  }
+
+  async symbolicateError(
+    siteId: string,
+    error: Pick<ErrorRecord, 'frames' | 'release'>,
+  ): Promise<SymbolicatedFrame[]> {
+    const frames = error.frames ?? [];
+    const release = error.release;
+    if (!release) {
+      return frames.map((frame) => ({ ...frame, original: null }));
+    }
+    return symbolicateFrames(frames, (file) => this.loadSourceMap(siteId, release, file));
+  }
+
   async getCustomEvents(
     siteId: string,
     range: DateRange,
@@ -215,6 +712,8 @@ export class SupabaseBackend implements AnalyticsBackend {
     const row = data?.[0] ?? {
       total_views: 0,
       unique_visitors: 0,
+      sessions: 0,
+      pages_per_session: null,
       avg_time_on_page: null,
       bounce_rate: null,
     };
@@ -222,8 +721,35 @@ export class SupabaseBackend implements AnalyticsBackend {
     return {
       total_views: Number(row.total_views),
       unique_visitors: Number(row.unique_visitors),
-      avg_time_on_page: row.avg_time_on_page ? Number(row.avg_time_on_page) : null,
-      bounce_rate: row.bounce_rate ? Number(row.bounce_rate) : null,
+      sessions: Number(row.sessions),
+      pages_per_session: row.pages_per_session != null ? Number(row.pages_per_session) : null,
+      avg_time_on_page: row.avg_time_on_page != null ? Number(row.avg_time_on_page) : null,
+      bounce_rate: row.bounce_rate != null ? Number(row.bounce_rate) : null,
     };
   }
+
+  private sourceMapKey(siteId: string, release: string, file: string): string {
+    return `${siteId}/${encodeURIComponent(release)}/${sourceMapPath(file)}`;
+  }
+
+  private loadSourceMap(
+    siteId: string,
+    release: string,
+    file: string,
+  ): Promise<SourceMapConsumer | null> {
+    const path = this.sourceMapKey(siteId, release, file);
+    let consumer = this.sourceMaps.get(path);
+    if (!consumer) {
+      consumer = this.client.storage
+        .from(SOURCE_MAP_BUCKET)
+        .download(path)
+        .then(async ({ data, error }) => {
+          // No map was uploaded for this script
+          if (error || !data) return null;
+          return new SourceMapConsumer(JSON.parse(await data.text()));
+        });
+      this.sourceMaps.set(path, consumer);
+    }
+    return consumer;
+  }
 }
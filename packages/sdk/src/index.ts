@@ -33,16 +33,42 @@ export type { AnalyticsBackend } from './types';
 export type {
   DateRange,
   TimeRange,
+  Channel,
+  ReferrerGrouping,
   PageView,
   WebVital,
   ErrorRecord,
+  Breadcrumb,
+  IssueStatus,
+  ErrorIssue,
+  ErrorDrops,
+  StackFrame,
+  ErrorFrame,
+  ErrorFilters,
+  ErrorLevel,
+  SourceContext,
+  SymbolicatedFrame,
   CustomEventRecord,
   PageViewStats,
   TimeSeriesPoint,
   TopPage,
   TopReferrer,
+  TopCampaign,
   DeviceBreakdown,
   VitalSummary,
+  VitalAttribution,
+  PageVital,
+  BlockingScript,
+  ResourceGrouping,
+  SlowResource,
+  ThirdPartyHost,
+  ApiCall,
+  OutboundLink,
+  Download,
+  FrustrationPage,
+  FrustrationElement,
+  FormSummary,
+  FormFieldStats,
 } from './types';
 export { SupabaseBackend } from './backends/supabase';
 export type {
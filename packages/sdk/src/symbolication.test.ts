@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  SourceMapConsumer,
+  decodeVLQ,
+  sourceMapPath,
+  symbolicateFrames,
+  type SourceMap,
+} from './symbolication';
+import type { StackFrame } from './types';
+
+/**
+ * app.min.js line 1 maps column 0 to src/app.ts 1:1 and column 5 to 1:6,
+ * a call to `handleClick`; line 2 column 0 maps to 2:1.
+ */
+const map: SourceMap = {
+  version: 3,
+  sources: ['app.ts'],
+  sourceRoot: 'src',
+  sourcesContent: ['button.onclick = handleClick;\nthrow new Error();\n// end'],
+  names: ['handleClick'],
+  mappings: 'AAAA,KAAKA;AACL',
+};
+
+function frame(line: number, column: number, fn: string | null = null): StackFrame {
+  return { function: fn, file: 'https://example.com/app.min.js', line, column };
+}
+
+describe('decodeVLQ', () => {
+  it('decodes signed values of one or more digits', () => {
+    expect(decodeVLQ('AAgBC')).toEqual([0, 0, 16, 1]);
+    expect(decodeVLQ('D')).toEqual([-1]);
+  });
+
+  it('rejects characters outside Base64', () => {
+    expect(() => decodeVLQ('A!')).toThrow('Invalid VLQ character "!"');
+  });
+});
+
+describe('SourceMapConsumer', () => {
+  const consumer = new SourceMapConsumer(map);
+
+  it('maps a position to the last segment at or before it', () => {
+    expect(consumer.originalPositionFor(1, 9)).toMatchObject({
+      file: 'src/app.ts',
+      line: 1,
+      column: 6,
+      name: 'handleClick',
+    });
+    expect(consumer.originalPositionFor(1, 1)).toMatchObject({ line: 1, column: 1, name: null });
+  });
+
+  it('includes the surrounding source lines', () => {
+    expect(consumer.originalPositionFor(2, 1)?.context).toEqual({
+      pre: ['button.onclick = handleClick;'],
+      line: 'throw new Error();',
+      post: ['// end'],
+    });
+  });
+
+  it('returns null outside the mappings', () => {
+    expect(consumer.originalPositionFor(3, 1)).toBeNull();
+  });
+
+  it('only accepts version 3 maps', () => {
+    expect(() => new SourceMapConsumer({ ...map, version: 2 })).toThrow(
+      'Unsupported source map version 2',
+    );
+  });
+});
+
+describe('symbolicateFrames', () => {
+  it('names each frame after the function its caller called', async () => {
+    const frames = await symbolicateFrames([frame(2, 1, 'a'), frame(1, 6, 'b')], async () =>
+      new SourceMapConsumer(map),
+    );
+
+    expect(frames.map((f) => f.original && [f.original.function, f.original.line])).toEqual([
+      ['handleClick', 2],
+      ['b', 1],
+    ]);
+  });
+
+  it('loads each file once and keeps frames without a map raw', async () => {
+    const loadMap = vi.fn(async () => null);
+    const frames = await symbolicateFrames([frame(1, 1), frame(2, 1)], loadMap);
+
+    expect(loadMap).toHaveBeenCalledTimes(1);
+    expect(frames.map((f) => f.original)).toEqual([null, null]);
+  });
+
+  it('treats a map that fails to load as missing', async () => {
+    const frames = await symbolicateFrames([frame(1, 1)], () => Promise.reject(new Error('x')));
+    expect(frames[0].original).toBeNull();
+  });
+});
+
+describe('sourceMapPath', () => {
+  it('uses the script path without query string', () => {
+    expect(sourceMapPath('https://example.com/assets/main.3f2a1b.js?v=2')).toBe(
+      'assets/main.3f2a1b.js.map',
+    );
+    expect(sourceMapPath('/static/app.js#x')).toBe('static/app.js.map');
+  });
+});
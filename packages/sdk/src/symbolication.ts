@@ -0,0 +1,250 @@
+/**
+ * Source map symbolication.
+ *
+ * Maps the frames of a minified stack trace back to the original file,
+ * line, column and function name using the source maps uploaded for the
+ * error's release, with a few lines of surrounding source when the map
+ * embeds `sourcesContent`. Index maps (with `sections`) are not supported.
+ */
+
+import type { SourceContext, StackFrame, SymbolicatedFrame } from './types';
+
+/** Lines of source shown before and after the frame's line */
+const CONTEXT_LINES = 3;
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * A version 3 source map.
+ */
+export interface SourceMap {
+  version: number;
+  file?: string;
+  sourceRoot?: string;
+  sources: string[];
+  sourcesContent?: Array<string | null>;
+  names: string[];
+  mappings: string;
+}
+
+/**
+ * An original position, 1-based. `name` is the original name of the token
+ * at the position, if the map records one.
+ */
+export interface OriginalPosition {
+  file: string;
+  line: number;
+  column: number;
+  name: string | null;
+  context: SourceContext | null;
+}
+
+/** One decoded segment of the mappings, all positions 0-based */
+interface Mapping {
+  generatedColumn: number;
+  source: number;
+  originalLine: number;
+  originalColumn: number;
+  name?: number;
+}
+
+/**
+ * Decode one Base64 VLQ segment into its values.
+ *
+ * @example
+ * decodeVLQ('AAgBC') // [0, 0, 16, 1]
+ */
+export function decodeVLQ(segment: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of segment) {
+    const digit = BASE64.indexOf(char);
+    if (digit === -1) throw new Error(`Invalid VLQ character "${char}"`);
+
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      // The lowest bit is the sign
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Decode a source map's mappings into segments per generated line.
+ * Fields other than the generated column are relative to the previous
+ * segment across lines; the generated column resets on each line.
+ */
+function decodeMappings(mappings: string): Mapping[][] {
+  const lines: Mapping[][] = [];
+  let source = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let name = 0;
+
+  for (const line of mappings.split(';')) {
+    const segments: Mapping[] = [];
+    let generatedColumn = 0;
+
+    for (const segment of line.split(',')) {
+      if (!segment) continue;
+      const values = decodeVLQ(segment);
+      generatedColumn += values[0];
+      // Segments without a source position map nothing
+      if (values.length < 4) continue;
+
+      source += values[1];
+      originalLine += values[2];
+      originalColumn += values[3];
+      const mapping: Mapping = { generatedColumn, source, originalLine, originalColumn };
+      if (values.length >= 5) {
+        name += values[4];
+        mapping.name = name;
+      }
+      segments.push(mapping);
+    }
+
+    segments.sort((a, b) => a.generatedColumn - b.generatedColumn);
+    lines.push(segments);
+  }
+
+  return lines;
+}
+
+/**
+ * Looks up original positions in a source map. Decodes the mappings once.
+ */
+export class SourceMapConsumer {
+  private lines: Mapping[][];
+
+  constructor(private readonly map: SourceMap) {
+    if (map.version !== 3) {
+      throw new Error(`Unsupported source map version ${map.version}`);
+    }
+    this.lines = decodeMappings(map.mappings);
+  }
+
+  /**
+   * Original position of a generated position. `line` and `column` are
+   * 1-based, as in stack traces; so is the result.
+   */
+  originalPositionFor(line: number, column: number): OriginalPosition | null {
+    const segments = this.lines[line - 1];
+    if (!segments || segments.length === 0) return null;
+
+    // Last segment starting at or before the column
+    let low = 0;
+    let high = segments.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (segments[mid].generatedColumn <= column - 1) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    if (found === -1) return null;
+
+    const mapping = segments[found];
+    const source = this.map.sources[mapping.source];
+    if (source === undefined) return null;
+
+    return {
+      file: this.map.sourceRoot ? joinPath(this.map.sourceRoot, source) : source,
+      line: mapping.originalLine + 1,
+      column: mapping.originalColumn + 1,
+      name: mapping.name !== undefined ? (this.map.names[mapping.name] ?? null) : null,
+      context: this.contextFor(mapping.source, mapping.originalLine),
+    };
+  }
+
+  private contextFor(source: number, line: number): SourceContext | null {
+    const content = this.map.sourcesContent?.[source];
+    if (typeof content !== 'string') return null;
+
+    const lines = content.split(/\r?\n/);
+    if (line >= lines.length) return null;
+
+    return {
+      pre: lines.slice(Math.max(0, line - CONTEXT_LINES), line),
+      line: lines[line],
+      post: lines.slice(line + 1, line + 1 + CONTEXT_LINES),
+    };
+  }
+}
+
+/**
+ * Symbolicate frames, innermost first, with the source maps returned by
+ * `loadMap`, which is called once per distinct file and may return null
+ * when there is no map. Frames without a map, or outside its mappings,
+ * keep `original: null`.
+ *
+ * A frame's position is a call site, so the name mapped there is that of
+ * the function being called: the original name of each frame's function
+ * is read from the position of the frame that called it.
+ */
+export async function symbolicateFrames(
+  frames: StackFrame[],
+  loadMap: (file: string) => Promise<SourceMapConsumer | null>,
+): Promise<SymbolicatedFrame[]> {
+  const consumers = new Map<string, Promise<SourceMapConsumer | null>>();
+  const consumerFor = (file: string) => {
+    if (!consumers.has(file)) {
+      consumers.set(
+        file,
+        loadMap(file).catch(() => null),
+      );
+    }
+    return consumers.get(file)!;
+  };
+
+  const positions = await Promise.all(
+    frames.map(async (frame) => {
+      const consumer = await consumerFor(frame.file);
+      return consumer?.originalPositionFor(frame.line, frame.column) ?? null;
+    }),
+  );
+
+  return frames.map((frame, i) => {
+    const position = positions[i];
+    return {
+      ...frame,
+      original: position && {
+        function: positions[i + 1]?.name ?? frame.function,
+        file: position.file,
+        line: position.line,
+        column: position.column,
+        context: position.context,
+      },
+    };
+  });
+}
+
+/**
+ * Storage path of the source map for a script, relative to the release:
+ * the script URL's path without query string or leading slash, plus ".map",
+ * e.g. "https://example.com/assets/main.3f2a1b.js" -> "assets/main.3f2a1b.js.map".
+ */
+export function sourceMapPath(file: string): string {
+  let path = file;
+  try {
+    path = new URL(file).pathname;
+  } catch {
+    path = file.split(/[?#]/)[0];
+  }
+  return path.replace(/^\/+/, '') + '.map';
+}
+
+function joinPath(root: string, source: string): string {
+  if (/^[a-z]+:/i.test(source) || source.startsWith('/')) return source;
+  return root.replace(/\/+$/, '') + '/' + source;
+}
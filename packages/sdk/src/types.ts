@@ -12,6 +12,28 @@ export interface DateRange {
   to: Date;
 }
 
+/**
+ * Acquisition channel assigned to a page view at ingest time.
+ */
+export type Channel =
+  | 'Direct'
+  | 'Organic Search'
+  | 'Social'
+  | 'Email'
+  | 'Referral'
+  | 'Paid'
+  | 'Internal';
+
+/**
+ * How to group referrers: by normalized host, raw referrer URL, or channel.
+ */
+export type ReferrerGrouping = 'host' | 'url' | 'channel';
+
+/**
+ * How to group slow resources: by URL (without query string) or host.
+ */
+export type ResourceGrouping = 'url' | 'host';
+
 /**
  * Page view record as stored in the database.
  */
@@ -21,13 +43,27 @@ export interface PageView {
   url: string;
   pathname: string;
   referrer: string;
+  /** Normalized referrer host, e.g. "google.com" */
+  referrer_host: string | null;
+  channel: Channel | null;
   title: string;
   screen_width: number;
   timezone: string;
   language: string;
   connection_type: string | null;
   page_view_id: string;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_term: string | null;
+  utm_content: string | null;
+  /** Name of the ad click id parameter on the landing URL (e.g. "gclid") */
+  click_id: string | null;
   tracker_version: string;
+  session_id: string | null;
+  visitor_id: string | null;
+  /** Fraction of sessions sampled; each row stands for 1 / sample_rate events */
+  sample_rate: number;
   created_at: string;
 }
 
@@ -43,8 +79,23 @@ export interface WebVital {
   metric_value: number;
   metric_rating: 'good' | 'needs-improvement' | 'poor';
   metric_id: string;
+  /** "navigate", "reload", "soft-navigation", "back-forward-cache", ... */
   navigation_type: string | null;
+  /** Page view the metric was measured on */
+  page_view_id: string | null;
+  /** CSS selector of the LCP element, INP target or largest CLS shift source */
+  attribution_target: string | null;
+  /** LCP resource URL */
+  attribution_url: string | null;
+  /** INP event type, e.g. "click" */
+  attribution_event_type: string | null;
+  /** Phase durations in milliseconds, e.g. { input_delay, processing, presentation } */
+  attribution_phases: Record<string, number> | null;
   tracker_version: string;
+  session_id: string | null;
+  visitor_id: string | null;
+  /** Fraction of sessions sampled; each row stands for 1 / sample_rate events */
+  sample_rate: number;
   created_at: string;
 }
 
@@ -58,13 +109,145 @@ export interface ErrorRecord {
   pathname: string;
   message: string;
   stack: string | null;
+  /** The stack trace parsed into frames, innermost first */
+  frames: ErrorFrame[] | null;
+  /** Whether the innermost frame is a browser extension script */
+  from_extension: boolean;
   source: string | null;
   line: number | null;
   column_number: number | null;
+  /** What happened before the error, oldest first */
+  breadcrumbs: Breadcrumb[] | null;
+  /** Identifies the issue the error belongs to */
+  fingerprint: string | null;
+  /** Release the page was running, used to find its source maps */
+  release: string | null;
+  /** Identical errors the tracker merged into this record */
+  occurrences: number;
+  /** Severity; errors caught automatically are `error` */
+  level: ErrorLevel;
+  /** Tags set with `captureException()` */
+  tags: Record<string, string> | null;
+  /** Extra context set with `captureException()` */
+  extra: Record<string, string | number | boolean> | null;
   tracker_version: string;
+  session_id: string | null;
+  visitor_id: string | null;
+  /** Fraction of sessions sampled; each row stands for 1 / sample_rate events */
+  sample_rate: number;
   created_at: string;
 }
 
+/**
+ * Something that happened on the page before an error.
+ *
+ * - navigation: `message` is the new pathname, `data.from` the previous one
+ * - click: `message` is the clicked element's selector
+ * - console: `message` is the logged text
+ * - network: `message` is the method and URL template, `data` has
+ *   `status` and `duration`
+ * - custom: added with the tracker's `addBreadcrumb()`
+ */
+export interface Breadcrumb {
+  type: 'navigation' | 'click' | 'console' | 'network' | 'custom';
+  /** ISO 8601 timestamp */
+  timestamp: string;
+  message: string;
+  level: 'info' | 'warning' | 'error';
+  data: Record<string, string | number | boolean> | null;
+}
+
+/**
+ * A stack frame, with 1-based line and column.
+ */
+export interface StackFrame {
+  function: string | null;
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * A stack frame as parsed at ingest.
+ */
+export interface ErrorFrame extends StackFrame {
+  /** Whether the frame is from a script served over http(s), i.e. by a site */
+  in_app: boolean;
+  /** Whether the frame is from a browser extension */
+  extension: boolean;
+}
+
+/**
+ * Filters for `getErrors`.
+ */
+export interface ErrorFilters {
+  /** Leave out errors thrown by browser extension scripts */
+  excludeExtensions?: boolean;
+  /** Only errors of these levels */
+  level?: ErrorLevel | ErrorLevel[];
+  /** Only errors with all of these tags */
+  tags?: Record<string, string>;
+}
+
+export type ErrorLevel = 'fatal' | 'error' | 'warning' | 'info';
+
+/**
+ * Source lines around a frame's original line.
+ */
+export interface SourceContext {
+  pre: string[];
+  line: string;
+  post: string[];
+}
+
+/**
+ * A stack frame as recorded, with its original position when a source
+ * map covers it.
+ */
+export interface SymbolicatedFrame extends StackFrame {
+  original: (StackFrame & { context: SourceContext | null }) | null;
+}
+
+export type IssueStatus = 'open' | 'resolved' | 'ignored';
+
+/**
+ * A group of errors sharing a fingerprint (normalized message, top in-app
+ * stack frames and source file).
+ */
+export interface ErrorIssue {
+  id: string;
+  fingerprint: string;
+  /** Message of the first occurrence */
+  message: string;
+  source: string | null;
+  status: IssueStatus;
+  first_seen: string;
+  last_seen: string;
+  /** Occurrences of all time */
+  occurrences: number;
+  /** Occurrences in the queried period */
+  period_occurrences: number;
+  /** Distinct pages the issue occurred on in the queried period */
+  affected_pages: number;
+  /** When the issue last reopened after being resolved, null if it never has */
+  regressed_at: string | null;
+}
+
+/**
+ * Errors the tracker merged or dropped in a period instead of sending,
+ * weighted by sample rate.
+ */
+export interface ErrorDrops {
+  /** Duplicates merged into another error's occurrences */
+  deduplicated: number;
+  /** Dropped by the per page view and per session caps */
+  rate_limited: number;
+  /** Dropped by `ignoreErrors` and `denyUrls` */
+  filtered: number;
+  /** Page views on which anything was merged or dropped */
+  page_views: number;
+}
+
 /**
  * Custom event record as stored in the database.
  */
@@ -76,6 +259,10 @@ export interface CustomEventRecord {
   event_name: string;
   properties: Record<string, string | number | boolean> | null;
   tracker_version: string;
+  session_id: string | null;
+  visitor_id: string | null;
+  /** Fraction of sessions sampled; each row stands for 1 / sample_rate events */
+  sample_rate: number;
   created_at: string;
 }
 
@@ -85,7 +272,12 @@ export interface CustomEventRecord {
 export interface PageViewStats {
   total_views: number;
   unique_visitors: number;
+  sessions: number;
+  /** Average page views per session */
+  pages_per_session: number | null;
+  /** Average seconds of engaged time per page view */
   avg_time_on_page: number | null;
+  /** Percentage (0-100) of sessions with a single page view */
   bounce_rate: number | null;
 }
 
@@ -98,21 +290,38 @@ export interface TimeSeriesPoint {
 }
 
 /**
- * Top page with view count.
+ * Top page with view count and engagement.
  */
 export interface TopPage {
   pathname: string;
   count: number;
+  /** Average seconds the page was in the foreground and interacted with */
+  avg_engaged_time: number | null;
+  /** Average percentage (0-100) of the page scrolled into view */
+  avg_scroll_depth: number | null;
 }
 
 /**
- * Referrer with count.
+ * Referrer with count. `referrer` holds a host, URL or channel name
+ * depending on the grouping requested.
  */
 export interface TopReferrer {
   referrer: string;
   count: number;
 }
 
+/**
+ * Campaign with visitor, session and view counts.
+ */
+export interface TopCampaign {
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  visitors: number;
+  sessions: number;
+  views: number;
+}
+
 /**
  * Device category breakdown.
  */
@@ -136,6 +345,194 @@ export interface VitalSummary {
   total_count: number;
 }
 
+/**
+ * A Web Vital metric for one page (pathname).
+ */
+export interface PageVital {
+  pathname: string;
+  p75: number;
+  poor_count: number;
+  total_count: number;
+}
+
+/**
+ * A cause of a Web Vital metric: the element, resource and/or event type
+ * it was attributed to, with average phase durations in milliseconds.
+ */
+export interface VitalAttribution {
+  target: string | null;
+  url: string | null;
+  event_type: string | null;
+  count: number;
+  poor_count: number;
+  p75: number;
+  phases: Record<string, number>;
+}
+
+/**
+ * A script that ran during long animation frames, ranked by the main
+ * thread time it took.
+ */
+export interface BlockingScript {
+  source_url: string | null;
+  function_name: string | null;
+  /** What called the script, e.g. "BUTTON#buy.onclick" */
+  invoker: string | null;
+  /** Total execution time in ms across all reported frames */
+  total_duration: number;
+  /** Number of long frames the script ran in */
+  occurrences: number;
+  /** Number of page views affected */
+  page_views: number;
+  /** Longest frame the script ran in, in ms */
+  worst_frame: number;
+}
+
+/**
+ * A resource (or host, when grouped by host) ranked by load time.
+ */
+export interface SlowResource {
+  /** Resource URL, or host when grouped by host */
+  resource: string;
+  /** Most common initiator type, e.g. "script", "img", "fetch" */
+  initiator_type: string;
+  /** 75th percentile duration in ms */
+  p75_duration: number;
+  /** Average transfer size in bytes */
+  avg_transfer_size: number;
+  /** Number of times it was among a page view's reported resources */
+  occurrences: number;
+  render_blocking_count: number;
+  /** Loads that responded with an HTTP error status */
+  failed_count: number;
+}
+
+/**
+ * Bytes and requests a third-party host adds to page views.
+ */
+export interface ThirdPartyHost {
+  host: string;
+  requests: number;
+  /** Page views that loaded anything from the host */
+  page_views: number;
+  /** Total transfer size in bytes */
+  transfer_size: number;
+  /** Average resource duration in ms */
+  avg_duration: number;
+  /** Fraction (0-1) of all bytes transferred that came from the host */
+  bytes_share: number;
+}
+
+/**
+ * Latency and failures of one API endpoint called from the page.
+ */
+export interface ApiCall {
+  method: string;
+  /** Origin and path with id-like segments replaced by ":id" */
+  url_template: string;
+  /** Requests made, excluding aborted ones */
+  requests: number;
+  /** Requests that failed with a 4xx/5xx status, a network error or a timeout */
+  error_count: number;
+  /** Percentage (0-100) of requests that failed */
+  error_rate: number;
+  /** Median latency in ms, null if no request received a response */
+  p50: number | null;
+  /** 95th percentile latency in ms */
+  p95: number | null;
+}
+
+/**
+ * Clicks on a link to another host.
+ */
+export interface OutboundLink {
+  /** The link's origin and path */
+  link_url: string;
+  link_host: string | null;
+  clicks: number;
+  /** Sessions that clicked the link */
+  sessions: number;
+}
+
+/**
+ * Clicks on a link to a file.
+ */
+export interface Download {
+  /** The file's origin and path */
+  link_url: string;
+  /** Lowercase, without the dot */
+  file_extension: string | null;
+  downloads: number;
+  /** Sessions that downloaded the file */
+  sessions: number;
+}
+
+/**
+ * Frustration signals on a page.
+ */
+export interface FrustrationPage {
+  pathname: string;
+  /** Bursts of clicks on the same spot */
+  rage_clicks: number;
+  /** Clicks on buttons and links that changed nothing */
+  dead_clicks: number;
+  /** Clicks immediately followed by an uncaught error */
+  error_clicks: number;
+  total: number;
+  /** Sessions with at least one signal on the page */
+  sessions: number;
+}
+
+/**
+ * Frustration signals on an element of a page.
+ */
+export interface FrustrationElement {
+  pathname: string;
+  /** CSS selector of the clicked element */
+  selector: string;
+  rage_clicks: number;
+  dead_clicks: number;
+  error_clicks: number;
+  total: number;
+}
+
+/**
+ * Interactions with a form.
+ */
+export interface FormSummary {
+  /** The form's `data-oo-form` attribute, id or name */
+  form_id: string;
+  /** Visitors who focused a field */
+  starts: number;
+  submissions: number;
+  /** Started and left without submitting */
+  abandonments: number;
+  /** Percentage (0-100) of starts that were submitted */
+  conversion_rate: number;
+  /** Average seconds from the first focus to submit */
+  avg_duration: number | null;
+}
+
+/**
+ * Drop-off at one field of a form.
+ */
+export interface FormFieldStats {
+  /** The field's name or id */
+  field_name: string;
+  /** Average position in the order fields were first focused, from 1 */
+  avg_order: number;
+  /** Interactions that focused the field */
+  reached: number;
+  /** Interactions abandoned with this as the last field touched */
+  abandoned: number;
+  /** Percentage (0-100) of those reaching the field who abandoned there */
+  drop_off_rate: number;
+  /** Average seconds the field was focused */
+  avg_time: number;
+  /** Times the field failed validation */
+  errors: number;
+}
+
 /**
  * Backend interface. Allows swapping Supabase for other backends
  * in the future.
@@ -156,14 +553,26 @@ export interface AnalyticsBackend {
   ): Promise<TimeSeriesPoint[]>;
 
   /**
-   * Get top pages by view count.
+   * Get top pages by view count, with their average engaged time and
+   * scroll depth.
    */
   getTopPages(siteId: string, range: DateRange, limit?: number): Promise<TopPage[]>;
 
   /**
-   * Get top referrers.
+   * Get top referrers, excluding self-referrals. Grouped by normalized
+   * host unless another grouping is requested.
    */
-  getTopReferrers(siteId: string, range: DateRange, limit?: number): Promise<TopReferrer[]>;
+  getTopReferrers(
+    siteId: string,
+    range: DateRange,
+    limit?: number,
+    groupBy?: ReferrerGrouping,
+  ): Promise<TopReferrer[]>;
+
+  /**
+   * Get top UTM campaigns by visitors.
+   */
+  getTopCampaigns(siteId: string, range: DateRange, limit?: number): Promise<TopCampaign[]>;
 
   /**
    * Get device category breakdown.
@@ -176,9 +585,167 @@ export interface AnalyticsBackend {
   getVitalsSummary(siteId: string, range: DateRange): Promise<VitalSummary[]>;
 
   /**
-   * Get recent errors.
+   * Get the pages with the worst p75 for a Web Vital metric (e.g. "INP").
+   */
+  getVitalsByPage(
+    siteId: string,
+    range: DateRange,
+    metric: string,
+    limit?: number,
+  ): Promise<PageVital[]>;
+
+  /**
+   * Get the most common causes of a Web Vital metric (e.g. "LCP"),
+   * ranked by the number of poor values.
    */
-  getErrors(siteId: string, range: DateRange, limit?: number): Promise<ErrorRecord[]>;
+  getVitalAttribution(
+    siteId: string,
+    range: DateRange,
+    metric: string,
+    limit?: number,
+  ): Promise<VitalAttribution[]>;
+
+  /**
+   * Get the scripts that blocked the main thread the longest during long
+   * animation frames. Requires the tracker's `autoLongFrames` option.
+   */
+  getBlockingScripts(siteId: string, range: DateRange, limit?: number): Promise<BlockingScript[]>;
+
+  /**
+   * Get the slowest resources, by URL or by host. Only each page view's
+   * slowest, render-blocking and failed resources are reported, so this
+   * ranks outliers rather than every load. Requires the tracker's
+   * `autoResources` option.
+   */
+  getSlowResources(
+    siteId: string,
+    range: DateRange,
+    limit?: number,
+    groupBy?: ResourceGrouping,
+  ): Promise<SlowResource[]>;
+
+  /**
+   * Get the third-party hosts that transfer the most bytes. Requires the
+   * tracker's `autoResources` option.
+   */
+  getThirdPartyImpact(siteId: string, range: DateRange, limit?: number): Promise<ThirdPartyHost[]>;
+
+  /**
+   * Get the most called API endpoints with their latency and error rate.
+   * Requires the tracker's `autoNetwork` option.
+   */
+  getApiCalls(siteId: string, range: DateRange, limit?: number): Promise<ApiCall[]>;
+
+  /**
+   * Get the most clicked links to other hosts.
+   * Requires the tracker's `autoOutbound` option.
+   */
+  getOutboundLinks(siteId: string, range: DateRange, limit?: number): Promise<OutboundLink[]>;
+
+  /**
+   * Get the most downloaded files.
+   * Requires the tracker's `autoDownloads` option.
+   */
+  getDownloads(siteId: string, range: DateRange, limit?: number): Promise<Download[]>;
+
+  /**
+   * Get the pages with the most rage, dead and error clicks.
+   * Requires the tracker's `autoFrustration` option.
+   */
+  getFrustrationByPage(
+    siteId: string,
+    range: DateRange,
+    limit?: number,
+  ): Promise<FrustrationPage[]>;
+
+  /**
+   * Get the elements with the most rage, dead and error clicks.
+   * Requires the tracker's `autoFrustration` option.
+   */
+  getFrustrationByElement(
+    siteId: string,
+    range: DateRange,
+    limit?: number,
+  ): Promise<FrustrationElement[]>;
+
+  /**
+   * Get the most started forms with their submissions and abandonments.
+   * Requires the tracker's `autoForms` option.
+   */
+  getForms(siteId: string, range: DateRange, limit?: number): Promise<FormSummary[]>;
+
+  /**
+   * Get drop-off per field of a form, in the order visitors reach the
+   * fields. Requires the tracker's `autoForms` option.
+   */
+  getFormAnalytics(siteId: string, range: DateRange, formId: string): Promise<FormFieldStats[]>;
+
+  /**
+   * Get recent errors, optionally filtered by origin, level and tags.
+   *
+   * @example
+   * client.getErrors('my-site', range, 50, { level: ['fatal', 'error'], tags: { step: 'payment' } });
+   */
+  getErrors(
+    siteId: string,
+    range: DateRange,
+    limit?: number,
+    filters?: ErrorFilters,
+  ): Promise<ErrorRecord[]>;
+
+  /**
+   * Get the issues that occurred in a period, most frequent first,
+   * optionally only those with a given status.
+   */
+  getErrorIssues(
+    siteId: string,
+    range: DateRange,
+    status?: IssueStatus,
+    limit?: number,
+  ): Promise<ErrorIssue[]>;
+
+  /**
+   * Get how many errors the tracker's throttling merged or dropped.
+   */
+  getErrorDrops(siteId: string, range: DateRange): Promise<ErrorDrops>;
+
+  /**
+   * Get an issue's most recent occurrences.
+   */
+  getIssueOccurrences(
+    siteId: string,
+    fingerprint: string,
+    range: DateRange,
+    limit?: number,
+  ): Promise<ErrorRecord[]>;
+
+  /**
+   * Set an issue's status. Resolved issues reopen when they occur again.
+   */
+  updateIssueStatus(siteId: string, issueId: string, status: IssueStatus): Promise<void>;
+
+  /**
+   * Upload the source map of a script for a release. `file` is the
+   * script's URL or path as it appears in stack traces, e.g.
+   * "https://example.com/assets/main.3f2a1b.js". Replaces an earlier upload.
+   */
+  uploadSourceMap(
+    siteId: string,
+    release: string,
+    file: string,
+    sourceMap: string | object,
+  ): Promise<void>;
+
+  /**
+   * Map an error's stack frames to their original positions using the
+   * source maps uploaded for its release, using the frames parsed at
+   * ingest. Errors stored without frames have none to map. Returns the
+   * raw frames with `original: null` where no source map applies.
+   */
+  symbolicateError(
+    siteId: string,
+    error: Pick<ErrorRecord, 'frames' | 'release'>,
+  ): Promise<SymbolicatedFrame[]>;
 
   /**
    * Get custom events.
@@ -1,11 +1,28 @@
 import * as esbuild from 'esbuild';
 import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
 
 const pkg = JSON.parse(readFileSync('./package.json', 'utf8'));
 const isWatch = process.argv.includes('--watch');
 
+/** Optional features, loaded on demand (see src/load.ts) */
+const MODULES = [
+  'transport',
+  'redact',
+  'routes',
+  'web-vitals',
+  'engagement',
+  'errors',
+  'long-frames',
+  'resources',
+  'network',
+  'links',
+  'declarative',
+  'frustration',
+  'forms',
+];
+
 const sharedConfig = {
-  entryPoints: ['src/index.ts'],
   bundle: true,
   sourcemap: true,
   target: ['es2020'],
@@ -14,48 +31,74 @@ const sharedConfig = {
   },
 };
 
+// The script tag build loads optional features as separate scripts
+const loadScriptPlugin = {
+  name: 'load-script',
+  setup(build) {
+    build.onResolve({ filter: /^\.\/load$/ }, () => ({
+      path: fileURLToPath(new URL('./src/load-script.ts', import.meta.url)),
+    }));
+  },
+};
+
 // IIFE build - the script tag version (smallest possible)
 const iifeConfig = {
   ...sharedConfig,
+  entryPoints: ['src/index.ts'],
   outfile: 'dist/tracker.js',
   format: 'iife',
-  globalName: 'OpenObservability',
+  // No exports: script tag users get the tracker as window.__oo
   minify: true,
+  plugins: [loadScriptPlugin],
   // Drop console in production for minimal size
   drop: [],
 };
 
-// ESM build - for npm/bundler usage
+// One script per optional feature, registering itself on the global
+const moduleConfigs = MODULES.map((name) => ({
+  ...sharedConfig,
+  entryPoints: [`src/${name}.ts`],
+  outfile: `dist/tracker.${name}.js`,
+  format: 'iife',
+  globalName: `OpenObservability.modules['${name}']`,
+  minify: true,
+}));
+
+// ESM build - for npm/bundler usage, with optional features split into chunks
 const esmConfig = {
   ...sharedConfig,
-  outfile: 'dist/tracker.esm.js',
+  entryPoints: { 'tracker.esm': 'src/index.ts' },
+  outdir: 'dist',
+  chunkNames: 'chunks/[name]-[hash]',
+  splitting: true,
   format: 'esm',
   minify: false,
 };
 
 async function build() {
   if (isWatch) {
-    const iifeCtx = await esbuild.context(iifeConfig);
-    const esmCtx = await esbuild.context(esmConfig);
-    await Promise.all([iifeCtx.watch(), esmCtx.watch()]);
+    const contexts = await Promise.all(
+      [iifeConfig, ...moduleConfigs, esmConfig].map((config) => esbuild.context(config)),
+    );
+    await Promise.all(contexts.map((ctx) => ctx.watch()));
     console.log('Watching for changes...');
   } else {
-    const [iifeResult, esmResult] = await Promise.all([
+    const [iifeResult, esmResult, ...moduleResults] = await Promise.all([
       esbuild.build({ ...iifeConfig, metafile: true }),
       esbuild.build({ ...esmConfig, metafile: true }),
+      ...moduleConfigs.map((config) => esbuild.build({ ...config, metafile: true })),
     ]);
 
-    const iifeSize = Object.values(iifeResult.metafile.outputs).reduce(
-      (acc, o) => acc + o.bytes,
-      0,
-    );
-    const esmSize = Object.values(esmResult.metafile.outputs).reduce(
-      (acc, o) => acc + o.bytes,
-      0,
-    );
+    const size = (result) =>
+      Object.entries(result.metafile.outputs)
+        .filter(([file]) => !file.endsWith('.map'))
+        .reduce((acc, [, o]) => acc + o.bytes, 0);
 
-    console.log(`IIFE bundle: ${(iifeSize / 1024).toFixed(2)} KB`);
-    console.log(`ESM bundle:  ${(esmSize / 1024).toFixed(2)} KB`);
+    console.log(`IIFE bundle: ${(size(iifeResult) / 1024).toFixed(2)} KB`);
+    console.log(`ESM bundle:  ${(size(esmResult) / 1024).toFixed(2)} KB`);
+    MODULES.forEach((name, i) => {
+      console.log(`  ${name}: ${(size(moduleResults[i]) / 1024).toFixed(2)} KB`);
+    });
   }
 }
 
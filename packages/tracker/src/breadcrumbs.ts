@@ -0,0 +1,84 @@
+/**
+ * Breadcrumbs.
+ *
+ * A bounded log of what happened on the page before an error: navigations,
+ * clicks, console warnings and errors, network requests and entries added
+ * by the site. Attached to every error event so it can be read as a
+ * timeline leading up to the error.
+ */
+
+import type { Breadcrumb } from './types';
+import { getSelector, truncate } from './utils';
+
+export class Breadcrumbs {
+  private entries: Breadcrumb[] = [];
+
+  constructor(private readonly max: number) {}
+
+  /**
+   * Record a breadcrumb, dropping the oldest once the buffer is full.
+   */
+  add(breadcrumb: Omit<Breadcrumb, 'timestamp'>): void {
+    if (this.max <= 0) return;
+
+    this.entries.push({ timestamp: new Date().toISOString(), ...breadcrumb });
+    if (this.entries.length > this.max) {
+      this.entries.shift();
+    }
+  }
+
+  /**
+   * The recorded breadcrumbs, oldest first.
+   */
+  getAll(): Breadcrumb[] {
+    return this.entries.slice();
+  }
+}
+
+/**
+ * Record clicks with a single delegated listener. Only the clicked
+ * element's selector is kept, never its text.
+ */
+export function captureClicks(add: Breadcrumbs['add']): void {
+  document.addEventListener(
+    'click',
+    (event) => {
+      const selector = getSelector(event.target as Node | null);
+      if (selector) {
+        add({ type: 'click', message: selector });
+      }
+    },
+    { capture: true, passive: true },
+  );
+}
+
+/**
+ * Record console.warn and console.error calls.
+ */
+export function captureConsole(add: Breadcrumbs['add']): void {
+  for (const level of ['warn', 'error'] as const) {
+    const original = console[level];
+    console[level] = (...args: unknown[]) => {
+      try {
+        add({
+          type: 'console',
+          level: level === 'warn' ? 'warning' : 'error',
+          message: truncate(args.map(stringify).join(' '), 300),
+        });
+      } catch {
+        // Never let breadcrumbs break logging
+      }
+      original.apply(console, args);
+    };
+  }
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return value.name + ': ' + value.message;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
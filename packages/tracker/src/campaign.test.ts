@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { parseCampaign, stripClickIds } from './campaign';
+
+describe('parseCampaign', () => {
+  it('reads UTM parameters', () => {
+    expect(parseCampaign('?utm_source=newsletter&utm_medium=email&utm_campaign=spring')).toEqual({
+      utm_source: 'newsletter',
+      utm_medium: 'email',
+      utm_campaign: 'spring',
+    });
+  });
+
+  it('keeps the name of a click id, never its value', () => {
+    expect(parseCampaign('?gclid=abc123&utm_source=google')).toEqual({
+      utm_source: 'google',
+      click_id: 'gclid',
+    });
+  });
+
+  it('ignores empty values and URLs without campaign parameters', () => {
+    expect(parseCampaign('?utm_source=%20&page=2')).toBeNull();
+    expect(parseCampaign('')).toBeNull();
+  });
+
+  it('truncates long values', () => {
+    expect(parseCampaign(`?utm_term=${'a'.repeat(300)}`)?.utm_term).toHaveLength(200);
+  });
+});
+
+describe('stripClickIds', () => {
+  it('removes click ids and keeps other parameters', () => {
+    expect(stripClickIds('https://example.com/pricing?gclid=abc&plan=pro&fbclid=def')).toBe(
+      'https://example.com/pricing?plan=pro',
+    );
+  });
+
+  it('drops the query string when only click ids were in it', () => {
+    expect(stripClickIds('https://example.com/?msclkid=abc')).toBe('https://example.com/');
+  });
+
+  it('leaves URLs without click ids as they were', () => {
+    const url = 'https://example.com/search?q=a+b&page=2';
+    expect(stripClickIds(url)).toBe(url);
+  });
+
+  it('only matches whole parameter names', () => {
+    const url = 'https://example.com/?gclid_source=1';
+    expect(stripClickIds(url)).toBe(url);
+  });
+
+  it('returns values that are not URLs unchanged', () => {
+    expect(stripClickIds('')).toBe('');
+    expect(stripClickIds('/relative?gclid=abc')).toBe('/relative?gclid=abc');
+  });
+});
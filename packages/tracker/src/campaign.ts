@@ -0,0 +1,76 @@
+/**
+ * Campaign attribution from landing page URLs.
+ *
+ * Extracts UTM parameters and detects ad click ids. Click ids are unique
+ * per click and would make visitors linkable across systems, so only the
+ * name of the parameter (e.g. "gclid") is kept, never its value: it is
+ * stripped from the URLs and referrers sent too.
+ */
+
+import type { Campaign } from './types';
+
+const UTM_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+
+const CLICK_ID_PARAMS = [
+  'gclid',
+  'gbraid',
+  'wbraid',
+  'dclid',
+  'fbclid',
+  'msclkid',
+  'ttclid',
+  'twclid',
+  'li_fat_id',
+];
+
+/**
+ * Parse campaign parameters from a query string.
+ * Returns null when the URL carries no campaign information.
+ */
+export function parseCampaign(search: string): Campaign | null {
+  let params: URLSearchParams;
+  try {
+    params = new URLSearchParams(search);
+  } catch {
+    return null;
+  }
+
+  const campaign: Campaign = {};
+  let found = false;
+
+  for (const name of UTM_PARAMS) {
+    const value = params.get(name)?.trim();
+    if (value) {
+      campaign[name] = value.slice(0, 200);
+      found = true;
+    }
+  }
+
+  const clickId = CLICK_ID_PARAMS.find((name) => params.has(name));
+  if (clickId) {
+    campaign.click_id = clickId;
+    found = true;
+  }
+
+  return found ? campaign : null;
+}
+
+/**
+ * Remove click id parameters from a URL's query string, keeping the rest
+ * of the URL as it was. Values that are not absolute URLs (e.g. an empty
+ * referrer) are returned unchanged.
+ */
+export function stripClickIds(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const params = parsed.searchParams;
+    if (!CLICK_ID_PARAMS.some((name) => params.has(name))) return url;
+
+    for (const name of CLICK_ID_PARAMS) {
+      params.delete(name);
+    }
+    return parsed.href;
+  } catch {
+    return url;
+  }
+}
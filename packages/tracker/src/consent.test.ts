@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { Consent } from './consent';
+import type { TrackerEvent } from './types';
+
+function event(type: TrackerEvent['type'], id: string): TrackerEvent {
+  return { type, event_id: id } as TrackerEvent;
+}
+
+const ids = (events: TrackerEvent[]) => events.map((e) => e.event_id);
+
+describe('Consent', () => {
+  it('allows every category when consent is not required', () => {
+    const consent = new Consent(false);
+    expect(consent.getState()).toEqual({
+      status: 'granted',
+      categories: ['analytics', 'performance', 'errors'],
+    });
+    expect(consent.allows(event('error', 'a'))).toBe(true);
+  });
+
+  it('allows nothing while pending and releases nothing', () => {
+    const consent = new Consent(true);
+    consent.hold(event('pageview', 'a'));
+
+    expect(consent.pending).toBe(true);
+    expect(consent.allows(event('pageview', 'b'))).toBe(false);
+    expect(consent.release()).toEqual([]);
+  });
+
+  it('keeps held events after a grant until they are released', () => {
+    const consent = new Consent(true);
+    consent.hold(event('pageview', 'a'));
+    consent.grant(['analytics', 'performance', 'errors']);
+    consent.hold(event('custom', 'b'));
+
+    expect(ids(consent.release())).toEqual(['a', 'b']);
+    expect(consent.release()).toEqual([]);
+  });
+
+  it('releases only the events of granted categories', () => {
+    const consent = new Consent(true);
+    consent.hold(event('pageview', 'a'));
+    consent.hold(event('webvital', 'b'));
+    consent.hold(event('error', 'c'));
+    consent.grant(['analytics', 'errors']);
+
+    expect(ids(consent.release())).toEqual(['a', 'c']);
+    expect(consent.allows(event('network', 'd'))).toBe(false);
+  });
+
+  it('holds at most 100 events', () => {
+    const consent = new Consent(true);
+    for (let i = 0; i < 150; i++) {
+      consent.hold(event('custom', String(i)));
+    }
+    consent.grant(['analytics']);
+
+    const released = consent.release();
+    expect(released).toHaveLength(100);
+    expect(released[99].event_id).toBe('99');
+  });
+
+  it('discards held events when consent is revoked', () => {
+    const consent = new Consent(true);
+    consent.hold(event('pageview', 'a'));
+    consent.revoke();
+    consent.grant(['analytics']);
+
+    expect(consent.getState().status).toBe('granted');
+    expect(consent.release()).toEqual([]);
+  });
+});
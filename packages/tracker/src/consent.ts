@@ -0,0 +1,101 @@
+/**
+ * Consent state.
+ *
+ * With `requireConsent`, nothing is sent or stored until the site calls
+ * `grantConsent()`. Events tracked before that are held in memory (never
+ * in storage) and either sent or discarded once a decision is made.
+ */
+
+import type { ConsentCategory, ConsentState, EventType, TrackerEvent } from './types';
+
+/** Pre-consent events beyond this are discarded */
+const MAX_BUFFERED_EVENTS = 100;
+
+export const CONSENT_CATEGORIES: ConsentCategory[] = ['analytics', 'performance', 'errors'];
+
+/** Consent category each event type falls under */
+const EVENT_CATEGORIES: Record<EventType, ConsentCategory> = {
+  pageview: 'analytics',
+  custom: 'analytics',
+  webvital: 'performance',
+  error: 'errors',
+  longframe: 'performance',
+  resources: 'performance',
+  network: 'performance',
+  errorstats: 'errors',
+  outbound: 'analytics',
+  download: 'analytics',
+  pageleave: 'analytics',
+  frustration: 'analytics',
+  form: 'analytics',
+};
+
+export class Consent {
+  private status: ConsentState['status'];
+  private categories: ConsentCategory[];
+  private buffer: TrackerEvent[] = [];
+
+  constructor(required: boolean) {
+    this.status = required ? 'pending' : 'granted';
+    this.categories = required ? [] : [...CONSENT_CATEGORIES];
+  }
+
+  get pending(): boolean {
+    return this.status === 'pending';
+  }
+
+  get granted(): boolean {
+    return this.status === 'granted';
+  }
+
+  getState(): ConsentState {
+    return { status: this.status, categories: [...this.categories] };
+  }
+
+  /**
+   * Whether an event may be sent under the current decision.
+   */
+  allows(event: TrackerEvent): boolean {
+    return this.granted && this.categories.includes(EVENT_CATEGORIES[event.type]);
+  }
+
+  /**
+   * Hold an event until consent is decided.
+   */
+  hold(event: TrackerEvent): void {
+    if (this.buffer.length < MAX_BUFFERED_EVENTS) {
+      this.buffer.push(event);
+    }
+  }
+
+  /**
+   * Grant consent for the given categories. Held events stay held until
+   * `release()`, so that a decision made before the tracker is initialized
+   * keeps them.
+   */
+  grant(categories: ConsentCategory[]): void {
+    this.status = 'granted';
+    this.categories = CONSENT_CATEGORIES.filter((category) => categories.includes(category));
+  }
+
+  /**
+   * Return the held events the granted categories cover, discarding the
+   * rest. Returns nothing while consent is pending.
+   */
+  release(): TrackerEvent[] {
+    if (this.pending) return [];
+
+    const released = this.buffer.filter((event) => this.allows(event));
+    this.buffer = [];
+    return released;
+  }
+
+  /**
+   * Deny consent and discard any held events.
+   */
+  revoke(): void {
+    this.status = 'denied';
+    this.categories = [];
+    this.buffer = [];
+  }
+}
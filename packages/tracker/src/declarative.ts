@@ -0,0 +1,140 @@
+/**
+ * Declarative event tracking.
+ *
+ * Lets sites track custom events from HTML alone:
+ *
+ *   <button data-oo-event="signup" data-oo-prop-plan="pro">Sign up</button>
+ *   <form data-oo-event="newsletter">...</form>
+ *   <section data-oo-impression="pricing_table">...</section>
+ *
+ * Clicks on an element with `data-oo-event` (or inside one) and submits of
+ * a form with `data-oo-event` are seen by one delegated listener each.
+ * Elements with `data-oo-impression` are reported once, when at least half
+ * of them becomes visible. `data-oo-prop-*` attributes become the event's
+ * properties, e.g. `data-oo-prop-billing-cycle="yearly"` ->
+ * `{ billing_cycle: 'yearly' }`.
+ */
+
+import type { FeatureHost } from './types';
+
+const EVENT_ATTRIBUTE = 'data-oo-event';
+const IMPRESSION_ATTRIBUTE = 'data-oo-impression';
+const PROP_PREFIX = 'data-oo-prop-';
+
+/** Share of an element that must be visible to count as an impression */
+const IMPRESSION_THRESHOLD = 0.5;
+
+type DeclarativeHandler = (
+  name: string,
+  properties: Record<string, string> | undefined,
+  navigates: boolean,
+) => void;
+
+/**
+ * Entry point of the declarative tracking feature (see load.ts).
+ */
+export function setup(host: FeatureHost): void {
+  const onEvent: DeclarativeHandler = (name, properties, navigates) => {
+    host.trackEvent(name, properties);
+    // A submit or link click may navigate away; a beacon outlives the page
+    if (navigates) {
+      host.flush();
+    }
+  };
+
+  if (host.config.autoDeclarative) {
+    trackDeclarativeEvents(onEvent);
+  }
+  if (host.config.autoImpressions) {
+    trackImpressions(onEvent);
+  }
+}
+
+/**
+ * Report clicks and form submits on elements with `data-oo-event`.
+ * `navigates` is true for submits and clicks on links, which may unload
+ * the page.
+ */
+export function trackDeclarativeEvents(onEvent: DeclarativeHandler): void {
+  document.addEventListener(
+    'click',
+    (event) => {
+      const el = (event.target as Element | null)?.closest?.(`[${EVENT_ATTRIBUTE}]`);
+      // Forms are reported when submitted, not on every click inside them
+      if (!el || el.tagName === 'FORM') return;
+      onEvent(el.getAttribute(EVENT_ATTRIBUTE)!, getProperties(el), !!el.closest('a[href]'));
+    },
+    { capture: true, passive: true },
+  );
+
+  document.addEventListener(
+    'submit',
+    (event) => {
+      const form = event.target as Element | null;
+      const name = form?.getAttribute?.(EVENT_ATTRIBUTE);
+      if (form && name) onEvent(name, getProperties(form), true);
+    },
+    { capture: true, passive: true },
+  );
+}
+
+/**
+ * Report each element with `data-oo-impression` the first time it becomes
+ * visible, including elements added to the page later.
+ */
+export function trackImpressions(onEvent: DeclarativeHandler): void {
+  if (typeof IntersectionObserver === 'undefined') return;
+
+  const seen = new WeakSet<Element>();
+
+  const intersection = new IntersectionObserver(
+    (entries) => {
+      for (const entry of entries) {
+        if (!entry.isIntersecting || seen.has(entry.target)) continue;
+        seen.add(entry.target);
+        intersection.unobserve(entry.target);
+        onEvent(
+          entry.target.getAttribute(IMPRESSION_ATTRIBUTE)!,
+          getProperties(entry.target),
+          false,
+        );
+      }
+    },
+    { threshold: IMPRESSION_THRESHOLD },
+  );
+
+  const observeWithin = (root: Element | Document) => {
+    if (root instanceof Element && root.hasAttribute(IMPRESSION_ATTRIBUTE)) {
+      intersection.observe(root);
+    }
+    root.querySelectorAll(`[${IMPRESSION_ATTRIBUTE}]`).forEach((el) => {
+      if (!seen.has(el)) intersection.observe(el);
+    });
+  };
+
+  observeWithin(document);
+
+  new MutationObserver((mutations) => {
+    for (const mutation of mutations) {
+      mutation.addedNodes.forEach((node) => {
+        if (node instanceof Element) observeWithin(node);
+      });
+    }
+  }).observe(document.documentElement, { childList: true, subtree: true });
+}
+
+/**
+ * Properties from an element's `data-oo-prop-*` attributes, with hyphens
+ * in the names replaced by underscores.
+ */
+function getProperties(el: Element): Record<string, string> | undefined {
+  let properties: Record<string, string> | undefined;
+
+  for (const attr of Array.from(el.attributes)) {
+    if (!attr.name.startsWith(PROP_PREFIX)) continue;
+    properties = properties ?? {};
+    properties[attr.name.slice(PROP_PREFIX.length).replace(/-/g, '_')] = attr.value;
+  }
+
+  return properties;
+}
@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { collectEngagement } from './engagement';
+
+/** Event target whose listeners the tests call directly */
+class FakeTarget {
+  listeners: Record<string, Array<() => void>> = {};
+
+  addEventListener(type: string, listener: () => void): void {
+    (this.listeners[type] ??= []).push(listener);
+  }
+
+  fire(type: string): void {
+    for (const listener of this.listeners[type] ?? []) listener();
+  }
+}
+
+describe('collectEngagement', () => {
+  let document: FakeTarget & {
+    documentElement: { scrollHeight: number };
+    visibilityState: string;
+    readyState: string;
+  };
+  let window: FakeTarget & { scrollY: number; innerHeight: number };
+  let reports: ReturnType<typeof vi.fn>;
+  let collector: ReturnType<typeof collectEngagement>;
+
+  const engagedTime = () => reports.mock.calls[reports.mock.calls.length - 1][0].engaged_time;
+
+  const hide = () => {
+    document.visibilityState = 'hidden';
+    document.fire('visibilitychange');
+  };
+
+  const show = () => {
+    document.visibilityState = 'visible';
+    document.fire('visibilitychange');
+  };
+
+  const scrollTo = (y: number) => {
+    window.scrollY = y;
+    window.fire('scroll');
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    document = Object.assign(new FakeTarget(), {
+      documentElement: { scrollHeight: 4000 },
+      visibilityState: 'visible',
+      readyState: 'complete',
+    });
+    window = Object.assign(new FakeTarget(), { scrollY: 0, innerHeight: 1000 });
+    vi.stubGlobal('document', document);
+    vi.stubGlobal('window', window);
+    vi.stubGlobal('performance', { now: () => Date.now() });
+    // Measure right away rather than on the next frame
+    vi.stubGlobal('requestAnimationFrame', (callback: () => void) => callback());
+
+    reports = vi.fn();
+    collector = collectEngagement(reports);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('engaged time', () => {
+    it('counts time in the foreground until the page is hidden', () => {
+      vi.advanceTimersByTime(5000);
+      hide();
+      vi.advanceTimersByTime(60_000);
+
+      expect(reports).toHaveBeenCalledTimes(1);
+      expect(reports).toHaveBeenCalledWith({
+        type: 'pageleave',
+        engaged_time: 5000,
+        scroll_depth: 25,
+      });
+
+      show();
+      vi.advanceTimersByTime(2000);
+      collector.finalize();
+      expect(engagedTime()).toBe(7000);
+    });
+
+    it('pauses while another window has focus', () => {
+      vi.advanceTimersByTime(3000);
+      window.fire('blur');
+      vi.advanceTimersByTime(10_000);
+      collector.finalize();
+      expect(engagedTime()).toBe(3000);
+
+      window.fire('focus');
+      vi.advanceTimersByTime(1000);
+      collector.finalize();
+      expect(engagedTime()).toBe(4000);
+    });
+
+    it('stops counting 30 seconds after the last interaction', () => {
+      vi.advanceTimersByTime(10_000);
+      document.fire('keydown');
+      vi.advanceTimersByTime(60_000);
+      collector.finalize();
+      expect(engagedTime()).toBe(40_000);
+
+      // An interaction after going idle resumes from then on
+      document.fire('pointerdown');
+      vi.advanceTimersByTime(5000);
+      collector.finalize();
+      expect(engagedTime()).toBe(45_000);
+    });
+
+    it('does not count a page loaded in the background until it is shown', () => {
+      document.visibilityState = 'hidden';
+      reports = vi.fn();
+      collector = collectEngagement(reports);
+      vi.advanceTimersByTime(5000);
+      document.fire('pointerdown');
+      show();
+      vi.advanceTimersByTime(1000);
+      collector.finalize();
+      expect(engagedTime()).toBe(1000);
+    });
+  });
+
+  describe('scroll depth', () => {
+    it('counts what is visible without scrolling', () => {
+      collector.finalize();
+      expect(reports).toHaveBeenCalledWith(expect.objectContaining({ scroll_depth: 25 }));
+    });
+
+    it('keeps the deepest point reached', () => {
+      scrollTo(2000);
+      scrollTo(500);
+      collector.finalize();
+      expect(reports).toHaveBeenCalledWith(expect.objectContaining({ scroll_depth: 75 }));
+    });
+
+    it('caps at 100%', () => {
+      scrollTo(5000);
+      collector.finalize();
+      expect(reports).toHaveBeenCalledWith(expect.objectContaining({ scroll_depth: 100 }));
+    });
+  });
+
+  it('reports only when the totals changed', () => {
+    hide();
+    window.fire('pagehide');
+    expect(reports).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts over for the next page view after a route change', () => {
+    scrollTo(3000);
+    vi.advanceTimersByTime(5000);
+    collector.finalize();
+    collector.reset();
+    // Re-measured once the new route has rendered
+    document.documentElement.scrollHeight = 2000;
+    window.scrollY = 0;
+    vi.advanceTimersByTime(2000);
+    collector.finalize();
+
+    expect(reports.mock.calls.map(([data]) => data)).toEqual([
+      { type: 'pageleave', engaged_time: 5000, scroll_depth: 100 },
+      { type: 'pageleave', engaged_time: 2000, scroll_depth: 50 },
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Engagement measurement.
+ *
+ * Measures per page view how long the visitor was engaged - the page was
+ * in the foreground, its window had focus and they had interacted with it
+ * recently - and how far down the page they scrolled. Both are reported as
+ * a page-leave event that updates the page view they were measured on.
+ */
+
+import type { FeatureHost, PageLeaveEvent, PageViewCollector } from './types';
+
+/** Time stops counting after this long without any interaction */
+const IDLE_TIMEOUT = 30 * 1000;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'wheel', 'touchstart'];
+
+type PageLeaveData = Pick<PageLeaveEvent, 'type' | 'engaged_time' | 'scroll_depth'>;
+
+/**
+ * Entry point of the engagement feature (see load.ts).
+ */
+export function setup(host: FeatureHost): void {
+  host.collect(collectEngagement((data) => host.report(data)));
+}
+
+/**
+ * Start measuring engagement. Each page view's totals are reported when
+ * the page is hidden and when the tracker finalizes it on a route change;
+ * every report carries the totals so far.
+ */
+export function collectEngagement(onReport: (data: PageLeaveData) => void): PageViewCollector {
+  let engagedTime = 0;
+  // Start of the engaged stretch being timed, null while hidden
+  let engagedSince: number | null = isVisible() ? performance.now() : null;
+  let lastActivity = performance.now();
+  let scrollDepth = 0;
+  let reported = { engaged_time: -1, scroll_depth: -1 };
+  let measurePending = false;
+
+  // Count the current stretch up to the last interaction plus the timeout
+  const elapsed = (now: number) =>
+    engagedSince === null
+      ? 0
+      : Math.max(0, Math.min(now, lastActivity + IDLE_TIMEOUT) - engagedSince);
+
+  const pause = (now: number) => {
+    engagedTime += elapsed(now);
+    engagedSince = null;
+  };
+
+  const onActivity = () => {
+    if (!isVisible()) return;
+    const now = performance.now();
+    // Resuming after going idle starts a new stretch
+    if (engagedSince !== null && now - lastActivity > IDLE_TIMEOUT) {
+      pause(now);
+    }
+    if (engagedSince === null) {
+      engagedSince = now;
+    }
+    lastActivity = now;
+  };
+
+  const measureScroll = () => {
+    measurePending = false;
+    const height = document.documentElement.scrollHeight;
+    if (height <= 0) return;
+    const depth = Math.round(((window.scrollY + window.innerHeight) / height) * 100);
+    scrollDepth = Math.max(scrollDepth, Math.min(100, depth));
+  };
+
+  const scheduleMeasure = () => {
+    if (measurePending) return;
+    measurePending = true;
+    requestAnimationFrame(measureScroll);
+  };
+
+  const finalize = () => {
+    const data: PageLeaveData = {
+      type: 'pageleave',
+      engaged_time: Math.round(engagedTime + elapsed(performance.now())),
+      scroll_depth: scrollDepth,
+    };
+    if (
+      data.engaged_time === reported.engaged_time &&
+      data.scroll_depth === reported.scroll_depth
+    ) {
+      return;
+    }
+    reported = { engaged_time: data.engaged_time, scroll_depth: data.scroll_depth };
+    onReport(data);
+  };
+
+  for (const type of ACTIVITY_EVENTS) {
+    document.addEventListener(type, onActivity, { capture: true, passive: true });
+  }
+  window.addEventListener('scroll', scheduleMeasure, { passive: true });
+  window.addEventListener('resize', scheduleMeasure, { passive: true });
+
+  document.addEventListener('visibilitychange', () => {
+    const now = performance.now();
+    if (document.visibilityState === 'hidden') {
+      pause(now);
+      finalize();
+    } else {
+      engagedSince = now;
+      lastActivity = now;
+    }
+  });
+  window.addEventListener('pagehide', finalize);
+
+  // Focus moved to another window; the next interaction resumes timing
+  window.addEventListener('blur', () => pause(performance.now()));
+  window.addEventListener('focus', onActivity);
+
+  // What is visible without scrolling counts as read
+  if (document.readyState === 'loading') {
+    document.addEventListener('DOMContentLoaded', scheduleMeasure);
+  } else {
+    scheduleMeasure();
+  }
+
+  return {
+    finalize,
+    reset: (restoredAt) => {
+      const now = restoredAt ?? performance.now();
+      engagedTime = 0;
+      engagedSince = isVisible() ? now : null;
+      lastActivity = now;
+      scrollDepth = 0;
+      reported = { engaged_time: -1, scroll_depth: -1 };
+      // Measure once the new route has rendered
+      setTimeout(scheduleMeasure, 100);
+    },
+  };
+}
+
+function isVisible(): boolean {
+  return document.visibilityState === 'visible';
+}
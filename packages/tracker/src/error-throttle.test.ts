@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { throttleErrors } from './error-throttle';
+import type { ErrorEvent } from './types';
+
+function error(message: string, stack?: string): ErrorEvent {
+  return {
+    type: 'error',
+    message,
+    stack: stack ?? `Error: ${message}\n    at run (https://example.com/app.js:1:1)`,
+  } as ErrorEvent;
+}
+
+describe('throttleErrors', () => {
+  let sent: ReturnType<typeof vi.fn>;
+  let stats: ReturnType<typeof vi.fn>;
+  let sessionErrors: number;
+
+  const throttle = (rules: Parameters<typeof throttleErrors>[0] = {}) =>
+    throttleErrors(rules, () => ++sessionErrors, sent, stats);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('document', new EventTarget());
+    vi.stubGlobal('window', new EventTarget());
+    sent = vi.fn();
+    stats = vi.fn();
+    sessionErrors = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the first occurrence and merges duplicates within the dedupe window', () => {
+    const errors = throttle();
+    errors.report(error('a'));
+    errors.report(error('a'));
+    errors.report(error('a'));
+
+    expect(sent).toHaveBeenCalledTimes(1);
+    expect(sent.mock.calls[0][0].occurrences).toBeUndefined();
+
+    vi.advanceTimersByTime(5000);
+    expect(sent).toHaveBeenCalledTimes(2);
+    expect(sent.mock.calls[1][0]).toMatchObject({ message: 'a', occurrences: 2 });
+  });
+
+  it('sends an error again once its dedupe window has passed', () => {
+    const errors = throttle({ errorDedupeWindow: 1000 });
+    errors.report(error('a'));
+    vi.advanceTimersByTime(999);
+    errors.report(error('a'));
+    expect(sent).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    expect(sent).toHaveBeenCalledTimes(2);
+    errors.report(error('a'));
+    expect(sent).toHaveBeenCalledTimes(3);
+    expect(sent.mock.calls[2][0].occurrences).toBeUndefined();
+  });
+
+  it('tells errors apart by message and stack', () => {
+    const errors = throttle();
+    errors.report(error('a'));
+    errors.report(error('b'));
+    errors.report(error('a', 'Error: a\n    at other (https://example.com/app.js:9:9)'));
+    expect(sent).toHaveBeenCalledTimes(3);
+  });
+
+  it('caps errors per page view until the next page view', () => {
+    const errors = throttle({ maxErrorsPerPageView: 2 });
+    errors.report(error('a'));
+    errors.report(error('b'));
+    errors.report(error('c'));
+    expect(sent.mock.calls.map(([e]) => e.message)).toEqual(['a', 'b']);
+
+    errors.finalize();
+    errors.reset();
+    errors.report(error('d'));
+    expect(sent).toHaveBeenCalledTimes(3);
+  });
+
+  it('caps errors per session across page views', () => {
+    const errors = throttle({ maxErrorsPerSession: 2 });
+    errors.report(error('a'));
+    errors.reset();
+    errors.report(error('b'));
+    errors.reset();
+    errors.report(error('c'));
+    expect(sent.mock.calls.map(([e]) => e.message)).toEqual(['a', 'b']);
+  });
+
+  it('counts every merged occurrence of a capped error as rate limited', () => {
+    const errors = throttle({ maxErrorsPerPageView: 1 });
+    errors.report(error('a'));
+    errors.report(error('a'));
+    errors.report(error('a'));
+    vi.advanceTimersByTime(5000);
+    errors.finalize();
+
+    expect(sent).toHaveBeenCalledTimes(1);
+    expect(stats).toHaveBeenCalledWith(
+      expect.objectContaining({ deduplicated: 2, rate_limited: 2, filtered: 0 }),
+    );
+  });
+
+  it('drops errors matching ignoreErrors or thrown by scripts in denyUrls', () => {
+    const errors = throttle({
+      ignoreErrors: ['ResizeObserver loop'],
+      denyUrls: [/extension:\/\//],
+    });
+    errors.report(error('ResizeObserver loop completed with undelivered notifications'));
+    errors.report(error('x', 'Error: x\n    at chrome-extension://abc/content.js:1:1'));
+    errors.report(error('y'));
+    errors.finalize();
+
+    expect(sent.mock.calls.map(([e]) => e.message)).toEqual(['y']);
+    expect(stats).toHaveBeenCalledWith(
+      expect.objectContaining({ deduplicated: 0, rate_limited: 0, filtered: 2 }),
+    );
+  });
+
+  it('reports drops once per page view, under a new report id after a route change', () => {
+    const errors = throttle();
+    errors.finalize();
+    expect(stats).not.toHaveBeenCalled();
+
+    errors.report(error('a'));
+    errors.report(error('a'));
+    errors.finalize();
+    errors.finalize();
+    expect(stats).toHaveBeenCalledTimes(1);
+    // The pending duplicate is sent rather than waiting for the window
+    expect(sent).toHaveBeenCalledTimes(2);
+
+    errors.reset();
+    errors.report(error('b'));
+    errors.report(error('b'));
+    errors.finalize();
+    expect(stats).toHaveBeenCalledTimes(2);
+    const [[first], [second]] = stats.mock.calls;
+    expect(second.report_id).not.toBe(first.report_id);
+    expect(second).toMatchObject({ type: 'errorstats', deduplicated: 1 });
+  });
+
+  it('reports when the page is hidden', () => {
+    const errors = throttle();
+    errors.report(error('a'));
+    errors.report(error('a'));
+    window.dispatchEvent(new Event('pagehide'));
+    expect(stats).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Error throttling.
+ *
+ * Keeps a burst of errors - typically one thrown on every animation frame -
+ * from flooding the transport. Errors matching `ignoreErrors` or thrown by
+ * scripts in `denyUrls` are dropped; identical errors within the dedupe
+ * window are merged into one event carrying their count; and error events
+ * are capped per page view and per session. What was merged or dropped is
+ * reported once per page view.
+ */
+
+import type { ErrorEvent, ErrorStatsEvent, PageViewCollector, TrackerConfig } from './types';
+import { generateId, matchesAny } from './utils';
+
+type ThrottleRules = Pick<
+  TrackerConfig,
+  'ignoreErrors' | 'denyUrls' | 'errorDedupeWindow' | 'maxErrorsPerPageView' | 'maxErrorsPerSession'
+>;
+
+type ErrorStatsData = Pick<
+  ErrorStatsEvent,
+  'type' | 'report_id' | 'deduplicated' | 'rate_limited' | 'filtered'
+>;
+
+export interface ErrorThrottle extends PageViewCollector {
+  /** Send an error, or merge or drop it */
+  report(event: ErrorEvent): void;
+}
+
+interface PendingError {
+  /** The most recent duplicate */
+  event: ErrorEvent;
+  /** Duplicates since the first occurrence was sent */
+  count: number;
+}
+
+/**
+ * Throttle errors before they are sent. `countSessionError` counts an
+ * error against the session and returns the session's total. Duplicates
+ * still pending are sent and the stats reported when the page is hidden
+ * and when the tracker finalizes the page view on a route change.
+ */
+export function throttleErrors(
+  rules: ThrottleRules,
+  countSessionError: () => number,
+  onError: (event: ErrorEvent) => void,
+  onStats: (data: ErrorStatsData) => void,
+): ErrorThrottle {
+  const pending = new Map<string, PendingError>();
+  let reportId = generateId();
+  let pageViewErrors = 0;
+  let stats = { deduplicated: 0, rate_limited: 0, filtered: 0 };
+  let changed = false;
+
+  const count = (reason: keyof typeof stats, n: number) => {
+    stats[reason] += n;
+    changed = true;
+  };
+
+  const emit = (event: ErrorEvent) => {
+    if (
+      pageViewErrors >= (rules.maxErrorsPerPageView ?? 30) ||
+      countSessionError() > (rules.maxErrorsPerSession ?? 100)
+    ) {
+      count('rate_limited', event.occurrences ?? 1);
+      return;
+    }
+    pageViewErrors++;
+    onError(event);
+  };
+
+  // Send the duplicates of an error seen since its first occurrence
+  const release = (key: string) => {
+    const entry = pending.get(key);
+    if (!entry) return;
+    pending.delete(key);
+    if (entry.count > 0) {
+      emit({ ...entry.event, occurrences: entry.count });
+    }
+  };
+
+  const finalize = () => {
+    for (const key of Array.from(pending.keys())) {
+      release(key);
+    }
+    if (!changed) return;
+    changed = false;
+    onStats({ type: 'errorstats', report_id: reportId, ...stats });
+  };
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      finalize();
+    }
+  });
+  window.addEventListener('pagehide', finalize);
+
+  return {
+    report: (event) => {
+      const url = event.source || firstUrl(event.stack);
+      if (
+        (rules.ignoreErrors && matchesAny(event.message, rules.ignoreErrors)) ||
+        (rules.denyUrls && url && matchesAny(url, rules.denyUrls))
+      ) {
+        count('filtered', 1);
+        return;
+      }
+
+      const key = errorKey(event);
+      const duplicate = pending.get(key);
+      if (duplicate) {
+        duplicate.event = event;
+        duplicate.count++;
+        count('deduplicated', 1);
+        return;
+      }
+
+      pending.set(key, { event, count: 0 });
+      setTimeout(() => release(key), rules.errorDedupeWindow ?? 5000);
+      emit(event);
+    },
+    finalize,
+    reset: () => {
+      reportId = generateId();
+      pageViewErrors = 0;
+      stats = { deduplicated: 0, rate_limited: 0, filtered: 0 };
+      changed = false;
+    },
+  };
+}
+
+/**
+ * Errors with the same message thrown from the same place are identical.
+ */
+function errorKey(event: ErrorEvent): string {
+  return event.message + '\n' + (event.stack || `${event.source}:${event.line}:${event.column}`);
+}
+
+/**
+ * URL of the innermost frame of a stack trace that has one.
+ */
+function firstUrl(stack: string | undefined): string | undefined {
+  return stack?.match(/[a-z][\w+.-]*:\/\/[^\s()]+/i)?.[0];
+}
@@ -0,0 +1,86 @@
+/**
+ * Error tracking, loaded with automatic error tracking or the first error
+ * or breadcrumb reported: error events with the breadcrumbs leading up to
+ * them, throttling, and with automatic error tracking, uncaught errors and
+ * unhandled rejections, plus clicks and console messages recorded as
+ * breadcrumbs.
+ */
+
+import type { Breadcrumb, CaptureContext, ErrorEvent, FeatureHost } from './types';
+import { throttleErrors } from './error-throttle';
+import { Breadcrumbs, captureClicks, captureConsole } from './breadcrumbs';
+import { truncate } from './utils';
+
+export type CapturedError = Pick<ErrorEvent, 'message' | 'stack' | 'source' | 'line' | 'column'> &
+  CaptureContext;
+
+export interface ErrorTracking {
+  /** Send an error through the throttle, with the breadcrumbs leading up to it */
+  report(error: CapturedError): void;
+  /** Report a thrown value. Values that are not `Error`s are reported by their string form. */
+  captureException(error: unknown, context?: CaptureContext): void;
+  addBreadcrumb(breadcrumb: Omit<Breadcrumb, 'timestamp'>): void;
+}
+
+/**
+ * Entry point of the error tracking feature (see load.ts).
+ */
+export function setup(host: FeatureHost): ErrorTracking {
+  const { config } = host;
+  const breadcrumbs = new Breadcrumbs(config.breadcrumbs ? config.maxBreadcrumbs ?? 20 : 0);
+  const addBreadcrumb: Breadcrumbs['add'] = (breadcrumb) => breadcrumbs.add(breadcrumb);
+
+  const throttle = throttleErrors(config, host.countError, host.send, host.report);
+  host.collect(throttle);
+
+  const report = (error: CapturedError) => {
+    const crumbs = breadcrumbs.getAll();
+    throttle.report({
+      ...host.getBaseFields(),
+      ...error,
+      type: 'error',
+      message: truncate(error.message || 'Unknown error', 1000),
+      stack: error.stack ? truncate(error.stack, 2000) : undefined,
+      breadcrumbs: crumbs.length > 0 ? crumbs : undefined,
+      release: config.release,
+    });
+  };
+
+  const captureException = (error: unknown, context: CaptureContext = {}) => {
+    report({
+      ...context,
+      message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+  };
+
+  if (config.autoErrors) {
+    captureUncaught(report, captureException);
+
+    if (config.breadcrumbs) {
+      captureClicks(addBreadcrumb);
+      captureConsole(addBreadcrumb);
+    }
+  }
+
+  return { report, captureException, addBreadcrumb };
+}
+
+function captureUncaught(
+  report: ErrorTracking['report'],
+  captureException: ErrorTracking['captureException'],
+): void {
+  window.addEventListener('error', (errorEvent) => {
+    report({
+      message: errorEvent.message,
+      stack: errorEvent.error?.stack,
+      source: errorEvent.filename,
+      line: errorEvent.lineno,
+      column: errorEvent.colno,
+    });
+  });
+
+  window.addEventListener('unhandledrejection', (rejectionEvent) => {
+    captureException(rejectionEvent.reason || 'Unhandled promise rejection');
+  });
+}
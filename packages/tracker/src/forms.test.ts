@@ -0,0 +1,219 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { trackForms } from './forms';
+
+class FakeForm {
+  constructor(private attributes: Record<string, string>) {}
+
+  getAttribute(name: string): string | null {
+    return this.attributes[name] ?? null;
+  }
+}
+
+class FakeField {
+  tagName = 'INPUT';
+
+  constructor(
+    public form: FakeForm,
+    private attributes: Record<string, string>,
+    public type = 'text',
+  ) {}
+
+  getAttribute(name: string): string | null {
+    return this.attributes[name] ?? null;
+  }
+
+  setAttribute(name: string, value: string): void {
+    this.attributes[name] = value;
+  }
+}
+
+/** Event target whose listeners the tests call with made-up events */
+class FakeTarget {
+  listeners: Record<string, Array<(event: unknown) => void>> = {};
+
+  addEventListener(type: string, listener: (event: unknown) => void): void {
+    (this.listeners[type] ??= []).push(listener);
+  }
+
+  fire(type: string, target?: unknown): void {
+    for (const listener of this.listeners[type] ?? []) listener({ target });
+  }
+}
+
+/** Reports aria-invalid changes made with `setInvalid` */
+class FakeMutationObserver {
+  static callbacks: Array<(mutations: unknown[]) => void> = [];
+
+  constructor(callback: (mutations: unknown[]) => void) {
+    FakeMutationObserver.callbacks.push(callback);
+  }
+
+  observe(): void {}
+
+  static setInvalid(field: FakeField, value: string): void {
+    const oldValue = field.getAttribute('aria-invalid');
+    field.setAttribute('aria-invalid', value);
+    for (const callback of FakeMutationObserver.callbacks) {
+      callback([{ target: field, attributeName: 'aria-invalid', oldValue }]);
+    }
+  }
+}
+
+describe('trackForms', () => {
+  let document: FakeTarget & { documentElement: object; visibilityState: string };
+  let window: FakeTarget;
+  let reports: ReturnType<typeof vi.fn>;
+  let collector: ReturnType<typeof trackForms>;
+
+  const form = new FakeForm({ id: 'signup' });
+  let email: FakeField;
+  let name: FakeField;
+
+  const actions = () => reports.mock.calls.map(([data]) => data.action);
+  const last = () => reports.mock.calls[reports.mock.calls.length - 1][0];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    document = Object.assign(new FakeTarget(), { documentElement: {}, visibilityState: 'visible' });
+    window = new FakeTarget();
+    FakeMutationObserver.callbacks = [];
+    vi.stubGlobal('document', document);
+    vi.stubGlobal('window', window);
+    vi.stubGlobal('HTMLFormElement', FakeForm);
+    vi.stubGlobal('MutationObserver', FakeMutationObserver);
+    vi.stubGlobal('performance', { now: () => Date.now() });
+
+    email = new FakeField(form, { name: 'email' }, 'email');
+    name = new FakeField(form, { id: 'full-name' });
+    reports = vi.fn();
+    collector = trackForms(reports);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('reports a start on the first focus in a form', () => {
+    document.fire('focusin', email);
+    document.fire('focusin', name);
+
+    expect(reports).toHaveBeenCalledTimes(1);
+    expect(last()).toMatchObject({
+      type: 'form',
+      form_id: 'signup',
+      action: 'start',
+      fields: undefined,
+    });
+  });
+
+  it('reports a submit with the focus order and time of each field', () => {
+    document.fire('focusin', email);
+    vi.advanceTimersByTime(2000);
+    document.fire('focusout', email);
+    document.fire('focusin', name);
+    vi.advanceTimersByTime(1000);
+    document.fire('focusout', name);
+    document.fire('focusin', email);
+    vi.advanceTimersByTime(500);
+    document.fire('submit', form);
+
+    expect(actions()).toEqual(['start', 'submit']);
+    expect(last()).toMatchObject({
+      action: 'submit',
+      report_id: reports.mock.calls[0][0].report_id,
+      fields: [
+        { name: 'email', order: 1, time: 2500, errors: 0 },
+        { name: 'full-name', order: 2, time: 1000, errors: 0 },
+      ],
+      last_field: 'email',
+      duration: 3500,
+    });
+  });
+
+  it('ignores forms and fields it cannot name, and buttons', () => {
+    const anonymous = new FakeForm({});
+    document.fire('focusin', new FakeField(anonymous, { name: 'q' }));
+    document.fire('focusin', new FakeField(form, {}));
+    document.fire('focusin', new FakeField(form, { name: 'go' }, 'submit'));
+    expect(reports).not.toHaveBeenCalled();
+  });
+
+  describe('validation errors', () => {
+    it('counts each invalid event', () => {
+      document.fire('invalid', email);
+      document.fire('invalid', email);
+      document.fire('submit', form);
+
+      expect(actions()).toEqual(['start', 'submit']);
+      expect(last().fields).toEqual([{ name: 'email', order: 1, time: 0, errors: 2 }]);
+    });
+
+    it('counts a field turning aria-invalid="true"', () => {
+      document.fire('focusin', name);
+      FakeMutationObserver.setInvalid(name, 'true');
+      // Still invalid: not another error
+      FakeMutationObserver.setInvalid(name, 'true');
+      FakeMutationObserver.setInvalid(name, 'false');
+      FakeMutationObserver.setInvalid(name, 'true');
+      document.fire('submit', form);
+
+      expect(last().fields).toEqual([{ name: 'full-name', order: 1, time: 0, errors: 2 }]);
+    });
+
+    it('ignores aria-invalid on elements outside forms', () => {
+      const outside = new FakeField(null as unknown as FakeForm, { name: 'search' });
+      FakeMutationObserver.setInvalid(outside, 'true');
+      expect(reports).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('abandonment', () => {
+    it('reports a started form as abandoned when the page is hidden', () => {
+      document.fire('focusin', email);
+      vi.advanceTimersByTime(1000);
+      document.visibilityState = 'hidden';
+      document.fire('visibilitychange');
+
+      expect(actions()).toEqual(['start', 'abandon']);
+      expect(last()).toMatchObject({
+        fields: [{ name: 'email', order: 1, time: 1000, errors: 0 }],
+        last_field: 'email',
+      });
+
+      // Nothing new happened since
+      window.fire('pagehide');
+      expect(reports).toHaveBeenCalledTimes(2);
+    });
+
+    it('replaces an abandonment with a later submit', () => {
+      document.fire('focusin', email);
+      window.fire('pagehide');
+      document.fire('submit', form);
+      window.fire('pagehide');
+
+      expect(actions()).toEqual(['start', 'abandon', 'submit']);
+      const reportIds = new Set(reports.mock.calls.map(([data]) => data.report_id));
+      expect(reportIds.size).toBe(1);
+    });
+
+    it('does not report forms that were submitted or never started', () => {
+      document.fire('focusin', email);
+      document.fire('submit', form);
+      collector.finalize();
+      expect(actions()).toEqual(['start', 'submit']);
+    });
+  });
+
+  it('starts over on the next page view after a route change', () => {
+    document.fire('focusin', email);
+    collector.finalize();
+    collector.reset();
+    document.fire('focusin', name);
+
+    expect(actions()).toEqual(['start', 'abandon', 'start']);
+    const [first, , second] = reports.mock.calls.map(([data]) => data);
+    expect(second.report_id).not.toBe(first.report_id);
+    expect(second.form_id).toBe('signup');
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Form interaction tracking.
+ *
+ * Follows how visitors fill in forms: when they start, the order they
+ * focus fields in, how long each field is focused, which fields fail
+ * validation, and whether the form is submitted or abandoned - and if so,
+ * at which field. Field values are never read.
+ *
+ * A field fails validation when the browser's constraint validation
+ * rejects it or when a script sets its `aria-invalid` attribute to "true".
+ *
+ * A form is identified by its `data-oo-form` attribute, id or name;
+ * forms without any are ignored. Fields are identified by their name or
+ * id.
+ */
+
+import type { FeatureHost, FormEvent, FormField, PageViewCollector } from './types';
+import { generateId, truncate } from './utils';
+
+const FORM_ATTRIBUTE = 'data-oo-form';
+const INVALID_ATTRIBUTE = 'aria-invalid';
+
+/** Fields reported per form at most */
+const MAX_FIELDS = 50;
+
+/** Inputs that are buttons or invisible rather than fields to fill in */
+const IGNORED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image']);
+
+type FormData = Pick<
+  FormEvent,
+  'type' | 'report_id' | 'form_id' | 'action' | 'fields' | 'last_field' | 'duration'
+>;
+
+interface FormState {
+  reportId: string;
+  formId: string;
+  startedAt: number;
+  fields: Map<string, FormField>;
+  lastField?: string;
+  /** The focused field and when it was focused */
+  focused?: { field: FormField; since: number };
+  started: boolean;
+  submitted: boolean;
+  /** Whether anything happened since the form was last reported */
+  changed: boolean;
+}
+
+/**
+ * Entry point of the form tracking feature (see load.ts).
+ */
+export function setup(host: FeatureHost): void {
+  host.collect(
+    trackForms((data) => {
+      host.report(data);
+      // A submit may navigate away; a beacon outlives the page
+      if (data.action === 'submit') {
+        host.flush();
+      }
+    }),
+  );
+}
+
+/**
+ * Start tracking forms. A start is reported on the first focus in a form
+ * and a submit when it is submitted. Forms started but not submitted are
+ * reported as abandoned when the page is hidden and when the tracker
+ * finalizes the page view on a route change; a later submit replaces the
+ * abandonment.
+ */
+export function trackForms(onReport: (data: FormData) => void): PageViewCollector {
+  let forms = new Map<HTMLFormElement, FormState>();
+
+  const report = (state: FormState, action: FormData['action']) => {
+    state.changed = false;
+    onReport({
+      type: 'form',
+      report_id: state.reportId,
+      form_id: state.formId,
+      action,
+      // Copied: the queued event must not change as the visitor goes on
+      fields: action === 'start' ? undefined : Array.from(state.fields.values(), (f) => ({ ...f })),
+      last_field: state.lastField,
+      duration: Math.round(performance.now() - state.startedAt),
+    });
+  };
+
+  const start = (state: FormState) => {
+    if (state.started) return;
+    state.started = true;
+    report(state, 'start');
+  };
+
+  // Add the focused field's time so far
+  const settle = (state: FormState, now: number) => {
+    if (!state.focused) return;
+    state.focused.field.time += Math.round(now - state.focused.since);
+    state.focused.since = now;
+  };
+
+  const getState = (form: HTMLFormElement): FormState | undefined => {
+    let state = forms.get(form);
+    if (!state) {
+      const formId = getFormId(form);
+      if (!formId) return undefined;
+      state = {
+        reportId: generateId(),
+        formId,
+        startedAt: performance.now(),
+        fields: new Map(),
+        started: false,
+        submitted: false,
+        changed: false,
+      };
+      forms.set(form, state);
+    }
+    return state;
+  };
+
+  const getField = (state: FormState, name: string): FormField | undefined => {
+    let field = state.fields.get(name);
+    if (!field && state.fields.size < MAX_FIELDS) {
+      field = { name, order: state.fields.size + 1, time: 0, errors: 0 };
+      state.fields.set(name, field);
+    }
+    return field;
+  };
+
+  document.addEventListener(
+    'focusin',
+    (event) => {
+      const target = event.target as Element;
+      const form = findForm(target);
+      const name = form && getFieldName(target);
+      if (!form || !name) return;
+
+      const state = getState(form);
+      if (!state || state.submitted) return;
+
+      start(state);
+      const now = performance.now();
+      settle(state, now);
+      const field = getField(state, name);
+      state.focused = field && { field, since: now };
+      state.lastField = name;
+      state.changed = true;
+    },
+    { capture: true, passive: true },
+  );
+
+  document.addEventListener(
+    'focusout',
+    (event) => {
+      const form = findForm(event.target as Element);
+      const state = form && forms.get(form);
+      if (!state) return;
+      settle(state, performance.now());
+      state.focused = undefined;
+    },
+    { capture: true, passive: true },
+  );
+
+  const countError = (target: Element) => {
+    const form = findForm(target);
+    const name = form && getFieldName(target);
+    const state = form && name ? getState(form) : undefined;
+    if (!state || state.submitted) return;
+    start(state);
+    const field = getField(state, name!);
+    if (field) field.errors++;
+    state.changed = true;
+  };
+
+  // Fired on each field failing constraint validation when a submit is
+  // attempted; the submit itself does not happen
+  document.addEventListener('invalid', (event) => countError(event.target as Element), {
+    capture: true,
+    passive: true,
+  });
+
+  // Forms validated by scripts rather than the browser mark invalid fields
+  // with aria-invalid instead
+  new MutationObserver((mutations) => {
+    for (const mutation of mutations) {
+      const target = mutation.target as Element;
+      if (target.getAttribute(INVALID_ATTRIBUTE) === 'true' && mutation.oldValue !== 'true') {
+        countError(target);
+      }
+    }
+  }).observe(document.documentElement, {
+    subtree: true,
+    attributeFilter: [INVALID_ATTRIBUTE],
+    attributeOldValue: true,
+  });
+
+  document.addEventListener(
+    'submit',
+    (event) => {
+      const form = findForm(event.target as Element);
+      const state = form && getState(form);
+      if (!state || state.submitted) return;
+      settle(state, performance.now());
+      state.submitted = true;
+      report(state, 'submit');
+    },
+    { capture: true, passive: true },
+  );
+
+  const finalize = () => {
+    const now = performance.now();
+    for (const state of forms.values()) {
+      if (!state.started || state.submitted || !state.changed) continue;
+      settle(state, now);
+      report(state, 'abandon');
+    }
+  };
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      finalize();
+    }
+  });
+  window.addEventListener('pagehide', finalize);
+
+  return {
+    finalize,
+    reset: () => {
+      forms = new Map();
+    },
+  };
+}
+
+/**
+ * The form itself, or the form a field belongs to.
+ */
+function findForm(el: Element | null): HTMLFormElement | null {
+  if (el instanceof HTMLFormElement) return el;
+  return (el as HTMLInputElement | null)?.form ?? null;
+}
+
+function getFormId(form: HTMLFormElement): string | undefined {
+  // Attributes rather than properties: a field named "id" or "name"
+  // shadows the form's property of that name
+  const id =
+    form.getAttribute(FORM_ATTRIBUTE) || form.getAttribute('id') || form.getAttribute('name');
+  return id ? truncate(id, 100) : undefined;
+}
+
+function getFieldName(el: Element): string | undefined {
+  const tag = el.tagName;
+  if (tag !== 'INPUT' && tag !== 'SELECT' && tag !== 'TEXTAREA') return undefined;
+  if (tag === 'INPUT' && IGNORED_INPUT_TYPES.has((el as HTMLInputElement).type)) {
+    return undefined;
+  }
+  const name = el.getAttribute('name') || el.getAttribute('id');
+  return name ? truncate(name, 100) : undefined;
+}
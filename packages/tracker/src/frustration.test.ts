@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { collectFrustration } from './frustration';
+
+/** Just enough of an element for selectors and `closest` by tag name */
+class FakeElement {
+  id = '';
+  classList: string[] = [];
+  parentElement: FakeElement | null = null;
+
+  constructor(public tagName: string) {}
+
+  closest(selectors: string): FakeElement | null {
+    const tags = selectors.split(',').map((selector) => selector.trim());
+    return tags.includes(this.tagName.toLowerCase()) ? this : null;
+  }
+}
+
+/** Event target whose listeners the tests call with made-up events */
+class FakeTarget {
+  listeners: Record<string, Array<(event: unknown) => void>> = {};
+
+  addEventListener(type: string, listener: (event: unknown) => void): void {
+    (this.listeners[type] ??= []).push(listener);
+  }
+
+  fire(type: string, event: unknown = {}): void {
+    for (const listener of this.listeners[type] ?? []) listener(event);
+  }
+}
+
+class FakeMutationObserver {
+  static callbacks: Array<() => void> = [];
+
+  constructor(callback: () => void) {
+    FakeMutationObserver.callbacks.push(callback);
+  }
+
+  observe(): void {}
+
+  static mutate(): void {
+    for (const callback of FakeMutationObserver.callbacks) callback();
+  }
+}
+
+describe('collectFrustration', () => {
+  let document: FakeTarget & { documentElement: object; visibilityState: string };
+  let window: FakeTarget;
+  let location: { href: string };
+  let signals: ReturnType<typeof vi.fn>;
+  let collector: ReturnType<typeof collectFrustration>;
+
+  const button = new FakeElement('BUTTON');
+  const div = new FakeElement('DIV');
+
+  const click = (target: FakeElement, x = 100, y = 100) =>
+    document.fire('click', { target, clientX: x, clientY: y });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    document = Object.assign(new FakeTarget(), { documentElement: {}, visibilityState: 'visible' });
+    window = new FakeTarget();
+    location = { href: 'https://example.com/' };
+    FakeMutationObserver.callbacks = [];
+    vi.stubGlobal('document', document);
+    vi.stubGlobal('window', window);
+    vi.stubGlobal('location', location);
+    vi.stubGlobal('Element', FakeElement);
+    vi.stubGlobal('MutationObserver', FakeMutationObserver);
+    vi.stubGlobal('performance', { now: () => Date.now() });
+
+    signals = vi.fn();
+    collector = collectFrustration(signals);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('rage clicks', () => {
+    it('reports three clicks on one spot within a second of each other', () => {
+      click(div);
+      vi.advanceTimersByTime(900);
+      click(div, 110, 95);
+      vi.advanceTimersByTime(900);
+      click(div, 90, 120);
+      vi.advanceTimersByTime(200);
+      click(div);
+      expect(signals).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1000);
+      expect(signals).toHaveBeenCalledWith({
+        type: 'frustration',
+        signal: 'rage',
+        selector: 'div',
+        click_count: 4,
+      });
+    });
+
+    it('needs at least three clicks', () => {
+      click(div);
+      click(div);
+      vi.advanceTimersByTime(1000);
+      expect(signals).not.toHaveBeenCalled();
+    });
+
+    it('starts a new burst after a pause of over a second', () => {
+      click(div);
+      click(div);
+      vi.advanceTimersByTime(1001);
+      click(div);
+      click(div);
+      vi.advanceTimersByTime(1000);
+      expect(signals).not.toHaveBeenCalled();
+    });
+
+    it('starts a new burst more than 30 pixels from its first click', () => {
+      click(div, 100, 100);
+      click(div, 120, 120);
+      click(div, 125, 125);
+      vi.advanceTimersByTime(1000);
+      expect(signals).not.toHaveBeenCalled();
+    });
+
+    it('reports a burst still going when the page view is finalized', () => {
+      click(div);
+      click(div);
+      click(div);
+      collector.finalize();
+      expect(signals).toHaveBeenCalledWith(expect.objectContaining({ signal: 'rage' }));
+    });
+  });
+
+  describe('dead clicks', () => {
+    it('reports a click on a button after which nothing changed', () => {
+      click(button);
+      vi.advanceTimersByTime(1000);
+      expect(signals).toHaveBeenCalledWith({
+        type: 'frustration',
+        signal: 'dead',
+        selector: 'button',
+      });
+    });
+
+    it('does not report a click followed by a DOM mutation', () => {
+      click(button);
+      vi.advanceTimersByTime(300);
+      FakeMutationObserver.mutate();
+      vi.advanceTimersByTime(700);
+      expect(signals).not.toHaveBeenCalled();
+    });
+
+    it('does not report a click followed by a navigation', () => {
+      click(button);
+      location.href = 'https://example.com/next';
+      vi.advanceTimersByTime(1000);
+      expect(signals).not.toHaveBeenCalled();
+    });
+
+    it('does not report a click after which the page was hidden', () => {
+      click(button);
+      vi.advanceTimersByTime(100);
+      document.visibilityState = 'hidden';
+      document.fire('visibilitychange');
+      vi.advanceTimersByTime(900);
+      expect(signals).not.toHaveBeenCalled();
+    });
+
+    it('ignores clicks on elements not expected to do anything', () => {
+      click(div);
+      vi.advanceTimersByTime(1000);
+      expect(signals).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('error clicks', () => {
+    it('reports an error within a second of a click, instead of a dead click', () => {
+      click(button);
+      vi.advanceTimersByTime(500);
+      window.fire('error');
+      window.fire('unhandledrejection');
+      vi.advanceTimersByTime(500);
+
+      expect(signals.mock.calls).toEqual([
+        [{ type: 'frustration', signal: 'error', selector: 'button' }],
+      ]);
+    });
+
+    it('does not blame a later error on the click', () => {
+      click(div);
+      vi.advanceTimersByTime(1001);
+      window.fire('error');
+      expect(signals).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Frustration signals.
+ *
+ * Watches clicks for signs the visitor is stuck:
+ *
+ * - rage: several clicks in quick succession on roughly the same spot
+ * - dead: a click on a button or link after which nothing changed - no
+ *   DOM mutation and no navigation
+ * - error: a click immediately followed by an uncaught error
+ *
+ * Only the clicked element's selector is reported, never its text.
+ */
+
+import type { FeatureHost, FrustrationEvent, PageViewCollector } from './types';
+import { getSelector } from './utils';
+
+/** Clicks this close together in time and space form a burst */
+const RAGE_WINDOW = 1000;
+const RAGE_RADIUS = 30;
+/** Clicks in a burst that make it a rage click */
+const RAGE_CLICKS = 3;
+
+/** A click with no mutation or navigation within this time is dead */
+const DEAD_CLICK_TIMEOUT = 1000;
+
+/** An error within this time of a click is blamed on it */
+const ERROR_CLICK_WINDOW = 1000;
+
+/** Signals reported per page view at most */
+const MAX_SIGNALS_PER_PAGE_VIEW = 20;
+
+/** Elements whose clicks are expected to do something visible */
+const ACTIONABLE = 'a[href], button, [role="button"], [role="link"], [role="tab"], summary';
+
+/** Elements that may legitimately change nothing visible when clicked */
+const IGNORED =
+  'input, select, textarea, label, [contenteditable], a[target]:not([target="_self"])';
+
+type FrustrationData = Pick<FrustrationEvent, 'type' | 'signal' | 'selector' | 'click_count'>;
+
+interface Click {
+  time: number;
+  x: number;
+  y: number;
+  selector: string;
+  /** Whether an error was already blamed on this click */
+  errored: boolean;
+}
+
+/**
+ * Entry point of the frustration signals feature (see load.ts).
+ */
+export function setup(host: FeatureHost): void {
+  host.collect(collectFrustration((data) => host.report(data)));
+}
+
+/**
+ * Start watching clicks. Signals are reported as they are detected; a
+ * burst of clicks is reported once it ends, or when the page is hidden or
+ * the tracker finalizes the page view on a route change.
+ */
+export function collectFrustration(onSignal: (data: FrustrationData) => void): PageViewCollector {
+  let signals = 0;
+  let burst: Click[] = [];
+  let burstTimer: ReturnType<typeof setTimeout> | undefined;
+  let lastClick: Click | null = null;
+  let lastMutation = 0;
+  let hiddenAt = -Infinity;
+
+  const report = (data: Omit<FrustrationData, 'type'>) => {
+    if (signals >= MAX_SIGNALS_PER_PAGE_VIEW) return;
+    signals++;
+    onSignal({ type: 'frustration', ...data });
+  };
+
+  const endBurst = () => {
+    clearTimeout(burstTimer);
+    if (burst.length >= RAGE_CLICKS) {
+      report({ signal: 'rage', selector: burst[0].selector, click_count: burst.length });
+    }
+    burst = [];
+  };
+
+  const onError = () => {
+    const click = lastClick;
+    if (!click || click.errored || performance.now() - click.time > ERROR_CLICK_WINDOW) return;
+    click.errored = true;
+    report({ signal: 'error', selector: click.selector });
+  };
+
+  // Whether anything changed after a click, or the page went away
+  const watchForChange = (click: Click) => {
+    const href = location.href;
+    setTimeout(() => {
+      if (
+        lastMutation < click.time &&
+        hiddenAt < click.time &&
+        location.href === href &&
+        !click.errored
+      ) {
+        report({ signal: 'dead', selector: click.selector });
+      }
+    }, DEAD_CLICK_TIMEOUT);
+  };
+
+  document.addEventListener(
+    'click',
+    (event) => {
+      const target = event.target as Element | null;
+      const selector = getSelector(target);
+      if (!selector) return;
+
+      const click: Click = {
+        time: performance.now(),
+        x: event.clientX,
+        y: event.clientY,
+        selector,
+        errored: false,
+      };
+      lastClick = click;
+
+      const first = burst[0];
+      if (
+        first &&
+        (click.time - burst[burst.length - 1].time > RAGE_WINDOW ||
+          Math.hypot(click.x - first.x, click.y - first.y) > RAGE_RADIUS)
+      ) {
+        endBurst();
+      }
+      burst.push(click);
+      clearTimeout(burstTimer);
+      burstTimer = setTimeout(endBurst, RAGE_WINDOW);
+
+      // The rest of a burst would only repeat the first click's verdict
+      const el = target?.closest?.(ACTIONABLE);
+      if (burst.length === 1 && el && !el.closest(IGNORED)) {
+        watchForChange(click);
+      }
+    },
+    { capture: true, passive: true },
+  );
+
+  new MutationObserver(() => {
+    lastMutation = performance.now();
+  }).observe(document.documentElement, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    characterData: true,
+  });
+
+  window.addEventListener('error', onError);
+  window.addEventListener('unhandledrejection', onError);
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      hiddenAt = performance.now();
+      endBurst();
+    }
+  });
+  window.addEventListener('pagehide', endBurst);
+
+  return {
+    finalize: endBurst,
+    reset: () => {
+      signals = 0;
+      lastClick = null;
+    },
+  };
+}
@@ -6,7 +6,7 @@
  * Usage (script tag):
  *
  *   <script
- *     src="https://unpkg.com/@open-observability/tracker"
+ *     src="https://unpkg.com/@open-observability/tracker/dist/tracker.js"
  *     data-endpoint="https://<project>.supabase.co/functions/v1/ingest"
  *     data-site-id="my-site"
  *     data-api-key="your-anon-key"
@@ -36,10 +36,31 @@ export type {
   TrackerEvent,
   PageViewEvent,
   WebVitalEvent,
+  VitalAttribution,
   ErrorEvent,
+  ErrorLevel,
+  CaptureContext,
+  Breadcrumb,
   CustomEvent,
+  LongFrameEvent,
+  LongFrameScript,
+  ResourceEvent,
+  ResourceHost,
+  ResourceTiming,
+  NetworkEvent,
+  ErrorStatsEvent,
+  LinkClickEvent,
+  PageLeaveEvent,
+  FrustrationEvent,
+  FormEvent,
+  FormField,
   BaseEvent,
+  Campaign,
+  ConsentCategory,
+  ConsentState,
   EventType,
+  IngestResult,
+  RejectionReason,
 } from './types';
 
 /**
@@ -52,6 +73,51 @@ export function createTracker(config: TrackerConfig): Tracker {
 
 // --- Auto-initialization from script tag data attributes ---
 
+/** Options that are on or off */
+type FlagOption = {
+  [K in keyof TrackerConfig]-?: NonNullable<TrackerConfig[K]> extends boolean ? K : never;
+}[keyof TrackerConfig];
+
+/** Options that take a list of strings */
+type ListOption = {
+  [K in keyof TrackerConfig]-?: string[] extends TrackerConfig[K] ? K : never;
+}[keyof TrackerConfig];
+
+/**
+ * Options set by the presence of a data attribute, and the value they are
+ * set to. Attributes left out keep the tracker's defaults.
+ */
+const FLAGS: [string, FlagOption, boolean][] = [
+  ['no-pageviews', 'autoPageViews', false],
+  ['no-engagement', 'autoEngagement', false],
+  ['no-vitals', 'autoWebVitals', false],
+  ['no-errors', 'autoErrors', false],
+  ['long-frames', 'autoLongFrames', true],
+  ['resources', 'autoResources', true],
+  ['network', 'autoNetwork', true],
+  ['outbound', 'autoOutbound', true],
+  ['downloads', 'autoDownloads', true],
+  ['frustration', 'autoFrustration', true],
+  ['forms', 'autoForms', true],
+  ['declarative', 'autoDeclarative', true],
+  ['impressions', 'autoImpressions', true],
+  ['no-breadcrumbs', 'breadcrumbs', false],
+  ['ignore-dnt', 'respectDNT', false],
+  ['require-consent', 'requireConsent', true],
+  ['debug', 'debug', true],
+  ['strip-referrer-path', 'stripReferrerPath', true],
+];
+
+/** Options taking a comma-separated list */
+const LISTS: [string, ListOption][] = [
+  ['download-extensions', 'downloadExtensions'],
+  ['ignore-errors', 'ignoreErrors'],
+  ['deny-urls', 'denyUrls'],
+  ['network-allow', 'networkAllowUrls'],
+  ['network-deny', 'networkDenyUrls'],
+  ['mask-paths', 'maskPathSegments'],
+];
+
 function autoInit(): void {
   if (typeof document === 'undefined') return;
 
@@ -62,28 +128,54 @@ function autoInit(): void {
 
   if (!script) return;
 
-  const endpoint = script.getAttribute('data-endpoint');
-  const siteId = script.getAttribute('data-site-id');
+  const attribute = (name: string) => script.getAttribute('data-' + name);
+  const endpoint = attribute('endpoint');
+  const siteId = attribute('site-id');
 
   if (!endpoint || !siteId) return;
 
-  const config: TrackerConfig = {
+  const options: Partial<TrackerConfig> = {};
+
+  for (const [name, option, value] of FLAGS) {
+    if (attribute(name) !== null) {
+      options[option] = value;
+    }
+  }
+
+  for (const [name, option] of LISTS) {
+    options[option] = parseList(attribute(name));
+  }
+
+  const tracker = new Tracker({
     endpoint,
     siteId,
-    apiKey: script.getAttribute('data-api-key') || undefined,
-    autoPageViews: script.getAttribute('data-no-pageviews') === null,
-    autoWebVitals: script.getAttribute('data-no-vitals') === null,
-    autoErrors: script.getAttribute('data-no-errors') === null,
-    respectDNT: script.getAttribute('data-ignore-dnt') === null,
-    debug: script.getAttribute('data-debug') !== null,
-  };
-
-  const tracker = new Tracker(config);
+    apiKey: attribute('api-key') || undefined,
+    release: attribute('release') || undefined,
+    stripQueryParams: parseStripQuery(attribute('strip-query')),
+    ...options,
+  });
   tracker.init();
 
   // Expose globally for manual event tracking
   (window as unknown as Record<string, unknown>).__oo = tracker;
 }
 
+/**
+ * data-strip-query with no value strips the whole query string;
+ * a comma-separated value strips only the listed parameters.
+ */
+function parseStripQuery(value: string | null): boolean | string[] | undefined {
+  if (value === null) return undefined;
+  return parseList(value) || true;
+}
+
+function parseList(value: string | null): string[] | undefined {
+  const items = value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
 // Auto-init when loaded via script tag
 autoInit();
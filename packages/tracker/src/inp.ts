@@ -0,0 +1,118 @@
+/**
+ * Interaction to Next Paint calculation.
+ *
+ * Follows the INP definition used by Chrome and the Chrome UX Report:
+ * event timing entries are grouped into interactions by `interactionId`,
+ * an interaction's latency is the longest duration among its entries,
+ * and INP is the 98th percentile interaction - approximated, as Chrome
+ * does, by skipping one of the worst interactions for every 50 on the page.
+ *
+ * This module is free of DOM access so it can be fed synthetic entries.
+ */
+
+/** The subset of PerformanceEventTiming used for INP */
+export interface InteractionEntry {
+  name: string;
+  startTime: number;
+  duration: number;
+  interactionId?: number;
+  processingStart?: number;
+  processingEnd?: number;
+  target?: Node | null;
+}
+
+export interface Interaction {
+  id: number;
+  /** Longest duration of the interaction's entries */
+  latency: number;
+  entries: InteractionEntry[];
+}
+
+/** Interactions worse than this many others can never be the p98 */
+const MAX_INTERACTIONS = 10;
+
+/** Chrome skips one of the worst interactions per this many interactions */
+const INTERACTIONS_PER_SKIP = 50;
+
+/** Id for a first-input entry from browsers without interactionId */
+const FIRST_INPUT_ID = -1;
+
+export class InteractionTracker {
+  /** Worst interactions, longest latency first */
+  private worst: Interaction[] = [];
+  private byId = new Map<number, Interaction>();
+  private seen = new Set<number>();
+
+  /**
+   * Record event timing entries. Entries without an interactionId (hovers,
+   * scrolls, non-discrete events) are not interactions and are ignored.
+   */
+  add(entries: InteractionEntry[]): void {
+    for (const entry of entries) {
+      if (entry.interactionId) {
+        this.addToInteraction(entry.interactionId, entry);
+      }
+    }
+  }
+
+  /**
+   * Record a first-input entry. Its interaction may have been too fast to
+   * pass the event observer's duration threshold, so it is counted here.
+   */
+  addFirstInput(entry: InteractionEntry): void {
+    this.addToInteraction(entry.interactionId || FIRST_INPUT_ID, entry);
+  }
+
+  /**
+   * The interaction that determines INP, or undefined if there were none.
+   *
+   * @param interactionCount - Total interactions on the page, when the
+   * browser reports it (performance.interactionCount). Interactions below
+   * the duration threshold are not observed, so this is more accurate
+   * than counting the ones seen.
+   */
+  estimate(interactionCount?: number): Interaction | undefined {
+    const count = Math.max(interactionCount ?? 0, this.seen.size);
+    const index = Math.min(this.worst.length - 1, Math.floor(count / INTERACTIONS_PER_SKIP));
+    return this.worst[index];
+  }
+
+  /**
+   * Forget all interactions, e.g. when the page is restored from bfcache.
+   */
+  reset(): void {
+    this.worst = [];
+    this.byId.clear();
+    this.seen.clear();
+  }
+
+  private addToInteraction(id: number, entry: InteractionEntry): void {
+    this.seen.add(id);
+
+    const existing = this.byId.get(id);
+    if (existing) {
+      existing.entries.push(entry);
+      existing.latency = Math.max(existing.latency, entry.duration);
+    } else {
+      const last = this.worst[this.worst.length - 1];
+      if (this.worst.length >= MAX_INTERACTIONS && last && entry.duration <= last.latency) {
+        return;
+      }
+      const interaction: Interaction = { id, latency: entry.duration, entries: [entry] };
+      this.worst.push(interaction);
+      this.byId.set(id, interaction);
+    }
+
+    this.worst.sort((a, b) => b.latency - a.latency);
+    for (const dropped of this.worst.splice(MAX_INTERACTIONS)) {
+      this.byId.delete(dropped.id);
+    }
+  }
+}
+
+/**
+ * The entry that best explains an interaction's latency: the longest one.
+ */
+export function longestEntry(interaction: Interaction): InteractionEntry {
+  return interaction.entries.reduce((a, b) => (b.duration > a.duration ? b : a));
+}
@@ -0,0 +1,138 @@
+/**
+ * Outbound link and download tracking.
+ *
+ * A single delegated listener sees clicks (and middle clicks) on every
+ * link on the page, including links added later. Links to other hosts are
+ * reported as `outbound`, links to files as `download`. Only the link's
+ * origin and path are reported: query strings often carry tokens.
+ */
+
+import type { FeatureHost, LinkClickEvent } from './types';
+import { truncate } from './utils';
+
+/** File extensions counted as downloads unless configured otherwise */
+export const DEFAULT_DOWNLOAD_EXTENSIONS = [
+  'pdf',
+  'csv',
+  'txt',
+  'rtf',
+  'doc',
+  'docx',
+  'xls',
+  'xlsx',
+  'ppt',
+  'pptx',
+  'odt',
+  'ods',
+  'epub',
+  'zip',
+  'rar',
+  '7z',
+  'gz',
+  'tar',
+  'dmg',
+  'exe',
+  'msi',
+  'pkg',
+  'deb',
+  'rpm',
+  'apk',
+  'iso',
+  'mp3',
+  'wav',
+  'mp4',
+  'mov',
+  'avi',
+];
+
+type LinkClickData = Pick<LinkClickEvent, 'type' | 'link_url' | 'link_host' | 'file_extension'>;
+
+interface LinkRules {
+  outbound: boolean;
+  downloads: boolean;
+  extensions: string[];
+}
+
+/**
+ * Entry point of the link tracking feature (see load.ts).
+ */
+export function setup(host: FeatureHost): void {
+  const { config } = host;
+  trackLinkClicks(
+    {
+      outbound: config.autoOutbound === true,
+      downloads: config.autoDownloads === true,
+      extensions: config.downloadExtensions ?? DEFAULT_DOWNLOAD_EXTENSIONS,
+    },
+    (data) => {
+      host.report(data);
+      // The click may navigate away; a beacon outlives the page
+      host.flush();
+    },
+  );
+}
+
+/**
+ * Start reporting link clicks. `onClick` is called while the page is
+ * still there, before the browser follows the link.
+ */
+export function trackLinkClicks(rules: LinkRules, onClick: (data: LinkClickData) => void): void {
+  const extensions = new Set(rules.extensions.map((ext) => ext.replace(/^\./, '').toLowerCase()));
+
+  const listener = (event: MouseEvent) => {
+    // Middle clicks open the link too; other auxiliary buttons do not
+    if (event.type === 'auxclick' && event.button !== 1) return;
+
+    const target = event.target as Element | null;
+    const link = target?.closest?.('a[href], area[href]') as HTMLAnchorElement | null;
+    if (!link) return;
+
+    const data = classify(link, rules, extensions);
+    if (data) onClick(data);
+  };
+
+  document.addEventListener('click', listener, { capture: true, passive: true });
+  document.addEventListener('auxclick', listener, { capture: true, passive: true });
+}
+
+function classify(
+  link: HTMLAnchorElement,
+  rules: LinkRules,
+  extensions: Set<string>,
+): LinkClickData | null {
+  let url: URL;
+  try {
+    url = new URL(link.href, location.href);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  const linkUrl = truncate(url.origin + url.pathname, 500);
+  const extension = url.pathname.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase();
+
+  if (
+    rules.downloads &&
+    (link.hasAttribute('download') || (extension && extensions.has(extension)))
+  ) {
+    return {
+      type: 'download',
+      link_url: linkUrl,
+      link_host: url.hostname,
+      file_extension: extension,
+    };
+  }
+
+  if (rules.outbound && !isSameSite(url.hostname, location.hostname)) {
+    return { type: 'outbound', link_url: linkUrl, link_host: url.hostname };
+  }
+
+  return null;
+}
+
+/**
+ * Hosts are the same site when they only differ by a "www." prefix.
+ */
+function isSameSite(host: string, pageHost: string): boolean {
+  return host.replace(/^www\./, '') === pageHost.replace(/^www\./, '');
+}
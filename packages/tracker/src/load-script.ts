@@ -0,0 +1,35 @@
+/**
+ * Optional features in the script tag build.
+ *
+ * Each feature is built as a script of its own, tracker.<name>.js, which
+ * registers the feature on `OpenObservability.modules` when it runs.
+ * Features are loaded from next to tracker.js, so self-hosting the tracker
+ * means copying all of dist/.
+ */
+
+import type { ModuleName, Modules } from './load';
+
+// Only set while tracker.js itself runs
+const scriptUrl =
+  typeof document !== 'undefined'
+    ? (document.currentScript as HTMLScriptElement | null)?.src
+    : undefined;
+
+export function load<K extends ModuleName>(name: K): Promise<Modules[K]> {
+  return new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src = new URL(`tracker.${name}.js`, scriptUrl || location.href).href;
+    // A script that failed to load or run registers nothing
+    script.onload = script.onerror = () => {
+      const modules = (window as { OpenObservability?: { modules?: Partial<Modules> } })
+        .OpenObservability?.modules;
+      const module = modules?.[name] as Modules[K] | undefined;
+      if (module) {
+        resolve(module);
+      } else {
+        reject(new Error(script.src));
+      }
+    };
+    document.head.appendChild(script);
+  });
+}
@@ -0,0 +1,45 @@
+/**
+ * Optional features, loaded on demand so the tracker itself stays small.
+ *
+ * Bundlers put each feature in a chunk of its own. The script tag build
+ * replaces this file with load-script.ts, which loads each feature as a
+ * separate script next to tracker.js.
+ */
+
+export interface Modules {
+  transport: typeof import('./transport');
+  routes: typeof import('./routes');
+  redact: typeof import('./redact');
+  'web-vitals': typeof import('./web-vitals');
+  engagement: typeof import('./engagement');
+  errors: typeof import('./errors');
+  'long-frames': typeof import('./long-frames');
+  resources: typeof import('./resources');
+  network: typeof import('./network');
+  links: typeof import('./links');
+  declarative: typeof import('./declarative');
+  frustration: typeof import('./frustration');
+  forms: typeof import('./forms');
+}
+
+export type ModuleName = keyof Modules;
+
+const loaders: { [K in ModuleName]: () => Promise<Modules[K]> } = {
+  transport: () => import('./transport'),
+  routes: () => import('./routes'),
+  redact: () => import('./redact'),
+  'web-vitals': () => import('./web-vitals'),
+  engagement: () => import('./engagement'),
+  errors: () => import('./errors'),
+  'long-frames': () => import('./long-frames'),
+  resources: () => import('./resources'),
+  network: () => import('./network'),
+  links: () => import('./links'),
+  declarative: () => import('./declarative'),
+  frustration: () => import('./frustration'),
+  forms: () => import('./forms'),
+};
+
+export function load<K extends ModuleName>(name: K): Promise<Modules[K]> {
+  return loaders[name]();
+}
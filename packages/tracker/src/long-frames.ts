@@ -0,0 +1,155 @@
+/**
+ * Main-thread jank monitoring.
+ *
+ * Observes Long Animation Frames (frames that took over 50ms to render),
+ * falling back to Long Tasks in browsers without them, and aggregates
+ * them per page view: how many there were, how much they blocked the main
+ * thread and which scripts ran in the worst ones.
+ */
+
+import type { FeatureHost, LongFrameEvent, LongFrameScript, PageViewCollector } from './types';
+import { generateId, truncate } from './utils';
+
+/** Scripts are kept for this many of the longest frames */
+const MAX_WORST_FRAMES = 5;
+const MAX_SCRIPTS_PER_FRAME = 3;
+
+/** Frames and tasks only block input beyond this duration */
+const BLOCKING_THRESHOLD = 50;
+
+interface LongAnimationFrameEntry extends PerformanceEntry {
+  blockingDuration?: number;
+  scripts?: Array<{
+    sourceURL?: string;
+    sourceFunctionName?: string;
+    invoker?: string;
+    invokerType?: string;
+    duration: number;
+  }>;
+}
+
+interface WorstFrame {
+  duration: number;
+  scripts: LongFrameScript[];
+}
+
+type LongFrameData = Pick<
+  LongFrameEvent,
+  | 'type'
+  | 'report_id'
+  | 'entry_type'
+  | 'frame_count'
+  | 'blocking_time'
+  | 'worst_duration'
+  | 'scripts'
+>;
+
+/**
+ * Entry point of the long frames feature (see load.ts).
+ */
+export function setup(host: FeatureHost): void {
+  host.collect(collectLongFrames((data) => host.report(data)));
+}
+
+/**
+ * Start observing long frames. Each page view's totals are reported when
+ * the page is hidden and when the tracker finalizes it on a route change.
+ */
+export function collectLongFrames(onReport: (data: LongFrameData) => void): PageViewCollector {
+  const entryType = supports('long-animation-frame')
+    ? 'long-animation-frame'
+    : supports('longtask')
+      ? 'longtask'
+      : null;
+
+  let reportId = generateId();
+  let frameCount = 0;
+  let blockingTime = 0;
+  let worstFrames: WorstFrame[] = [];
+
+  const record = (entry: LongAnimationFrameEntry) => {
+    frameCount++;
+    blockingTime += entry.blockingDuration ?? Math.max(0, entry.duration - BLOCKING_THRESHOLD);
+
+    const last = worstFrames[worstFrames.length - 1];
+    if (worstFrames.length >= MAX_WORST_FRAMES && last && entry.duration <= last.duration) {
+      return;
+    }
+
+    worstFrames.push({ duration: entry.duration, scripts: toScripts(entry) });
+    worstFrames.sort((a, b) => b.duration - a.duration);
+    worstFrames.length = Math.min(worstFrames.length, MAX_WORST_FRAMES);
+  };
+
+  if (entryType) {
+    try {
+      new PerformanceObserver((list) => {
+        for (const entry of list.getEntries()) {
+          record(entry as LongAnimationFrameEntry);
+        }
+      }).observe({ type: entryType, buffered: true });
+    } catch {
+      // Observer unsupported - nothing to report
+    }
+  }
+
+  const finalize = () => {
+    if (!entryType || frameCount === 0) return;
+
+    const scripts = worstFrames.flatMap((frame) => frame.scripts);
+    onReport({
+      type: 'longframe',
+      report_id: reportId,
+      entry_type: entryType,
+      frame_count: frameCount,
+      blocking_time: Math.round(blockingTime),
+      worst_duration: Math.round(worstFrames[0]?.duration ?? 0),
+      scripts: scripts.length > 0 ? scripts : undefined,
+    });
+  };
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      finalize();
+    }
+  });
+  window.addEventListener('pagehide', finalize);
+
+  return {
+    finalize,
+    reset: () => {
+      reportId = generateId();
+      frameCount = 0;
+      blockingTime = 0;
+      worstFrames = [];
+    },
+  };
+}
+
+/**
+ * The longest scripts that ran during a frame. Long tasks carry no
+ * script attribution.
+ */
+function toScripts(entry: LongAnimationFrameEntry): LongFrameScript[] {
+  return (entry.scripts ?? [])
+    .slice()
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, MAX_SCRIPTS_PER_FRAME)
+    .map((script) => ({
+      source_url: truncate(script.sourceURL || '', 500),
+      function_name: script.sourceFunctionName
+        ? truncate(script.sourceFunctionName, 200)
+        : undefined,
+      invoker: script.invoker ? truncate(script.invoker, 200) : undefined,
+      invoker_type: script.invokerType,
+      duration: Math.round(script.duration),
+      frame_duration: Math.round(entry.duration),
+    }));
+}
+
+function supports(type: string): boolean {
+  return (
+    typeof PerformanceObserver !== 'undefined' &&
+    (PerformanceObserver.supportedEntryTypes ?? []).includes(type)
+  );
+}
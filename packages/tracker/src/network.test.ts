@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { instrumentNetwork } from './network';
+
+/** Completes with whatever `finish` is given instead of sending anything */
+class FakeXMLHttpRequest extends EventTarget {
+  status = 0;
+
+  open(): void {}
+
+  send(): void {}
+
+  finish(outcome: { status: number } | 'error' | 'abort' | 'timeout'): void {
+    if (typeof outcome === 'string') {
+      this.dispatchEvent(new Event(outcome));
+    } else {
+      this.status = outcome.status;
+    }
+    this.dispatchEvent(new Event('loadend'));
+  }
+}
+
+describe('instrumentNetwork', () => {
+  let fetch: ReturnType<typeof vi.fn>;
+  let requests: ReturnType<typeof vi.fn>;
+  let window: { fetch: typeof globalThis.fetch };
+
+  const instrument = (rules: Partial<Parameters<typeof instrumentNetwork>[0]> = {}) =>
+    instrumentNetwork({ endpoint: 'https://ingest.example.com/', ...rules }, requests);
+
+  const templateOf = async (url: string) => {
+    await window.fetch(url);
+    return requests.mock.calls[requests.mock.calls.length - 1][0].url_template;
+  };
+
+  const xhr = (method: string, url: string) => {
+    const request = new XMLHttpRequest() as unknown as FakeXMLHttpRequest;
+    XMLHttpRequest.prototype.open.call(request, method, url);
+    XMLHttpRequest.prototype.send.call(request);
+    return request;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetch = vi.fn(async () => {
+      vi.advanceTimersByTime(120);
+      return { status: 200 };
+    });
+    window = { fetch: fetch as unknown as typeof globalThis.fetch };
+    vi.stubGlobal('window', window);
+    vi.stubGlobal('location', { href: 'https://app.example.com/dashboard' });
+    vi.stubGlobal('performance', { now: () => Date.now() });
+    vi.stubGlobal('XMLHttpRequest', class extends FakeXMLHttpRequest {});
+    requests = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe('URL templates', () => {
+    beforeEach(() => instrument());
+
+    it('replaces numeric ids, UUIDs, hashes and opaque tokens with :id', async () => {
+      expect(await templateOf('/api/users/42/orders/7')).toBe(
+        'https://app.example.com/api/users/:id/orders/:id',
+      );
+      expect(await templateOf('/api/items/3F2504E0-4F89-11D3-9A0C-0305E82C3301')).toBe(
+        'https://app.example.com/api/items/:id',
+      );
+      expect(await templateOf('/api/commits/9fceb02d0ae598e95dc970b74767f19372d61af8')).toBe(
+        'https://app.example.com/api/commits/:id',
+      );
+      expect(await templateOf('/api/invites/aB3dE6gH9jK2mN5pQ8rS1tU4')).toBe(
+        'https://app.example.com/api/invites/:id',
+      );
+    });
+
+    it('keeps endpoint names, including ones with digits', async () => {
+      expect(await templateOf('/api/v2/users/me')).toBe('https://app.example.com/api/v2/users/me');
+    });
+
+    it('drops the query string and hash', async () => {
+      expect(await templateOf('https://api.example.com/search?q=secret&token=abc#top')).toBe(
+        'https://api.example.com/search',
+      );
+      expect(requests).toHaveBeenLastCalledWith(
+        expect.objectContaining({ host: 'api.example.com' }),
+      );
+    });
+  });
+
+  describe('fetch', () => {
+    it('reports the method, status and time until the response', async () => {
+      instrument();
+      const response = await window.fetch('/api/orders', { method: 'post' });
+
+      expect(response).toEqual({ status: 200 });
+      expect(requests).toHaveBeenCalledWith({
+        type: 'network',
+        method: 'POST',
+        url_template: 'https://app.example.com/api/orders',
+        host: 'app.example.com',
+        status: 200,
+        duration: 120,
+        failure_type: undefined,
+        initiator: 'fetch',
+      });
+    });
+
+    it('reports error statuses as http failures', async () => {
+      instrument();
+      fetch.mockResolvedValueOnce({ status: 503 });
+      await window.fetch('/api/orders');
+      expect(requests).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 503, failure_type: 'http' }),
+      );
+    });
+
+    it('reports network errors and aborts, and rethrows them', async () => {
+      instrument();
+      const abort = Object.assign(new Error('aborted'), { name: 'AbortError' });
+      fetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      fetch.mockRejectedValueOnce(abort);
+
+      await expect(window.fetch('/api/orders')).rejects.toThrow('Failed to fetch');
+      await expect(window.fetch('/api/orders')).rejects.toBe(abort);
+      expect(requests.mock.calls.map(([data]) => [data.status, data.failure_type])).toEqual([
+        [0, 'network'],
+        [0, 'abort'],
+      ]);
+    });
+
+    it("leaves out the tracker's own requests and denied URLs", async () => {
+      instrument({ networkDenyUrls: ['/health'] });
+      await window.fetch('https://ingest.example.com/events');
+      await window.fetch('/health');
+
+      expect(fetch).toHaveBeenCalledTimes(2);
+      expect(requests).not.toHaveBeenCalled();
+    });
+
+    it('reports only allowed URLs when an allow list is set', async () => {
+      instrument({ networkAllowUrls: [/\/api\//] });
+      await window.fetch('/static/app.json');
+      await window.fetch('/api/orders');
+      expect(requests).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('XMLHttpRequest', () => {
+    beforeEach(() => instrument());
+
+    it('reports the method, status and time until the body has loaded', () => {
+      const request = xhr('get', '/api/users/42');
+      vi.advanceTimersByTime(250);
+      request.finish({ status: 404 });
+
+      expect(requests).toHaveBeenCalledWith({
+        type: 'network',
+        method: 'GET',
+        url_template: 'https://app.example.com/api/users/:id',
+        host: 'app.example.com',
+        status: 404,
+        duration: 250,
+        failure_type: 'http',
+        initiator: 'xhr',
+      });
+    });
+
+    it('reports network errors, aborts and timeouts', () => {
+      xhr('GET', '/api/a').finish('error');
+      xhr('GET', '/api/b').finish('abort');
+      xhr('GET', '/api/c').finish('timeout');
+
+      expect(requests.mock.calls.map(([data]) => [data.status, data.failure_type])).toEqual([
+        [0, 'network'],
+        [0, 'abort'],
+        [0, 'timeout'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * fetch and XMLHttpRequest instrumentation.
+ *
+ * Wraps both APIs to time the page's own backend calls and record how
+ * they fail. URLs are reported as templates - query string and hash
+ * removed, id-like path segments replaced with ":id" - so calls to the
+ * same endpoint aggregate together and no ids or tokens leave the page.
+ */
+
+import type { FeatureHost, NetworkEvent, TrackerConfig } from './types';
+import { matchesAny, truncate } from './utils';
+
+type NetworkData = Pick<
+  NetworkEvent,
+  'type' | 'method' | 'url_template' | 'host' | 'status' | 'duration' | 'failure_type' | 'initiator'
+>;
+
+type NetworkRules = Pick<TrackerConfig, 'endpoint' | 'networkAllowUrls' | 'networkDenyUrls'>;
+
+/** Path segments that identify a record rather than an endpoint */
+const ID_SEGMENT_PATTERNS = [
+  /^\d+$/,
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  /^[0-9a-f]{16,}$/i,
+  // Long opaque tokens mixing letters and digits
+  /^(?=.*\d)(?=.*[a-z])[\w-]{20,}$/i,
+];
+
+interface XhrRequest {
+  method: string;
+  url: string;
+}
+
+/**
+ * Entry point of the network feature (see load.ts). Requests are reported
+ * and recorded as breadcrumbs.
+ */
+export function setup(host: FeatureHost): void {
+  instrumentNetwork(host.config, (data) => {
+    host.addBreadcrumb({
+      type: 'network',
+      level: data.failure_type && data.failure_type !== 'abort' ? 'error' : 'info',
+      message: `${data.method} ${data.url_template}`,
+      data: { status: data.status, duration: data.duration },
+    });
+
+    host.report(data);
+  });
+}
+
+/**
+ * Wrap `fetch` and `XMLHttpRequest` and call `onRequest` when a matching
+ * request completes or fails. Requests to the tracker's own endpoint are
+ * never reported. fetch calls are timed until the response headers
+ * arrive; XMLHttpRequest calls until the body has loaded.
+ */
+export function instrumentNetwork(
+  rules: NetworkRules,
+  onRequest: (data: NetworkData) => void,
+): void {
+  const shouldReport = (url: string) =>
+    !url.startsWith(rules.endpoint) &&
+    (!rules.networkAllowUrls || matchesAny(url, rules.networkAllowUrls)) &&
+    !(rules.networkDenyUrls && matchesAny(url, rules.networkDenyUrls));
+
+  const report = (
+    initiator: NetworkData['initiator'],
+    method: string,
+    url: string,
+    start: number,
+    status: number,
+    failure?: NetworkData['failure_type'],
+  ) => {
+    const target = toTemplate(url);
+    onRequest({
+      type: 'network',
+      method: method.toUpperCase(),
+      url_template: target.template,
+      host: target.host,
+      status,
+      duration: Math.round(performance.now() - start),
+      failure_type: failure ?? (status >= 400 ? 'http' : undefined),
+      initiator,
+    });
+  };
+
+  if (typeof window.fetch === 'function') {
+    const originalFetch = window.fetch;
+
+    window.fetch = function (input: RequestInfo | URL, init?: RequestInit) {
+      const isRequest = typeof Request !== 'undefined' && input instanceof Request;
+      const url = resolve(isRequest ? input.url : String(input));
+      if (!shouldReport(url)) {
+        return originalFetch.call(window, input, init);
+      }
+
+      const method = init?.method || (isRequest ? input.method : 'GET');
+      const start = performance.now();
+      return originalFetch.call(window, input, init).then(
+        (response) => {
+          report('fetch', method, url, start, response.status);
+          return response;
+        },
+        (err: unknown) => {
+          const aborted = err instanceof Error && err.name === 'AbortError';
+          report('fetch', method, url, start, 0, aborted ? 'abort' : 'network');
+          throw err;
+        },
+      );
+    };
+  }
+
+  if (typeof XMLHttpRequest !== 'undefined') {
+    const proto = XMLHttpRequest.prototype;
+    const originalOpen = proto.open;
+    const originalSend = proto.send;
+    const requests = new WeakMap<XMLHttpRequest, XhrRequest>();
+
+    proto.open = function (this: XMLHttpRequest, method: string, url: string | URL) {
+      requests.set(this, { method, url: resolve(String(url)) });
+      return originalOpen.apply(this, arguments as unknown as Parameters<typeof originalOpen>);
+    };
+
+    proto.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+      const request = requests.get(this);
+      if (request && shouldReport(request.url)) {
+        const start = performance.now();
+        let failure: NetworkData['failure_type'];
+
+        const fail = (type: NetworkData['failure_type']) => () => {
+          failure = type;
+        };
+        this.addEventListener('error', fail('network'));
+        this.addEventListener('abort', fail('abort'));
+        this.addEventListener('timeout', fail('timeout'));
+        this.addEventListener('loadend', () => {
+          report('xhr', request.method, request.url, start, this.status, failure);
+        });
+      }
+      return originalSend.call(this, body);
+    };
+  }
+}
+
+/**
+ * Reduce a URL to its endpoint: origin and path with id-like segments
+ * replaced by ":id", without query string or hash.
+ */
+function toTemplate(url: string): { template: string; host: string } {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { template: truncate(url.split(/[?#]/)[0], 500), host: '' };
+  }
+
+  const path = parsed.pathname
+    .split('/')
+    .map((segment) =>
+      ID_SEGMENT_PATTERNS.some((pattern) => pattern.test(segment)) ? ':id' : segment,
+    )
+    .join('/');
+
+  return { template: truncate(parsed.origin + path, 500), host: parsed.hostname };
+}
+
+function resolve(url: string): string {
+  try {
+    return new URL(url, location.href).href;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Persistent storage for unsent event batches.
+ *
+ * Batches are written before they are sent and removed once the backend
+ * has accepted them, so events survive network failures, crashes and
+ * page unloads. IndexedDB is preferred; localStorage is used where
+ * IndexedDB is unavailable, and an in-memory store as a last resort.
+ *
+ * The store is shared by every tab of the origin. Each batch is leased to
+ * the page load sending it, and other pages only take it over once the
+ * lease has run out, so a batch is not sent by two tabs at once.
+ */
+
+import type { TrackerEvent } from './types';
+
+const DB_NAME = 'open-observability';
+const STORE_NAME = 'batches';
+const LOCAL_STORAGE_KEY = 'open-observability:queue';
+
+export interface StoredBatch {
+  /** Unique batch identifier */
+  id: string;
+  /** Events in the batch */
+  events: TrackerEvent[];
+  /** Number of delivery attempts so far */
+  attempts: number;
+  /** Epoch ms before which the batch should not be retried */
+  nextAttempt: number;
+  /** Page load holding the lease on the batch */
+  owner?: string;
+  /** Epoch ms at which the lease runs out */
+  leaseUntil?: number;
+}
+
+export interface QueueStore {
+  /**
+   * Lease every batch whose lease has run out to `owner` until `lease` ms
+   * after its next attempt, as one atomic step, and return all batches.
+   */
+  claim(owner: string, lease: number): Promise<StoredBatch[]>;
+  put(batch: StoredBatch): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Take over the batch if its lease has run out. Batches stored before
+ * leases existed have none.
+ */
+function claimBatch(batch: StoredBatch, owner: string, lease: number, now: number): boolean {
+  if ((batch.leaseUntil ?? 0) > now) return false;
+  batch.owner = owner;
+  batch.leaseUntil = Math.max(now, batch.nextAttempt) + lease;
+  return true;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+class IndexedDBStore implements QueueStore {
+  private db: Promise<IDBDatabase>;
+
+  constructor() {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    this.db = promisify(request);
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const db = await this.db;
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  async claim(owner: string, lease: number): Promise<StoredBatch[]> {
+    // Read and write in one transaction, which IndexedDB runs in
+    // isolation from those of other tabs
+    const store = await this.store('readwrite');
+    const batches = await promisify(store.getAll() as IDBRequest<StoredBatch[]>);
+    const now = Date.now();
+    for (const batch of batches) {
+      if (claimBatch(batch, owner, lease, now)) {
+        store.put(batch);
+      }
+    }
+    return batches;
+  }
+
+  async put(batch: StoredBatch): Promise<void> {
+    await promisify((await this.store('readwrite')).put(batch));
+  }
+
+  async delete(id: string): Promise<void> {
+    await promisify((await this.store('readwrite')).delete(id));
+  }
+
+  async clear(): Promise<void> {
+    await promisify((await this.store('readwrite')).clear());
+  }
+}
+
+class LocalStorageStore implements QueueStore {
+  // Reads and writes are synchronous, so a claim is not interleaved with
+  // those of other scripts
+  async claim(owner: string, lease: number): Promise<StoredBatch[]> {
+    const batches = this.load();
+    const now = Date.now();
+    if (batches.filter((batch) => claimBatch(batch, owner, lease, now)).length > 0) {
+      this.save(batches);
+    }
+    return batches;
+  }
+
+  async put(batch: StoredBatch): Promise<void> {
+    const batches = this.load().filter((b) => b.id !== batch.id);
+    batches.push(batch);
+    this.save(batches);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.save(this.load().filter((b) => b.id !== id));
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(LOCAL_STORAGE_KEY);
+  }
+
+  private load(): StoredBatch[] {
+    try {
+      return JSON.parse(localStorage.getItem(LOCAL_STORAGE_KEY) || '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  private save(batches: StoredBatch[]): void {
+    if (batches.length === 0) {
+      localStorage.removeItem(LOCAL_STORAGE_KEY);
+    } else {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(batches));
+    }
+  }
+}
+
+class MemoryStore implements QueueStore {
+  private batches = new Map<string, StoredBatch>();
+
+  async claim(owner: string, lease: number): Promise<StoredBatch[]> {
+    const now = Date.now();
+    for (const batch of this.batches.values()) {
+      claimBatch(batch, owner, lease, now);
+    }
+    return Array.from(this.batches.values());
+  }
+
+  async put(batch: StoredBatch): Promise<void> {
+    this.batches.set(batch.id, batch);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.batches.delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.batches.clear();
+  }
+}
+
+/**
+ * Create the most durable store available in this environment.
+ */
+export function createQueueStore(): QueueStore {
+  try {
+    if (typeof indexedDB !== 'undefined') {
+      return new IndexedDBStore();
+    }
+  } catch {
+    // IndexedDB blocked (e.g. some private browsing modes)
+  }
+
+  try {
+    if (typeof localStorage !== 'undefined') {
+      localStorage.getItem(LOCAL_STORAGE_KEY);
+      return new LocalStorageStore();
+    }
+  } catch {
+    // localStorage blocked by privacy settings
+  }
+
+  return new MemoryStore();
+}
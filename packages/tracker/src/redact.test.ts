@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { redactEvent } from './redact';
+import type { BaseEvent, ErrorEvent, TrackerEvent } from './types';
+
+const rules = { stripQueryParams: ['token'], maskPathSegments: ['\\d+'] };
+
+const base: Omit<BaseEvent, 'type'> = {
+  timestamp: '2026-01-01T00:00:00.000Z',
+  site_id: 'site',
+  url: 'https://example.com/orders/42?token=secret&tab=items',
+  pathname: '/orders/42',
+  referrer: 'https://example.com/users/7?token=secret',
+  screen_width: 1280,
+  timezone: 'UTC',
+  language: 'en',
+  tracker_version: '0.1.0',
+  session_id: 'session',
+};
+
+const pageView: TrackerEvent = { ...base, type: 'pageview', title: 'Order', page_view_id: 'pv' };
+
+function redact<T extends TrackerEvent>(event: T): T {
+  return redactEvent(event, rules);
+}
+
+describe('redactEvent', () => {
+  it('returns the event unchanged without rules', () => {
+    expect(redactEvent(pageView, {})).toBe(pageView);
+  });
+
+  it('redacts the page URL, pathname and referrer of every event', () => {
+    expect(redact(pageView)).toMatchObject({
+      url: 'https://example.com/orders/*?tab=items',
+      pathname: '/orders/*',
+      referrer: 'https://example.com/users/*',
+    });
+    expect(pageView.url).toBe(base.url);
+  });
+
+  it('reduces the referrer to its origin with stripReferrerPath', () => {
+    expect(redactEvent(pageView, { stripReferrerPath: true }).referrer).toBe('https://example.com/');
+  });
+
+  it('redacts the resource URL of a Web Vital', () => {
+    const event = redact({
+      ...base,
+      type: 'webvital',
+      metric_name: 'LCP',
+      metric_id: 'm',
+      metric_value: 1200,
+      metric_rating: 'good',
+      attribution: { target: 'img.hero', url: 'https://cdn.example.com/u/12/hero.jpg?token=x' },
+    });
+    expect(event.attribution).toEqual({
+      target: 'img.hero',
+      url: 'https://cdn.example.com/u/*/hero.jpg',
+    });
+  });
+
+  it('redacts the script URLs of long frames', () => {
+    const event = redact({
+      ...base,
+      type: 'longframe',
+      report_id: 'r',
+      entry_type: 'long-animation-frame',
+      frame_count: 1,
+      blocking_time: 80,
+      worst_duration: 130,
+      scripts: [
+        {
+          source_url: 'https://example.com/app/123/main.js?token=x',
+          duration: 90,
+          frame_duration: 130,
+        },
+      ],
+    });
+    expect(event.scripts?.[0].source_url).toBe('https://example.com/app/*/main.js');
+  });
+
+  it('redacts resource URLs', () => {
+    const event = redact({
+      ...base,
+      type: 'resources',
+      report_id: 'r',
+      resource_count: 1,
+      transfer_size: 100,
+      first_party_bytes: 100,
+      third_party_bytes: 0,
+      render_blocking_count: 0,
+      failed_count: 0,
+      initiators: {},
+      hosts: [],
+      resources: [
+        {
+          url: 'https://example.com/avatars/99/photo.png',
+          host: 'example.com',
+          initiator_type: 'img',
+          duration: 20,
+          transfer_size: 100,
+        },
+      ],
+    });
+    expect(event.resources[0].url).toBe('https://example.com/avatars/*/photo.png');
+  });
+
+  it('redacts request templates', () => {
+    const event = redact({
+      ...base,
+      type: 'network',
+      method: 'GET',
+      url_template: 'https://api.example.com/accounts/1234/users/:id',
+      host: 'api.example.com',
+      status: 200,
+      duration: 50,
+      initiator: 'fetch',
+    });
+    expect(event.url_template).toBe('https://api.example.com/accounts/*/users/:id');
+  });
+
+  it('redacts link targets', () => {
+    const event = redact({
+      ...base,
+      type: 'download',
+      link_url: 'https://files.example.com/invoices/2024/555',
+      link_host: 'files.example.com',
+    });
+    expect(event.link_url).toBe('https://files.example.com/invoices/*/*');
+  });
+
+  it('redacts the source, stack trace and breadcrumbs of an error', () => {
+    const event = redact<ErrorEvent>({
+      ...base,
+      type: 'error',
+      message: 'Boom',
+      source: 'https://example.com/static/9/app.js?token=x',
+      stack: [
+        'Error: Boom',
+        '    at load (https://example.com/static/9/app.js?token=x:10:5)',
+        'render@https://example.com/users/7/page.js:3:1',
+      ].join('\n'),
+      breadcrumbs: [
+        {
+          type: 'navigation',
+          timestamp: base.timestamp,
+          message: '/orders/42',
+          data: { from: '/users/7' },
+        },
+        {
+          type: 'network',
+          timestamp: base.timestamp,
+          message: 'POST https://api.example.com/carts/31/items',
+          data: { status: 500 },
+        },
+        { type: 'console', timestamp: base.timestamp, message: 'order 42 failed' },
+      ],
+    });
+
+    expect(event.source).toBe('https://example.com/static/*/app.js');
+    expect(event.stack).toBe(
+      [
+        'Error: Boom',
+        '    at load (https://example.com/static/*/app.js:10:5)',
+        'render@https://example.com/users/*/page.js:3:1',
+      ].join('\n'),
+    );
+    expect(event.breadcrumbs?.map((crumb) => [crumb.message, crumb.data])).toEqual([
+      ['/orders/*', { from: '/users/*' }],
+      ['POST https://api.example.com/carts/*/items', { status: 500 }],
+      ['order 42 failed', undefined],
+    ]);
+  });
+});
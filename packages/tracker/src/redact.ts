@@ -0,0 +1,193 @@
+/**
+ * URL redaction.
+ *
+ * Applies the declarative privacy rules from the tracker config to the
+ * URL fields of an event before it is queued, so query strings carrying
+ * tokens or emails and path segments carrying ids never leave the page.
+ */
+
+import type { Breadcrumb, TrackerConfig, TrackerEvent } from './types';
+
+type RedactionRules = Pick<
+  TrackerConfig,
+  'stripQueryParams' | 'maskPathSegments' | 'stripReferrerPath'
+>;
+
+/** URLs in free text such as stack traces, up to whitespace or brackets */
+const URL_IN_TEXT = /\bhttps?:\/\/[^\s()'"]+/g;
+
+/**
+ * Apply the redaction rules to every URL an event carries: its url,
+ * pathname and referrer, and the URLs of its type - attribution and
+ * script URLs, resource URLs, request templates, link targets, and an
+ * error's source file, stack trace and breadcrumbs. Returns a new event;
+ * the input is left untouched.
+ */
+export function redactEvent<T extends TrackerEvent>(event: T, rules: RedactionRules): T {
+  if (!rules.stripQueryParams && !rules.maskPathSegments && !rules.stripReferrerPath) {
+    return event;
+  }
+
+  const patterns = toPatterns(rules.maskPathSegments);
+  const redact = (value: string) => redactUrl(value, rules.stripQueryParams, patterns);
+
+  const redacted: TrackerEvent = {
+    ...event,
+    url: redact(event.url),
+    pathname: maskPath(event.pathname, patterns),
+    referrer: rules.stripReferrerPath ? stripPath(event.referrer) : redact(event.referrer),
+  };
+
+  switch (redacted.type) {
+    case 'webvital':
+      if (redacted.attribution?.url) {
+        redacted.attribution = { ...redacted.attribution, url: redact(redacted.attribution.url) };
+      }
+      break;
+    case 'longframe':
+      if (redacted.scripts) {
+        redacted.scripts = redacted.scripts.map((script) => ({
+          ...script,
+          source_url: redact(script.source_url),
+        }));
+      }
+      break;
+    case 'resources':
+      redacted.resources = redacted.resources.map((resource) => ({
+        ...resource,
+        url: redact(resource.url),
+      }));
+      break;
+    case 'network':
+      redacted.url_template = redact(redacted.url_template);
+      break;
+    case 'outbound':
+    case 'download':
+      redacted.link_url = redact(redacted.link_url);
+      break;
+    case 'error':
+      if (redacted.source) redacted.source = redact(redacted.source);
+      if (redacted.stack) redacted.stack = redactText(redacted.stack, redact);
+      if (redacted.breadcrumbs) {
+        redacted.breadcrumbs = redacted.breadcrumbs.map((crumb) =>
+          redactBreadcrumb(crumb, patterns, redact),
+        );
+      }
+      break;
+  }
+
+  return redacted as T;
+}
+
+/**
+ * Navigation breadcrumbs carry the new pathname as their message and the
+ * previous one as `data.from`; network breadcrumbs the method and URL.
+ */
+function redactBreadcrumb(
+  crumb: Breadcrumb,
+  patterns: RegExp[],
+  redact: (url: string) => string,
+): Breadcrumb {
+  if (crumb.type === 'network') {
+    return { ...crumb, message: redactText(crumb.message, redact) };
+  }
+  if (crumb.type !== 'navigation' || patterns.length === 0) return crumb;
+
+  const from = crumb.data?.from;
+  return {
+    ...crumb,
+    message: maskPath(crumb.message, patterns),
+    data: typeof from === 'string' ? { ...crumb.data, from: maskPath(from, patterns) } : crumb.data,
+  };
+}
+
+/**
+ * Redact the URLs found in a text. A stack frame's ":line:column" suffix
+ * is kept out of the URL and put back after it.
+ */
+function redactText(text: string, redact: (url: string) => string): string {
+  return text.replace(URL_IN_TEXT, (match) => {
+    const position = /(?::\d+)*$/.exec(match)?.[0] ?? '';
+    return redact(match.slice(0, match.length - position.length)) + position;
+  });
+}
+
+function redactUrl(
+  value: string,
+  stripQuery: RedactionRules['stripQueryParams'],
+  patterns: RegExp[],
+): string {
+  if (!value) return value;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return value;
+  }
+
+  if (stripQuery === true) {
+    url.search = '';
+  } else if (stripQuery) {
+    for (const name of stripQuery) {
+      url.searchParams.delete(name);
+    }
+  }
+
+  url.pathname = maskPath(url.pathname, patterns);
+
+  // URL keeps a bare "?" after the last param is deleted
+  return url.href.replace(/\?$/, '');
+}
+
+/**
+ * Replace every path segment matching one of the patterns with "*",
+ * e.g. "/users/8f3a" -> "/users/*" for a hex pattern.
+ */
+function maskPath(pathname: string, patterns: RegExp[]): string {
+  if (patterns.length === 0) return pathname;
+
+  return pathname
+    .split('/')
+    .map((segment) => {
+      if (!segment) return segment;
+      const matched = patterns.some((pattern) => {
+        pattern.lastIndex = 0;
+        return pattern.test(segment);
+      });
+      return matched ? '*' : segment;
+    })
+    .join('/');
+}
+
+/**
+ * Reduce a referrer to its origin, e.g. "https://example.com/reset?token=x"
+ * -> "https://example.com/".
+ */
+function stripPath(referrer: string): string {
+  if (!referrer) return referrer;
+  try {
+    const url = new URL(referrer);
+    return url.protocol + '//' + url.host + '/';
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * String patterns must match a whole segment; RegExp patterns are used as is.
+ */
+function toPatterns(rule: RedactionRules['maskPathSegments']): RegExp[] {
+  if (!rule) return [];
+  if (rule instanceof RegExp) return [rule];
+
+  const patterns: RegExp[] = [];
+  for (const source of rule) {
+    try {
+      patterns.push(new RegExp('^(?:' + source + ')$'));
+    } catch {
+      // Ignore invalid patterns rather than breaking the host page
+    }
+  }
+  return patterns;
+}
@@ -0,0 +1,217 @@
+/**
+ * Resource timing summaries.
+ *
+ * Observes `PerformanceResourceTiming` entries (scripts, stylesheets,
+ * images, fetches...) and summarizes them per page view: transfer size by
+ * initiator type and by host, first- versus third-party bytes, and the
+ * slowest, render-blocking and failed resources.
+ *
+ * Cross-origin resources report a transfer size of 0 unless they are
+ * served with `Timing-Allow-Origin`, so third-party bytes are a lower bound.
+ */
+
+import type {
+  FeatureHost,
+  PageViewCollector,
+  ResourceEvent,
+  ResourceHost,
+  ResourceTiming,
+} from './types';
+import { generateId, truncate } from './utils';
+
+/** Slowest resources reported per page view */
+const MAX_SLOWEST = 10;
+
+/** Render-blocking and failed resources are added to the slowest up to this */
+const MAX_RESOURCES = 15;
+
+/** Hosts reported per page view, by transfer size */
+const MAX_HOSTS = 10;
+
+interface ResourceEntry extends PerformanceEntry {
+  initiatorType: string;
+  transferSize: number;
+  renderBlockingStatus?: string;
+  responseStatus?: number;
+}
+
+type ResourceData = Pick<
+  ResourceEvent,
+  | 'type'
+  | 'report_id'
+  | 'resource_count'
+  | 'transfer_size'
+  | 'first_party_bytes'
+  | 'third_party_bytes'
+  | 'render_blocking_count'
+  | 'failed_count'
+  | 'initiators'
+  | 'hosts'
+  | 'resources'
+>;
+
+/**
+ * Entry point of the resource timing feature (see load.ts).
+ */
+export function setup(host: FeatureHost): void {
+  host.collect(collectResources(host.config.endpoint, (data) => host.report(data)));
+}
+
+/**
+ * Start observing resources. Requests to the tracker's own endpoint are
+ * ignored. Each page view's summary is reported when the page is hidden
+ * and when the tracker finalizes it on a route change.
+ */
+export function collectResources(
+  endpoint: string,
+  onReport: (data: ResourceData) => void,
+): PageViewCollector {
+  const supported =
+    typeof PerformanceObserver !== 'undefined' &&
+    (PerformanceObserver.supportedEntryTypes ?? []).includes('resource');
+
+  let reportId = generateId();
+  let entries: ResourceEntry[] = [];
+
+  if (supported) {
+    try {
+      new PerformanceObserver((list) => {
+        for (const entry of list.getEntries() as ResourceEntry[]) {
+          if (!entry.name.startsWith(endpoint)) {
+            entries.push(entry);
+          }
+        }
+      }).observe({ type: 'resource', buffered: true });
+    } catch {
+      // Observer unsupported - nothing to report
+    }
+  }
+
+  const finalize = () => {
+    if (entries.length === 0) return;
+    onReport({ type: 'resources', report_id: reportId, ...summarize(entries) });
+  };
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      finalize();
+    }
+  });
+  window.addEventListener('pagehide', finalize);
+
+  return {
+    finalize,
+    reset: () => {
+      reportId = generateId();
+      entries = [];
+    },
+  };
+}
+
+function summarize(entries: ResourceEntry[]): Omit<ResourceData, 'type' | 'report_id'> {
+  const pageHost = location.hostname.replace(/^www\./, '');
+  const initiators: ResourceEvent['initiators'] = {};
+  const hosts = new Map<string, ResourceHost>();
+  let transferSize = 0;
+  let firstPartyBytes = 0;
+  let thirdPartyBytes = 0;
+
+  const timings = entries.map(toTiming);
+
+  for (const timing of timings) {
+    const bytes = timing.transfer_size;
+    transferSize += bytes;
+
+    const initiator = initiators[timing.initiator_type] ?? { count: 0, transfer_size: 0 };
+    initiators[timing.initiator_type] = initiator;
+    initiator.count++;
+    initiator.transfer_size += bytes;
+
+    const firstParty = isFirstParty(timing.host, pageHost);
+    if (firstParty) {
+      firstPartyBytes += bytes;
+    } else {
+      thirdPartyBytes += bytes;
+    }
+
+    let host = hosts.get(timing.host);
+    if (!host) {
+      host = {
+        host: timing.host,
+        first_party: firstParty,
+        count: 0,
+        transfer_size: 0,
+        duration: 0,
+      };
+      hosts.set(timing.host, host);
+    }
+    host.count++;
+    host.transfer_size += bytes;
+    host.duration += timing.duration;
+  }
+
+  const byDuration = timings.slice().sort((a, b) => b.duration - a.duration);
+  const resources = byDuration.slice(0, MAX_SLOWEST);
+  for (const timing of byDuration.slice(MAX_SLOWEST)) {
+    if (resources.length >= MAX_RESOURCES) break;
+    if (timing.render_blocking || timing.failed) {
+      resources.push(timing);
+    }
+  }
+
+  return {
+    resource_count: timings.length,
+    transfer_size: transferSize,
+    first_party_bytes: firstPartyBytes,
+    third_party_bytes: thirdPartyBytes,
+    render_blocking_count: timings.filter((timing) => timing.render_blocking).length,
+    failed_count: timings.filter((timing) => timing.failed).length,
+    initiators,
+    hosts: [...hosts.values()]
+      .sort((a, b) => b.transfer_size - a.transfer_size || b.duration - a.duration)
+      .slice(0, MAX_HOSTS)
+      .map((host) => ({ ...host, duration: Math.round(host.duration) })),
+    resources,
+  };
+}
+
+/**
+ * Describe a resource. The URL is reported without query string or hash,
+ * which may carry tokens.
+ */
+function toTiming(entry: ResourceEntry): ResourceTiming {
+  let url = entry.name;
+  let host = '';
+  try {
+    const parsed = new URL(entry.name);
+    url = parsed.origin + parsed.pathname;
+    host = parsed.hostname;
+  } catch {
+    // Keep the raw name
+  }
+
+  const status = entry.responseStatus || undefined;
+  return {
+    url: truncate(url, 500),
+    host,
+    initiator_type: entry.initiatorType || 'other',
+    duration: Math.round(entry.duration),
+    transfer_size: entry.transferSize || 0,
+    render_blocking: entry.renderBlockingStatus === 'blocking' || undefined,
+    status,
+    failed: (status !== undefined && status >= 400) || undefined,
+  };
+}
+
+/**
+ * Whether a resource host belongs to the page's site: the page's host
+ * (without "www."), a subdomain of it, or a parent domain of it.
+ */
+function isFirstParty(host: string, pageHost: string): boolean {
+  return (
+    host === '' ||
+    host === pageHost ||
+    host.endsWith('.' + pageHost) ||
+    pageHost.endsWith('.' + host)
+  );
+}
@@ -0,0 +1,27 @@
+/**
+ * Client-side routing.
+ *
+ * Single-page apps change the URL through the History API without loading
+ * a new page. Each change of pathname is a new page view; the tracker
+ * finalizes the previous one's measurements first.
+ */
+
+import type { FeatureHost } from './types';
+
+/**
+ * Entry point of the route tracking feature (see load.ts).
+ */
+export function setup(host: FeatureHost): void {
+  for (const method of ['pushState', 'replaceState'] as const) {
+    const original = history[method].bind(history);
+    history[method] = (...args: Parameters<typeof history.pushState>) => {
+      original(...args);
+      host.routeChange();
+    };
+  }
+
+  // Back/forward navigation
+  window.addEventListener('popstate', () => {
+    host.routeChange();
+  });
+}
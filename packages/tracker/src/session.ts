@@ -0,0 +1,155 @@
+/**
+ * Cookieless session identity.
+ *
+ * A session is a random identifier kept in sessionStorage (or in memory
+ * when storage is unavailable) that rotates after a period of inactivity.
+ * It is scoped to the current tab and never shared across sites, so it
+ * cannot be used to follow a visitor over time.
+ */
+
+import type { Campaign } from './types';
+import { generateId } from './utils';
+
+const STORAGE_KEY = 'open-observability:session';
+
+interface SessionRecord {
+  /** Random session identifier */
+  id: string;
+  /** Epoch ms of the last tracked activity */
+  lastActivity: number;
+  /** Campaign attribution from the landing page */
+  campaign?: Campaign;
+  /** Random number in [0, 1) deciding which sample rates include the session */
+  sample?: number;
+  /** Errors reported in the session, for the per-session cap */
+  errors?: number;
+}
+
+export class Session {
+  private record: SessionRecord | null = null;
+  private readonly timeout: number;
+  private persistent: boolean;
+
+  /**
+   * @param persistent - Whether the session may be written to storage.
+   * Until consent is given it lives in memory only.
+   */
+  constructor(timeout: number, persistent = true) {
+    this.timeout = timeout;
+    this.persistent = persistent;
+  }
+
+  /**
+   * Allow or disallow writing the session to storage.
+   */
+  setPersistent(persistent: boolean): void {
+    this.persistent = persistent;
+    if (persistent && this.record) {
+      this.write(this.record);
+    }
+  }
+
+  /**
+   * Get the current session id, starting a new session if the previous
+   * one has been idle for longer than the configured timeout.
+   */
+  getId(): string {
+    return this.touch().id;
+  }
+
+  /**
+   * Campaign attribution recorded for the current session, if any.
+   */
+  getCampaign(): Campaign | undefined {
+    return this.touch().campaign;
+  }
+
+  /**
+   * Whether the current session falls within a sample rate. Rates are
+   * compared against one random draw per session, so a session sampled
+   * at 10% is also included at every higher rate.
+   */
+  isSampled(rate: number): boolean {
+    if (rate >= 1) return true;
+
+    const record = this.touch();
+    if (record.sample === undefined) {
+      record.sample = Math.random();
+      this.write(record);
+    }
+    return record.sample < rate;
+  }
+
+  /**
+   * Attribute the current session to a campaign.
+   */
+  setCampaign(campaign: Campaign): void {
+    const record = this.touch();
+    record.campaign = campaign;
+    this.write(record);
+  }
+
+  /**
+   * Count an error reported in the current session and return the number
+   * reported so far, including this one.
+   */
+  countError(): number {
+    const record = this.touch();
+    record.errors = (record.errors ?? 0) + 1;
+    this.write(record);
+    return record.errors;
+  }
+
+  /**
+   * Forget the current session, both in memory and in storage.
+   */
+  clear(): void {
+    this.record = null;
+    try {
+      sessionStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // Storage unavailable - nothing persisted
+    }
+  }
+
+  /**
+   * Return the active session record, starting a new one if the previous
+   * one has been idle for longer than the configured timeout.
+   */
+  private touch(): SessionRecord {
+    const now = Date.now();
+    let record = this.record ?? this.read();
+
+    if (!record || now - record.lastActivity > this.timeout) {
+      record = { id: generateId(), lastActivity: now };
+    } else {
+      record.lastActivity = now;
+    }
+
+    this.record = record;
+    this.write(record);
+    return record;
+  }
+
+  private read(): SessionRecord | null {
+    try {
+      const raw = sessionStorage.getItem(STORAGE_KEY);
+      if (!raw) return null;
+      const parsed = JSON.parse(raw) as SessionRecord;
+      return typeof parsed.id === 'string' && typeof parsed.lastActivity === 'number'
+        ? parsed
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private write(record: SessionRecord): void {
+    if (!this.persistent) return;
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(record));
+    } catch {
+      // Storage full or blocked (e.g. Safari private mode) - keep in memory only
+    }
+  }
+}
@@ -4,18 +4,32 @@
  * Orchestrates page view tracking, Web Vitals collection,
  * error tracking, and custom events. Designed to be lightweight,
  * non-blocking, and safe - it must never break the host page.
+ *
+ * Everything beyond page views and custom events is an optional feature,
+ * loaded on demand (see load.ts) once the tracker is initialized.
  */
 
 import type {
   TrackerConfig,
   TrackerEvent,
+  ConsentCategory,
+  ConsentState,
   BaseEvent,
   PageViewEvent,
-  ErrorEvent,
   CustomEvent,
+  PageViewCollector,
+  EventType,
+  Breadcrumb,
+  CaptureContext,
+  ErrorLevel,
+  FeatureHost,
 } from './types';
-import { Transport } from './transport';
-import { collectWebVitals } from './web-vitals';
+import type { Transport } from './transport';
+import { Session } from './session';
+import { Consent, CONSENT_CATEGORIES } from './consent';
+import { parseCampaign } from './campaign';
+import { load, type ModuleName, type Modules } from './load';
+import type { ErrorTracking } from './errors';
 import {
   generateId,
   getPathname,
@@ -26,32 +40,80 @@ import {
   getTimezone,
   getLanguage,
   isDNTEnabled,
+  isGPCEnabled,
   isBrowser,
   truncate,
 } from './utils';
 
 declare const __VERSION__: string;
 
+const LOG_PREFIX = '[open-observability]';
+
+/** Modules with a `setup` entry point */
+type FeatureName = Exclude<ModuleName, 'transport' | 'redact'>;
+
+/** Optional features loaded on init, and the options turning each on */
+const FEATURES: [FeatureName, ...(keyof TrackerConfig)[]][] = [
+  ['routes', 'autoPageViews'],
+  ['engagement', 'autoEngagement'],
+  ['web-vitals', 'autoWebVitals'],
+  ['long-frames', 'autoLongFrames'],
+  ['resources', 'autoResources'],
+  ['network', 'autoNetwork'],
+  ['links', 'autoOutbound', 'autoDownloads'],
+  ['frustration', 'autoFrustration'],
+  ['forms', 'autoForms'],
+  ['declarative', 'autoDeclarative', 'autoImpressions'],
+];
+
 export class Tracker {
-  private transport: Transport;
+  /** Loaded with the first event sent, or on init to deliver earlier batches */
+  private transport?: Promise<Transport | void>;
+  private session: Session;
+  private consent: Consent;
   private config: TrackerConfig;
   private currentPageViewId: string = '';
+  private currentUrl: string = '';
   private lastPathname: string = '';
+  /** Collectors measuring per page view, told about route changes */
+  private collectors: PageViewCollector[] = [];
+  /** Loaded with automatic error tracking or the first error or breadcrumb reported */
+  private errors?: Promise<ErrorTracking | void>;
+  /** URL redaction, loaded when the config has privacy rules */
+  private redaction?: Promise<Modules['redact'] | void>;
+  /** Settles once the last event dispatched has been redacted and queued */
+  private redacting?: Promise<void>;
+  /** What optional features get to work with */
+  private host: FeatureHost;
   private initialized = false;
 
   constructor(config: TrackerConfig) {
     this.config = {
       autoPageViews: true,
+      autoEngagement: true,
       autoWebVitals: true,
       autoErrors: true,
+      breadcrumbs: true,
       respectDNT: true,
       debug: false,
-      batchSize: 10,
-      flushInterval: 5000,
+      sessionTimeout: 30 * 60 * 1000,
       ...config,
     };
 
-    this.transport = new Transport(this.config);
+    this.consent = new Consent(this.config.requireConsent === true);
+    this.session = new Session(this.config.sessionTimeout!, this.consent.granted);
+    this.host = {
+      config: this.config,
+      report: (data) => this.report(data),
+      send: (event) => this.send(event),
+      trackEvent: (name, properties) => this.trackEvent(name, properties),
+      flush: () => this.flushQueue(true),
+      collect: (collector) => this.collectors.push(collector),
+      addBreadcrumb: (breadcrumb) => this.recordBreadcrumb(breadcrumb),
+      countError: () => this.session.countError(),
+      getBaseFields: () => this.getBaseFields(),
+      routeChange: () => this.onRouteChange(),
+    };
   }
 
   /**
@@ -69,26 +131,42 @@ export class Tracker {
       return;
     }
 
-    // Respect Do Not Track
-    if (this.config.respectDNT && isDNTEnabled()) {
-      this.log('Do Not Track is enabled, skipping init');
+    // Respect Do Not Track and Global Privacy Control
+    if (this.config.respectDNT && (isDNTEnabled() || isGPCEnabled())) {
+      this.log('Do Not Track or Global Privacy Control is enabled, skipping init');
       return;
     }
 
     this.initialized = true;
     this.log('Initializing tracker v' + (typeof __VERSION__ !== 'undefined' ? __VERSION__ : 'dev'));
 
-    if (this.config.autoPageViews) {
-      this.setupPageViewTracking();
+    // Without consent, nothing (including earlier queued batches) may be sent
+    if (this.consent.granted) {
+      this.startSending();
+    } else {
+      this.log('Waiting for consent');
     }
 
-    if (this.config.autoWebVitals) {
-      this.setupWebVitals();
+    if (this.config.autoPageViews) {
+      this.trackPageView();
     }
 
     if (this.config.autoErrors) {
-      this.setupErrorTracking();
+      this.loadErrors();
+    }
+
+    for (const [name, ...options] of FEATURES) {
+      if (options.some((option) => this.config[option])) {
+        this.use(name);
+      }
     }
+
+    // A page restored from bfcache is a new page view
+    window.addEventListener('pageshow', (event) => {
+      if (event.persisted) {
+        this.onRestore(event.timeStamp);
+      }
+    });
   }
 
   /**
@@ -98,10 +176,20 @@ export class Tracker {
     if (!this.initialized) return;
 
     this.currentPageViewId = generateId();
+    this.currentUrl = getUrl();
     this.lastPathname = getPathname();
 
+    const baseFields = this.getBaseFields();
+
+    // A campaign landing URL attributes the rest of the session to it
+    const campaign = parseCampaign(window.location.search);
+    if (campaign) {
+      this.session.setCampaign(campaign);
+    }
+
     const event: PageViewEvent = {
-      ...this.getBaseFields(),
+      ...baseFields,
+      ...this.session.getCampaign(),
       type: 'pageview',
       title: document.title,
       page_view_id: this.currentPageViewId,
@@ -129,12 +217,91 @@ export class Tracker {
     this.send(event);
   }
 
+  /**
+   * Add a breadcrumb to those attached to later errors.
+   *
+   * @example
+   * tracker.addBreadcrumb('checkout started', { items: 3 });
+   */
+  addBreadcrumb(message: string, data?: Record<string, string | number | boolean>): void {
+    if (!this.initialized) return;
+
+    this.recordBreadcrumb({ type: 'custom', message: truncate(message, 300), data });
+  }
+
+  /**
+   * Report a caught exception. Values that are not `Error`s are reported
+   * by their string form.
+   *
+   * @example
+   * try {
+   *   await submitOrder();
+   * } catch (err) {
+   *   tracker.captureException(err, { tags: { step: 'payment' }, extra: { items: 3 } });
+   * }
+   */
+  captureException(error: unknown, context: CaptureContext = {}): void {
+    if (!this.initialized) return;
+
+    this.loadErrors().then((errors) => errors?.captureException(error, context));
+  }
+
+  /**
+   * Report a message as an error event, e.g. an unexpected state that did
+   * not throw.
+   *
+   * @example
+   * tracker.captureMessage('Payment provider returned no token', 'warning');
+   */
+  captureMessage(message: string, level: ErrorLevel = 'info'): void {
+    if (!this.initialized) return;
+
+    this.loadErrors().then((errors) => errors?.report({ message, level }));
+  }
+
+  /**
+   * Grant consent, for all categories or only the given ones. Events held
+   * while consent was pending are sent if their category is granted.
+   *
+   * @example
+   * tracker.grantConsent(['analytics', 'errors']);
+   */
+  grantConsent(categories: ConsentCategory[] = CONSENT_CATEGORIES): void {
+    this.consent.grant(categories);
+    this.session.setPersistent(true);
+    this.log('Consent granted', this.consent.getState().categories);
+
+    // Before init(), init() starts sending
+    if (this.initialized) {
+      this.startSending();
+    }
+  }
+
+  /**
+   * Revoke consent. Stops sending, discards held and queued events
+   * (including those persisted by earlier page loads) and forgets the session.
+   */
+  revokeConsent(): void {
+    this.consent.revoke();
+    this.withTransport((transport) => transport.clear());
+    this.session.clear();
+    this.session.setPersistent(false);
+    this.log('Consent revoked');
+  }
+
+  /**
+   * Current consent decision and granted categories.
+   */
+  getConsentState(): ConsentState {
+    return this.consent.getState();
+  }
+
   /**
    * Immediately flush all queued events.
    * Useful before navigation or page unload.
    */
   flush(): void {
-    this.transport.flush();
+    this.flushQueue();
   }
 
   // --- Private methods ---
@@ -142,6 +309,7 @@ export class Tracker {
   private getBaseFields(): BaseEvent {
     return {
       type: 'pageview', // will be overridden
+      event_id: generateId(),
       timestamp: new Date().toISOString(),
       site_id: this.config.siteId,
       url: getUrl(),
@@ -152,34 +320,53 @@ export class Tracker {
       language: getLanguage(),
       connection_type: getConnectionType(),
       tracker_version: typeof __VERSION__ !== 'undefined' ? __VERSION__ : 'dev',
+      session_id: this.session.getId(),
     };
   }
 
-  private send(event: TrackerEvent): void {
-    this.transport.enqueue(event);
+  /**
+   * Start the transport and send the events held while consent was pending.
+   */
+  private startSending(): void {
+    this.withTransport((transport) => transport.start());
+    for (const event of this.consent.release()) {
+      this.dispatch(event);
+    }
   }
 
-  private setupPageViewTracking(): void {
-    // Track the initial page view
-    this.trackPageView();
+  private send(event: TrackerEvent): void {
+    if (this.consent.pending) {
+      this.consent.hold(event);
+      return;
+    }
 
-    // Track SPA navigation via History API
-    const originalPushState = history.pushState.bind(history);
-    const originalReplaceState = history.replaceState.bind(history);
+    if (this.consent.allows(event)) {
+      this.dispatch(event);
+    }
+  }
 
-    history.pushState = (...args: Parameters<typeof history.pushState>) => {
-      originalPushState(...args);
-      this.onRouteChange();
-    };
+  private dispatch(event: TrackerEvent): void {
+    // A page leave updates its page view, so it is kept exactly when that is
+    const type = event.type === 'pageleave' ? 'pageview' : event.type;
+    const rate = this.config.sampleRates?.[type] ?? this.config.sampleRate ?? 1;
+    if (!this.session.isSampled(rate)) return;
+    if (rate < 1) {
+      event.sample_rate = rate;
+    }
 
-    history.replaceState = (...args: Parameters<typeof history.replaceState>) => {
-      originalReplaceState(...args);
-      this.onRouteChange();
-    };
+    const { stripQueryParams, maskPathSegments, stripReferrerPath } = this.config;
+    if (!stripQueryParams && !maskPathSegments && !stripReferrerPath) {
+      this.withTransport((transport) => transport.enqueue(event));
+      return;
+    }
 
-    // Track back/forward navigation
-    window.addEventListener('popstate', () => {
-      this.onRouteChange();
+    // Events wait for redaction in order; if it cannot load, nothing is sent
+    this.redaction ??= this.load('redact');
+    this.redacting = this.redaction.then((redact) => {
+      if (redact) {
+        const redacted = redact.redactEvent(event, this.config);
+        this.withTransport((transport) => transport.enqueue(redacted));
+      }
     });
   }
 
@@ -187,6 +374,18 @@ export class Tracker {
     // Only track if the pathname actually changed
     const newPathname = getPathname();
     if (newPathname !== this.lastPathname) {
+      this.recordBreadcrumb({
+        type: 'navigation',
+        message: newPathname,
+        data: { from: this.lastPathname },
+      });
+
+      // Report the previous route's metrics while they are still attributed to it
+      for (const collector of this.collectors) {
+        collector.finalize();
+        collector.reset();
+      }
+
       // Small delay to let the page update its title
       setTimeout(() => {
         this.trackPageView();
@@ -194,51 +393,98 @@ export class Tracker {
     }
   }
 
-  private setupWebVitals(): void {
-    collectWebVitals((vitalData) => {
-      const event = {
-        ...this.getBaseFields(),
-        ...vitalData,
-      } as TrackerEvent;
+  private onRestore(timeStamp: number): void {
+    // Metrics of the page view before it entered bfcache were reported on hide
+    if (this.config.autoPageViews) {
+      this.trackPageView();
+    }
+    for (const collector of this.collectors) {
+      collector.reset(timeStamp);
+    }
+  }
 
-      this.send(event);
-    });
+  /**
+   * Fields tying a per page view measurement to the page view it was taken
+   * on, which is still current when a route change finalizes it.
+   */
+  private getPageViewFields(): Partial<BaseEvent> & { page_view_id?: string } {
+    if (!this.currentPageViewId) return {};
+    return {
+      url: this.currentUrl,
+      pathname: this.lastPathname,
+      page_view_id: this.currentPageViewId,
+    };
   }
 
-  private setupErrorTracking(): void {
-    window.addEventListener('error', (errorEvent) => {
-      const event: ErrorEvent = {
-        ...this.getBaseFields(),
-        type: 'error',
-        message: truncate(errorEvent.message || 'Unknown error', 1000),
-        stack: errorEvent.error?.stack ? truncate(errorEvent.error.stack, 2000) : undefined,
-        source: errorEvent.filename,
-        line: errorEvent.lineno,
-        column: errorEvent.colno,
-      };
+  /**
+   * Send a measurement taken on the current page view.
+   */
+  private report(data: { type: EventType }): void {
+    // Engagement updates a page view, so there must be one
+    if (data.type === 'pageleave' && !this.currentPageViewId) return;
 
-      this.send(event);
-    });
+    this.send({
+      ...this.getBaseFields(),
+      ...this.getPageViewFields(),
+      ...data,
+    } as TrackerEvent);
+  }
 
-    window.addEventListener('unhandledrejection', (rejectionEvent) => {
-      const reason = rejectionEvent.reason;
-      const message =
-        reason instanceof Error ? reason.message : String(reason || 'Unhandled promise rejection');
+  /**
+   * Flush the transport, after the events still being redacted are queued.
+   */
+  private flushQueue(beacon?: boolean): void {
+    Promise.resolve(this.redacting).then(() =>
+      this.withTransport((transport) => transport.flush(beacon)),
+    );
+  }
 
-      const event: ErrorEvent = {
-        ...this.getBaseFields(),
-        type: 'error',
-        message: truncate(message, 1000),
-        stack: reason instanceof Error && reason.stack ? truncate(reason.stack, 2000) : undefined,
-      };
+  /**
+   * Run `fn` once the transport has loaded. Events wait for it in order; if
+   * it cannot load, nothing is sent.
+   */
+  private withTransport(fn: (transport: Transport) => void): void {
+    this.transport ??= this.load('transport').then(
+      (module) => module && new module.Transport(this.config),
+    );
+    this.transport.then((transport) => transport && fn(transport));
+  }
 
-      this.send(event);
-    });
+  /**
+   * Load an optional feature and set it up. A feature that fails to load
+   * (e.g. blocked by a content blocker) stays off.
+   */
+  private use(name: FeatureName): Promise<ErrorTracking | void> {
+    return this.load(name).then((module) => module?.setup(this.host));
+  }
+
+  /**
+   * Load a module. Failures are logged even without `debug`: the script
+   * tag build loads the transport this way too, so a script the page does
+   * not serve or its CSP blocks means nothing is sent.
+   */
+  private load<K extends ModuleName>(name: K): Promise<Modules[K] | void> {
+    return load(name).catch((err) => console.error(`${LOG_PREFIX} Failed to load ${name}`, err));
+  }
+
+  /**
+   * Errors and breadcrumbs reported before error tracking has loaded wait
+   * for it, in order.
+   */
+  private loadErrors(): Promise<ErrorTracking | void> {
+    return (this.errors ??= this.use('errors'));
+  }
+
+  private recordBreadcrumb(breadcrumb: Omit<Breadcrumb, 'timestamp'>): void {
+    // Without automatic error tracking, breadcrumbs would load it for nothing
+    if (this.config.breadcrumbs && this.config.autoErrors) {
+      this.loadErrors().then((errors) => errors?.addBreadcrumb(breadcrumb));
+    }
   }
 
   private log(...args: unknown[]): void {
     if (this.config.debug) {
-      console.log('[open-observability]', ...args);
+      console.log(LOG_PREFIX, ...args);
     }
   }
 }
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from 'vitest';
+import { Transport } from './transport';
+import type { StoredBatch } from './queue-store';
+import type { TrackerConfig, TrackerEvent } from './types';
+
+const QUEUE_KEY = 'open-observability:queue';
+
+const config: TrackerConfig = {
+  siteId: 'site',
+  endpoint: 'https://ingest.example.com/functions/v1/ingest',
+  batchSize: 10,
+  flushInterval: 5000,
+};
+
+/** localStorage shared by every "tab" in a test */
+class MemoryStorage {
+  private items = new Map<string, string>();
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+function event(name: string): TrackerEvent {
+  return { type: 'custom', event_id: `id-${name}`, event_name: name } as TrackerEvent;
+}
+
+function stored(): StoredBatch[] {
+  return JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+}
+
+function respond(status: number, body?: unknown): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), { status });
+}
+
+describe('Transport', () => {
+  let fetchMock: Mock<[RequestInfo, RequestInit?], Promise<Response>>;
+
+  /** Event ids of each request sent so far */
+  const sent = () =>
+    fetchMock.mock.calls.map(([, init]) =>
+      JSON.parse(init!.body as string).events.map(
+        (e: TrackerEvent) => e.event_id,
+      ),
+    );
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', new EventTarget());
+    vi.stubGlobal('localStorage', new MemoryStorage());
+    fetchMock = vi.fn(async (_input: RequestInfo, _init?: RequestInit) => respond(200));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('retries a failed batch with the same event ids', async () => {
+    fetchMock.mockResolvedValueOnce(respond(503));
+    const transport = new Transport(config);
+    transport.start();
+
+    transport.enqueue(event('a'));
+    transport.enqueue(event('b'));
+    transport.flush();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stored()).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(sent()).toEqual([
+      ['id-a', 'id-b'],
+      ['id-a', 'id-b'],
+    ]);
+    expect(stored()).toHaveLength(0);
+  });
+
+  it('retries only the events ingest failed to insert', async () => {
+    fetchMock.mockResolvedValueOnce(
+      respond(207, {
+        status: 'partial',
+        accepted: 1,
+        rejected: 2,
+        errors: [
+          { index: 0, reason: 'missing_field', message: 'event_name is required' },
+          { index: 2, reason: 'insert_failed', message: 'Failed to store in custom_events' },
+        ],
+      }),
+    );
+    const transport = new Transport(config);
+    transport.start();
+
+    transport.enqueue(event('a'));
+    transport.enqueue(event('b'));
+    transport.enqueue(event('c'));
+    transport.flush();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(sent()).toEqual([['id-a', 'id-b', 'id-c'], ['id-c']]);
+  });
+
+  it('drops events beforeSend rejects or throws on', async () => {
+    const transport = new Transport({
+      ...config,
+      beforeSend: (e) => {
+        if (e.type === 'custom' && e.event_name === 'throws') throw new Error('hook failed');
+        return e.type === 'custom' && e.event_name === 'dropped' ? null : e;
+      },
+    });
+    transport.start();
+
+    transport.enqueue(event('a'));
+    transport.enqueue(event('dropped'));
+    transport.enqueue(event('throws'));
+    transport.flush();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sent()).toEqual([['id-a']]);
+  });
+
+  it('leaves batches leased by another tab alone', async () => {
+    fetchMock.mockResolvedValueOnce(respond(503));
+    const first = new Transport(config);
+    first.start();
+    first.enqueue(event('a'));
+    first.flush();
+    await vi.advanceTimersByTimeAsync(0);
+
+    // A second tab opening while the first waits to retry
+    const second = new Transport(config);
+    second.start();
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    // Sent once by the first tab, then retried once by it
+    expect(sent()).toEqual([['id-a'], ['id-a']]);
+  });
+
+  it('takes over a batch once its lease runs out', async () => {
+    const batch: StoredBatch = {
+      id: 'batch',
+      events: [event('a')],
+      attempts: 1,
+      nextAttempt: Date.now(),
+      owner: 'closed-tab',
+      leaseUntil: Date.now() + 30_000,
+    };
+    localStorage.setItem(QUEUE_KEY, JSON.stringify([batch]));
+
+    const transport = new Transport(config);
+    transport.start();
+    await vi.advanceTimersByTimeAsync(29_000);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(sent()).toEqual([['id-a']]);
+    expect(stored()).toHaveLength(0);
+  });
+
+  it('hands its batches over when the page unloads', async () => {
+    fetchMock.mockResolvedValueOnce(respond(503));
+    const first = new Transport(config);
+    first.start();
+    first.enqueue(event('a'));
+    first.flush();
+    await vi.advanceTimersByTimeAsync(0);
+
+    window.dispatchEvent(Object.assign(new Event('pagehide'), { persisted: false }));
+    const next = new Transport(config);
+    next.start();
+    // Retried by the next page once the backoff has passed
+    await vi.advanceTimersByTimeAsync(60_000);
+
+    expect(sent()).toEqual([['id-a'], ['id-a']]);
+  });
+
+  it('replays a stored batch from only one of the tabs opening at once', async () => {
+    const batch: StoredBatch = {
+      id: 'batch',
+      events: [event('a')],
+      attempts: 0,
+      nextAttempt: 0,
+    };
+    localStorage.setItem(QUEUE_KEY, JSON.stringify([batch]));
+
+    new Transport(config).start();
+    new Transport(config).start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(sent()).toEqual([['id-a']]);
+  });
+});
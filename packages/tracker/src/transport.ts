@@ -1,15 +1,45 @@
 /**
  * Transport layer for sending events to the backend.
  *
- * Uses a batching strategy to minimize network requests.
+ * Uses a batching strategy to minimize network requests. Batches are
+ * persisted until the backend accepts them and retried with jittered
+ * exponential backoff, so events survive flaky connections and reloads.
  * Falls back to navigator.sendBeacon on page unload for reliability.
+ *
+ * Stored batches are shared by the origin's tabs; each page load only sends
+ * the batches it holds a lease on. Every event carries a unique event_id,
+ * so a batch sent twice anyway (a response lost in transit, a tab frozen
+ * past its lease) is still stored once.
  */
 
-import type { TrackerConfig, TrackerEvent } from './types';
+import type { IngestResult, TrackerConfig, TrackerEvent } from './types';
+import { createQueueStore, type QueueStore, type StoredBatch } from './queue-store';
+import { generateId } from './utils';
+
+/** Give up on a batch after this many delivery attempts */
+const MAX_ATTEMPTS = 10;
+const BASE_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 10 * 60 * 1000;
+/** How long past its next attempt a batch stays leased to its page load */
+const LEASE_DURATION = 60 * 1000;
+
+type DeliveryResult =
+  | { outcome: 'delivered' }
+  | { outcome: 'dropped' }
+  | { outcome: 'retry'; retryAfter?: number; indices?: number[] };
 
 export class Transport {
   private queue: TrackerEvent[] = [];
   private timer: ReturnType<typeof setTimeout> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private claimTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Batches awaiting delivery leased to this page load, mirrored in the persistent store */
+  private pending = new Map<string, StoredBatch>();
+  private inFlight = new Set<string>();
+  private store: QueueStore | null = null;
+  private started = false;
+  /** Identifies this page load as the holder of batch leases */
+  private readonly owner = generateId();
   private readonly config: TrackerConfig;
   private readonly debug: boolean;
 
@@ -27,17 +57,90 @@ export class Transport {
     }
 
     if (typeof window !== 'undefined') {
-      window.addEventListener('pagehide', () => {
+      window.addEventListener('pagehide', (event) => {
         this.flush();
+        // A page that is unloading hands its batches over to the next one
+        if (!event.persisted) {
+          this.release();
+        }
       });
     }
   }
 
   /**
-   * Add an event to the send queue.
+   * Start delivering batches left over from previous page loads (once no
+   * other tab holds them) and retry immediately whenever the browser comes
+   * back online.
+   */
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    if (this.config.persistQueue !== false) {
+      this.store = createQueueStore();
+      this.restore();
+    }
+
+    window.addEventListener('online', () => {
+      for (const batch of this.pending.values()) {
+        batch.nextAttempt = 0;
+      }
+      this.processPending();
+    });
+  }
+
+  /**
+   * Discard all queued and pending events, including those persisted by
+   * earlier page loads. Batches already in flight are not retried.
+   */
+  clear(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.claimTimer !== null) {
+      clearTimeout(this.claimTimer);
+      this.claimTimer = null;
+    }
+
+    this.queue = [];
+    this.pending.clear();
+
+    if (this.config.persistQueue !== false) {
+      (this.store ?? createQueueStore()).clear().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Add an event to the send queue, unless `beforeSend` drops it.
    * Triggers a flush if the batch size threshold is reached.
    */
   enqueue(event: TrackerEvent): void {
+    if (this.config.beforeSend) {
+      let kept: TrackerEvent | null;
+      try {
+        kept = this.config.beforeSend(event);
+      } catch (err) {
+        // Never send an event the hook failed to clean up
+        if (this.debug) {
+          console.warn('[open-observability] beforeSend threw, dropping event', err);
+        }
+        return;
+      }
+
+      if (!kept) {
+        if (this.debug) {
+          console.log('[open-observability] Event dropped by beforeSend', event.type);
+        }
+        return;
+      }
+      event = kept;
+    }
+
     this.queue.push(event);
 
     if (this.debug) {
@@ -67,9 +170,10 @@ export class Transport {
 
   /**
    * Immediately send all queued events.
-   * Uses sendBeacon when the page is being unloaded, fetch otherwise.
+   * Uses sendBeacon when the page is being unloaded or `beacon` is set
+   * (e.g. on a click that navigates away), fetch otherwise.
    */
-  flush(): void {
+  flush(beacon = false): void {
     if (this.timer !== null) {
       clearTimeout(this.timer);
       this.timer = null;
@@ -77,24 +181,189 @@ export class Transport {
 
     if (this.queue.length === 0) return;
 
-    const events = this.queue.splice(0);
-    const payload = JSON.stringify({ events });
+    const batch: StoredBatch = {
+      id: generateId(),
+      events: this.queue.splice(0),
+      attempts: 0,
+      nextAttempt: 0,
+      owner: this.owner,
+      leaseUntil: Date.now() + LEASE_DURATION,
+    };
 
-    // Determine if we should use sendBeacon (page is hiding)
+    // Determine if we should use sendBeacon (page is hiding or about to)
     const useBeacon =
       typeof document !== 'undefined' &&
-      document.visibilityState === 'hidden' &&
+      (beacon || document.visibilityState === 'hidden') &&
       typeof navigator.sendBeacon === 'function';
 
     if (useBeacon) {
-      this.sendViaBeacon(payload);
+      // Keep the batch for the next page load if the beacon was refused
+      if (!this.sendViaBeacon(batch)) {
+        this.persist(batch);
+      }
     } else {
-      this.sendViaFetch(payload);
+      this.persist(batch);
+      this.sendBatch(batch);
     }
   }
 
-  private sendViaBeacon(payload: string): void {
+  /**
+   * Take over stored batches no other page load holds a lease on, and
+   * come back for the others when their lease runs out.
+   */
+  private async restore(): Promise<void> {
+    this.claimTimer = null;
     try {
+      const batches = await this.store!.claim(this.owner, LEASE_DURATION);
+      let nextClaim = Infinity;
+      for (const batch of batches) {
+        if (batch.owner !== this.owner) {
+          nextClaim = Math.min(nextClaim, batch.leaseUntil ?? 0);
+        } else if (!this.pending.has(batch.id)) {
+          this.pending.set(batch.id, batch);
+        }
+      }
+
+      if (nextClaim !== Infinity && this.claimTimer === null) {
+        this.claimTimer = setTimeout(() => this.restore(), Math.max(0, nextClaim - Date.now()));
+      }
+
+      this.enforceStorageLimit();
+      this.processPending();
+    } catch (err) {
+      if (this.debug) {
+        console.warn('[open-observability] failed to restore queued events:', err);
+      }
+    }
+  }
+
+  private persist(batch: StoredBatch): void {
+    this.pending.set(batch.id, batch);
+    this.enforceStorageLimit();
+    this.store?.put(batch).catch(() => undefined);
+  }
+
+  private remove(id: string): void {
+    this.pending.delete(id);
+    this.store?.delete(id).catch(() => undefined);
+  }
+
+  /**
+   * Give up the leases on this page load's batches, so the next page load
+   * can take them over right away.
+   */
+  private release(): void {
+    for (const batch of this.pending.values()) {
+      batch.leaseUntil = 0;
+      this.store?.put(batch).catch(() => undefined);
+    }
+    this.pending.clear();
+  }
+
+  /**
+   * Drop the oldest batches once the number of stored events exceeds
+   * the configured cap, so an extended outage cannot fill up storage.
+   */
+  private enforceStorageLimit(): void {
+    const maxEvents = this.config.maxStoredEvents ?? 500;
+    let total = 0;
+    for (const batch of this.pending.values()) {
+      total += batch.events.length;
+    }
+
+    for (const batch of this.pending.values()) {
+      if (total <= maxEvents) break;
+      if (this.inFlight.has(batch.id)) continue;
+      total -= batch.events.length;
+      this.remove(batch.id);
+
+      if (this.debug) {
+        console.warn(`[open-observability] queue full, dropped ${batch.events.length} events`);
+      }
+    }
+  }
+
+  /**
+   * Send every pending batch whose retry time has come, then schedule
+   * a timer for the next one.
+   */
+  private processPending(): void {
+    const now = Date.now();
+    for (const batch of this.pending.values()) {
+      if (batch.nextAttempt <= now) {
+        this.sendBatch(batch);
+      }
+    }
+    this.scheduleRetry();
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer !== null) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+    let next = Infinity;
+    for (const batch of this.pending.values()) {
+      if (!this.inFlight.has(batch.id)) {
+        next = Math.min(next, batch.nextAttempt);
+      }
+    }
+
+    if (next === Infinity) return;
+
+    this.retryTimer = setTimeout(
+      () => {
+        this.retryTimer = null;
+        this.processPending();
+      },
+      Math.max(0, next - Date.now()),
+    );
+  }
+
+  private async sendBatch(batch: StoredBatch): Promise<void> {
+    if (this.inFlight.has(batch.id)) return;
+
+    // Offline: wait for the 'online' event instead of burning attempts
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+    this.inFlight.add(batch.id);
+    const result = await this.sendViaFetch(JSON.stringify({ events: batch.events }));
+    this.inFlight.delete(batch.id);
+
+    if (!this.pending.has(batch.id)) return;
+
+    if (result.outcome === 'retry' && result.indices) {
+      // Partial success: only the transiently failed events are retried
+      const retry = new Set(result.indices);
+      batch.events = batch.events.filter((_, i) => retry.has(i));
+    }
+
+    if (
+      result.outcome === 'retry' &&
+      batch.events.length > 0 &&
+      batch.attempts + 1 < MAX_ATTEMPTS
+    ) {
+      batch.attempts++;
+      batch.nextAttempt = Date.now() + (result.retryAfter ?? backoff(batch.attempts));
+      // Keep the lease while waiting to retry
+      batch.leaseUntil = batch.nextAttempt + LEASE_DURATION;
+      this.store?.put(batch).catch(() => undefined);
+      this.scheduleRetry();
+      return;
+    }
+
+    if (result.outcome !== 'delivered' && this.debug) {
+      console.warn(`[open-observability] dropping ${batch.events.length} undeliverable events`);
+    }
+    this.remove(batch.id);
+  }
+
+  private sendViaBeacon(batch: StoredBatch): boolean {
+    try {
+      const payload = JSON.stringify({ events: batch.events });
       const blob = new Blob([payload], { type: 'application/json' });
 
       // sendBeacon does not support custom headers, so we encode
@@ -103,16 +372,18 @@ export class Transport {
       const success = navigator.sendBeacon(url, blob);
 
       if (!success && this.debug) {
-        console.warn('[open-observability] sendBeacon failed, events may be lost');
+        console.warn('[open-observability] sendBeacon failed, events kept for retry');
       }
+      return success;
     } catch (err) {
       if (this.debug) {
         console.error('[open-observability] sendBeacon error:', err);
       }
+      return false;
     }
   }
 
-  private async sendViaFetch(payload: string): Promise<void> {
+  private async sendViaFetch(payload: string): Promise<DeliveryResult> {
     try {
       const headers: Record<string, string> = {
         'Content-Type': 'application/json',
@@ -131,17 +402,70 @@ export class Transport {
         keepalive: true,
       });
 
-      if (!response.ok && this.debug) {
+      if (response.status === 207) {
+        return this.handlePartial(response);
+      }
+
+      if (response.ok) {
+        return { outcome: 'delivered' };
+      }
+
+      if (this.debug) {
         console.warn(
           `[open-observability] ingestion failed: ${response.status} ${response.statusText}`,
         );
       }
+
+      // Rate limiting and server errors are transient
+      if (response.status === 429 || response.status >= 500) {
+        return {
+          outcome: 'retry',
+          retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+        };
+      }
+
+      // Any other client error will fail the same way on every attempt
+      return { outcome: 'dropped' };
     } catch (err) {
       if (this.debug) {
         console.error('[open-observability] fetch error:', err);
       }
-      // Silently fail - we never want to break the host page
+      // Network error - retry later, but never break the host page
+      return { outcome: 'retry' };
+    }
+  }
+
+  /**
+   * Work out which events of a partially accepted batch are worth retrying.
+   * Permanently invalid events (bad fields, unknown site) are dropped.
+   */
+  private async handlePartial(response: Response): Promise<DeliveryResult> {
+    let result: IngestResult;
+    try {
+      result = await response.json();
+    } catch {
+      // Unreadable body - we cannot tell which events failed, so retry them all
+      return { outcome: 'retry' };
+    }
+
+    const indices: number[] = [];
+    for (const rejection of result.errors ?? []) {
+      if (rejection.reason === 'insert_failed') {
+        indices.push(rejection.index);
+      } else if (this.debug) {
+        console.warn(
+          `[open-observability] event ${rejection.index} rejected (${rejection.reason}): ${rejection.message}`,
+        );
+      }
     }
+
+    return indices.length > 0
+      ? {
+          outcome: 'retry',
+          indices,
+          retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+        }
+      : { outcome: 'delivered' };
   }
 
   private buildUrl(): string {
@@ -159,3 +483,25 @@ export class Transport {
     return this.queue.length;
   }
 }
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed and
+ * half random, so many clients recovering at once do not retry in lockstep.
+ */
+function backoff(attempt: number): number {
+  const delay = Math.min(MAX_RETRY_DELAY, BASE_RETRY_DELAY * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into ms.
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -27,6 +27,12 @@ export interface TrackerConfig {
    */
   autoPageViews?: boolean;
 
+  /**
+   * Whether to measure engaged time and scroll depth per page view and
+   * report them when the visitor leaves the page. Defaults to true.
+   */
+  autoEngagement?: boolean;
+
   /**
    * Whether to automatically collect Web Vitals (LCP, FID, CLS, etc.).
    * Defaults to true.
@@ -39,10 +45,183 @@ export interface TrackerConfig {
   autoErrors?: boolean;
 
   /**
-   * Whether to respect Do Not Track browser setting. Defaults to true.
+   * Whether to monitor main-thread jank with Long Animation Frames (or
+   * Long Tasks where unsupported), reporting totals and the scripts behind
+   * the worst frames once per page view. Defaults to false.
+   */
+  autoLongFrames?: boolean;
+
+  /**
+   * Whether to summarize resource timing (scripts, stylesheets, images,
+   * fetches) once per page view: the slowest, render-blocking and failed
+   * resources and transfer size by initiator type and host. Defaults to false.
+   */
+  autoResources?: boolean;
+
+  /**
+   * Whether to wrap `fetch` and `XMLHttpRequest` and report each request's
+   * method, URL template, status, duration and failure type, also recording
+   * them as error breadcrumbs. Requests to `endpoint` are never reported.
+   * Nothing is wrapped unless this is set. Defaults to false.
+   */
+  autoNetwork?: boolean;
+
+  /**
+   * Only report requests whose URL matches one of these. Strings match
+   * anywhere in the URL. Defaults to all requests.
+   *
+   * @example
+   * networkAllowUrls: ['/api/', /^https:\/\/api\.example\.com\//]
+   */
+  networkAllowUrls?: Array<string | RegExp>;
+
+  /**
+   * Never report requests whose URL matches one of these. Strings match
+   * anywhere in the URL.
+   */
+  networkDenyUrls?: Array<string | RegExp>;
+
+  /**
+   * Whether to attach breadcrumbs to errors: navigations, clicks (element
+   * selector only), console warnings and errors, network requests and
+   * `addBreadcrumb()` entries. Nothing is recorded without `autoErrors`.
+   * Network requests are only recorded with `autoNetwork`, which is what
+   * wraps `fetch` and `XMLHttpRequest`; without it there are no network
+   * breadcrumbs. Defaults to true.
+   */
+  breadcrumbs?: boolean;
+
+  /**
+   * Number of most recent breadcrumbs kept and attached to each error.
+   * Defaults to 20.
+   */
+  maxBreadcrumbs?: number;
+
+  /**
+   * Drop errors whose message matches one of these. Strings match anywhere
+   * in the message.
+   *
+   * @example
+   * ignoreErrors: ['ResizeObserver loop', /^Script error\.?$/]
+   */
+  ignoreErrors?: Array<string | RegExp>;
+
+  /**
+   * Drop errors thrown by scripts whose URL matches one of these, e.g.
+   * third-party widgets. Strings match anywhere in the URL.
+   */
+  denyUrls?: Array<string | RegExp>;
+
+  /**
+   * Identical errors within this many milliseconds of the first are merged
+   * into one event carrying their count. Defaults to 5000.
+   */
+  errorDedupeWindow?: number;
+
+  /**
+   * Most error events sent per page view. Defaults to 30.
+   */
+  maxErrorsPerPageView?: number;
+
+  /**
+   * Most error events sent per session. Defaults to 100.
+   */
+  maxErrorsPerSession?: number;
+
+  /**
+   * Release or build identifier of the site's code, e.g. a version or
+   * commit SHA. Sent with errors so that their stack traces can be mapped
+   * back to source with the source maps uploaded for that release.
+   */
+  release?: string;
+
+  /**
+   * Whether to report clicks on links to other hosts. Only the link's
+   * origin and path are sent, never its query string or text. Defaults to
+   * false.
+   */
+  autoOutbound?: boolean;
+
+  /**
+   * Whether to report clicks on links to files with one of
+   * `downloadExtensions`, or with a `download` attribute. Defaults to false.
+   */
+  autoDownloads?: boolean;
+
+  /**
+   * File extensions counted as downloads, without the dot. Defaults to
+   * common document, archive, installer and media formats.
+   *
+   * @example
+   * downloadExtensions: ['pdf', 'zip', 'csv']
+   */
+  downloadExtensions?: string[];
+
+  /**
+   * Whether to report rage clicks, dead clicks on buttons and links, and
+   * clicks immediately followed by an error. Only the clicked element's
+   * selector is sent. Defaults to false.
+   */
+  autoFrustration?: boolean;
+
+  /**
+   * Whether to track how forms are filled in: start, field focus order,
+   * time per field, validation errors, submit, and the last field touched
+   * when a form is abandoned. Field values are never read. A field fails
+   * validation when the browser rejects it or its `aria-invalid` attribute
+   * turns "true". Forms are identified by their `data-oo-form` attribute,
+   * id or name. Defaults to false.
+   */
+  autoForms?: boolean;
+
+  /**
+   * Whether to track clicks and form submits on elements with a
+   * `data-oo-event` attribute as custom events, with `data-oo-prop-*`
+   * attributes as their properties. Defaults to false.
+   *
+   * @example
+   * <button data-oo-event="signup" data-oo-prop-plan="pro">Sign up</button>
+   */
+  autoDeclarative?: boolean;
+
+  /**
+   * Whether to track elements with a `data-oo-impression` attribute as
+   * custom events the first time at least half of them is visible.
+   * Defaults to false.
+   *
+   * @example
+   * <section data-oo-impression="pricing_table">...</section>
+   */
+  autoImpressions?: boolean;
+
+  /**
+   * Whether to respect the Do Not Track and Global Privacy Control browser
+   * settings. When either is on, the tracker does not start. Defaults to true.
    */
   respectDNT?: boolean;
 
+  /**
+   * Wait for `grantConsent()` before sending or storing anything. Events
+   * tracked in the meantime are held in memory. Defaults to false.
+   */
+  requireConsent?: boolean;
+
+  /**
+   * Fraction of sessions to track, between 0 and 1. Defaults to 1 (all).
+   * The decision is made once per session, so a visitor's session is either
+   * fully tracked or not at all. Dashboard counts are scaled up to match.
+   */
+  sampleRate?: number;
+
+  /**
+   * Per event type sample rates, overriding `sampleRate`. Page leaves are
+   * sampled at the page view rate.
+   *
+   * @example
+   * { sampleRate: 0.1, sampleRates: { error: 1 } } // all errors, 10% of the rest
+   */
+  sampleRates?: Partial<Record<EventType, number>>;
+
   /**
    * Custom headers to include with every request.
    */
@@ -63,6 +242,73 @@ export interface TrackerConfig {
    * Defaults to 5000 (5 seconds).
    */
   flushInterval?: number;
+
+  /**
+   * Inactivity in milliseconds after which a new session is started.
+   * Defaults to 1800000 (30 minutes).
+   */
+  sessionTimeout?: number;
+
+  /**
+   * Whether to persist unsent events (IndexedDB, falling back to localStorage)
+   * and retry them with exponential backoff, including on the next page load.
+   * Defaults to true.
+   */
+  persistQueue?: boolean;
+
+  /**
+   * Maximum number of unsent events kept in storage. The oldest batches are
+   * dropped beyond this limit. Defaults to 500.
+   */
+  maxStoredEvents?: number;
+
+  /**
+   * Called with every event before it is queued. Return the event (modified
+   * or not) to send it, or null to drop it. Runs after the redaction rules
+   * below, so it sees the redacted URLs.
+   *
+   * @example
+   * beforeSend: (event) => (event.pathname.startsWith('/admin') ? null : event)
+   */
+  beforeSend?: (event: TrackerEvent) => TrackerEvent | null;
+
+  /**
+   * Remove query parameters from every URL sent - the page URL and referrer,
+   * and the resource, script, request, link and error URLs, including those
+   * in stack traces: `true` removes the whole query string, a list removes
+   * only the named parameters.
+   * Campaign (UTM) parameters are read before stripping. Defaults to none.
+   */
+  stripQueryParams?: boolean | string[];
+
+  /**
+   * Replace path segments that match with "*" in the pathname and every URL
+   * sent (see `stripQueryParams`), e.g. `/^\d+$/` turns "/orders/1234" into
+   * "/orders/*". Strings are regular expression sources that must match the
+   * whole segment.
+   */
+  maskPathSegments?: RegExp | string[];
+
+  /**
+   * Reduce the referrer to its origin, dropping path and query.
+   * Defaults to false.
+   */
+  stripReferrerPath?: boolean;
+}
+
+/**
+ * Consent categories. Page views, engagement, custom events, link clicks,
+ * frustration signals and form interactions are analytics; Web Vitals,
+ * long frames, resource timing and network requests are performance; and
+ * errors and error throttling stats are errors.
+ */
+export type ConsentCategory = 'analytics' | 'performance' | 'errors';
+
+export interface ConsentState {
+  /** `pending` until the site calls grantConsent() or revokeConsent() */
+  status: 'pending' | 'granted' | 'denied';
+  /** Categories events may currently be sent for */
+  categories: ConsentCategory[];
 }
 
 /**
@@ -71,6 +317,11 @@ export interface TrackerConfig {
 export interface BaseEvent {
   /** Event type identifier */
   type: EventType;
+  /**
+   * Unique event identifier. The backend stores an event that is sent
+   * more than once (e.g. retried after a lost response) only once.
+   */
+  event_id?: string;
   /** ISO 8601 timestamp */
   timestamp: string;
   /** Site identifier from config */
@@ -91,14 +342,44 @@ export interface BaseEvent {
   connection_type?: string;
   /** Tracker version */
   tracker_version: string;
+  /** Cookieless, rotating session identifier */
+  session_id: string;
+  /** Fraction of sessions this event type was sampled from */
+  sample_rate?: number;
 }
 
-export type EventType = 'pageview' | 'webvital' | 'error' | 'custom';
+export type EventType =
+  | 'pageview'
+  | 'webvital'
+  | 'error'
+  | 'custom'
+  | 'longframe'
+  | 'resources'
+  | 'network'
+  | 'errorstats'
+  | 'outbound'
+  | 'download'
+  | 'pageleave'
+  | 'frustration'
+  | 'form';
+
+/**
+ * Campaign attribution captured from the session's landing page URL.
+ */
+export interface Campaign {
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  utm_term?: string;
+  utm_content?: string;
+  /** Name of the ad click id parameter present (e.g. "gclid"), never its value */
+  click_id?: string;
+}
 
 /**
  * Page view event.
  */
-export interface PageViewEvent extends BaseEvent {
+export interface PageViewEvent extends BaseEvent, Campaign {
   type: 'pageview';
   /** Document title */
   title: string;
@@ -119,8 +400,157 @@ export interface WebVitalEvent extends BaseEvent {
   metric_rating: 'good' | 'needs-improvement' | 'poor';
   /** Unique metric ID for deduplication */
   metric_id: string;
-  /** Navigation type */
+  /** Navigation type, including "soft-navigation" and "back-forward-cache" */
   navigation_type?: string;
+  /** Page view the metric was measured on */
+  page_view_id?: string;
+  /** What caused the value, when the browser exposes it */
+  attribution?: VitalAttribution;
+}
+
+/**
+ * Web Vital attribution. Which fields are set depends on the metric:
+ *
+ * - LCP: `target`, `url` (image or video resource) and phases
+ *   `ttfb`, `load_delay`, `load_duration`, `render_delay`
+ * - INP: `target`, `event_type` and phases `input_delay`,
+ *   `processing`, `presentation`
+ * - CLS: `target` of the node that moved most in the largest shift
+ * - TTFB: phases `dns`, `connect`, `tls`, `server`
+ *
+ * Phases are durations in milliseconds.
+ */
+export interface VitalAttribution {
+  /** CSS selector of the element responsible */
+  target?: string;
+  /** Resource URL */
+  url?: string;
+  /** DOM event type of the interaction, e.g. "click" */
+  event_type?: string;
+  /** Breakdown of the value into consecutive phases */
+  phases?: Record<string, number>;
+}
+
+/**
+ * Main-thread jank during one page view. Re-sent with updated totals
+ * under the same `report_id` as the page view goes on.
+ */
+export interface LongFrameEvent extends BaseEvent {
+  type: 'longframe';
+  /** Page view the frames occurred on */
+  page_view_id?: string;
+  /** Identifies the page view's report */
+  report_id: string;
+  /** Which API measured the frames */
+  entry_type: 'long-animation-frame' | 'longtask';
+  /** Number of frames (or tasks) longer than 50ms */
+  frame_count: number;
+  /** Sum of the time each frame exceeded 50ms, in ms */
+  blocking_time: number;
+  /** Duration of the longest frame in ms */
+  worst_duration: number;
+  /** Longest scripts in the worst frames (Long Animation Frames only) */
+  scripts?: LongFrameScript[];
+}
+
+/**
+ * A script that ran during a long animation frame.
+ */
+export interface LongFrameScript {
+  source_url: string;
+  function_name?: string;
+  /** What called the script, e.g. "BUTTON#buy.onclick" or "Window.requestAnimationFrame" */
+  invoker?: string;
+  invoker_type?: string;
+  /** Script execution time in ms */
+  duration: number;
+  /** Duration of the frame it ran in, in ms */
+  frame_duration: number;
+}
+
+/**
+ * Resources loaded during one page view. Re-sent with an updated summary
+ * under the same `report_id` as the page view goes on.
+ */
+export interface ResourceEvent extends BaseEvent {
+  type: 'resources';
+  /** Page view the resources were loaded on */
+  page_view_id?: string;
+  /** Identifies the page view's report */
+  report_id: string;
+  /** Number of resources loaded */
+  resource_count: number;
+  /** Total transfer size in bytes (0 for cached and opaque cross-origin resources) */
+  transfer_size: number;
+  first_party_bytes: number;
+  third_party_bytes: number;
+  /** Resources that blocked the first render */
+  render_blocking_count: number;
+  /** Resources that responded with an HTTP error status */
+  failed_count: number;
+  /** Count and transfer size by initiator type, e.g. "script", "img", "fetch" */
+  initiators: Record<string, { count: number; transfer_size: number }>;
+  /** Hosts with the largest transfer size */
+  hosts: ResourceHost[];
+  /** The slowest resources, followed by other render-blocking and failed ones */
+  resources: ResourceTiming[];
+}
+
+/**
+ * Resources loaded from one host during a page view.
+ */
+export interface ResourceHost {
+  host: string;
+  /** Whether the host belongs to the page's site */
+  first_party: boolean;
+  count: number;
+  /** Transfer size in bytes */
+  transfer_size: number;
+  /** Sum of the resources' durations in ms */
+  duration: number;
+}
+
+/**
+ * A single resource load.
+ */
+export interface ResourceTiming {
+  /** Resource URL without query string or hash */
+  url: string;
+  host: string;
+  initiator_type: string;
+  /** Time from request start to response end in ms */
+  duration: number;
+  /** Transfer size in bytes */
+  transfer_size: number;
+  render_blocking?: boolean;
+  /** HTTP response status, where the browser exposes it */
+  status?: number;
+  /** Whether the response status was 400 or above */
+  failed?: boolean;
+}
+
+/**
+ * A fetch or XMLHttpRequest call made by the page.
+ */
+export interface NetworkEvent extends BaseEvent {
+  type: 'network';
+  /** Page view the request was made on */
+  page_view_id?: string;
+  /** HTTP method, upper case */
+  method: string;
+  /** Origin and path with id-like segments replaced by ":id", e.g. "https://api.example.com/users/:id" */
+  url_template: string;
+  host: string;
+  /** HTTP status, 0 when no response was received */
+  status: number;
+  /** Time until the response (fetch: headers, XMLHttpRequest: body) in ms */
+  duration: number;
+  /**
+   * How the request failed: `http` for a 4xx or 5xx status, `network` when
+   * no response was received, `timeout` or `abort`
+   */
+  failure_type?: 'http' | 'network' | 'timeout' | 'abort';
+  initiator: 'fetch' | 'xhr';
 }
 
 /**
@@ -138,6 +568,149 @@ export interface ErrorEvent extends BaseEvent {
   line?: number;
   /** Column number */
   column?: number;
+  /** What happened before the error, oldest first */
+  breadcrumbs?: Breadcrumb[];
+  /** Release the page's code was built from */
+  release?: string;
+  /** Identical errors merged into this event, when more than one */
+  occurrences?: number;
+  /** Severity; errors caught by the tracker are `error` */
+  level?: ErrorLevel;
+  /** Short values to filter errors by, e.g. `{ feature: 'checkout' }` */
+  tags?: Record<string, string>;
+  /** Additional context shown with the error */
+  extra?: Record<string, string | number | boolean>;
+}
+
+export type ErrorLevel = 'fatal' | 'error' | 'warning' | 'info';
+
+/**
+ * Context for an error reported with `captureException()`.
+ */
+export interface CaptureContext {
+  /** Defaults to `error` */
+  level?: ErrorLevel;
+  tags?: Record<string, string>;
+  extra?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Errors merged or dropped by the tracker's throttling during one page
+ * view. Re-sent with updated counts under the same `report_id`.
+ */
+export interface ErrorStatsEvent extends BaseEvent {
+  type: 'errorstats';
+  /** Page view the errors occurred on */
+  page_view_id?: string;
+  /** Identifies the page view's report */
+  report_id: string;
+  /** Duplicates merged into another error event's `occurrences` */
+  deduplicated: number;
+  /** Errors dropped by the per page view and per session caps */
+  rate_limited: number;
+  /** Errors dropped by `ignoreErrors` and `denyUrls` */
+  filtered: number;
+}
+
+/**
+ * Something that happened on the page before an error.
+ *
+ * - navigation: `message` is the new pathname, `data.from` the previous one
+ * - click: `message` is the clicked element's selector
+ * - console: `message` is the logged text
+ * - network: `message` is the method and URL template, `data` has
+ *   `status` and `duration`
+ * - custom: added with `tracker.addBreadcrumb()`
+ */
+export interface Breadcrumb {
+  type: 'navigation' | 'click' | 'console' | 'network' | 'custom';
+  /** ISO 8601 timestamp */
+  timestamp: string;
+  message: string;
+  level?: 'info' | 'warning' | 'error';
+  data?: Record<string, string | number | boolean>;
+}
+
+/**
+ * A click on a link to another host (`outbound`) or to a file (`download`).
+ */
+export interface LinkClickEvent extends BaseEvent {
+  type: 'outbound' | 'download';
+  /** Page view the link was clicked on */
+  page_view_id?: string;
+  /** The link's origin and path, without query string or hash */
+  link_url: string;
+  /** The link's host */
+  link_host: string;
+  /** For downloads, the file extension (lowercase, without the dot) */
+  file_extension?: string;
+}
+
+/**
+ * Engagement on a page view so far, updating the page view. Re-sent with
+ * the running totals each time the page is hidden.
+ */
+export interface PageLeaveEvent extends BaseEvent {
+  type: 'pageleave';
+  /** Page view the engagement was measured on */
+  page_view_id?: string;
+  /** Milliseconds the page was in the foreground, focused and recently interacted with */
+  engaged_time: number;
+  /** Furthest point of the page scrolled into view, in percent */
+  scroll_depth: number;
+}
+
+/**
+ * A click suggesting the visitor is frustrated.
+ *
+ * - rage: `click_count` clicks in quick succession on the same spot
+ * - dead: a click on a button or link that changed nothing
+ * - error: a click immediately followed by an uncaught error
+ */
+export interface FrustrationEvent extends BaseEvent {
+  type: 'frustration';
+  /** Page view the click happened on */
+  page_view_id?: string;
+  signal: 'rage' | 'dead' | 'error';
+  /** CSS selector of the clicked element */
+  selector: string;
+  /** For rage clicks, the number of clicks in the burst */
+  click_count?: number;
+}
+
+/**
+ * How a visitor interacted with one field of a form. Never its value.
+ */
+export interface FormField {
+  /** The field's name or id */
+  name: string;
+  /** Position in the order the form's fields were first focused, from 1 */
+  order: number;
+  /** Milliseconds the field was focused */
+  time: number;
+  /** Times the field failed validation or was marked `aria-invalid` */
+  errors: number;
+}
+
+/**
+ * A visitor starting, submitting or abandoning a form. Re-sent under the
+ * same `report_id` as the interaction goes on; the latest report stands.
+ */
+export interface FormEvent extends BaseEvent {
+  type: 'form';
+  /** Page view the form was filled in on */
+  page_view_id?: string;
+  /** Identifies this interaction with the form */
+  report_id: string;
+  /** The form's `data-oo-form` attribute, id or name */
+  form_id: string;
+  action: 'start' | 'submit' | 'abandon';
+  /** Fields in the order they were first focused; not sent on start */
+  fields?: FormField[];
+  /** The field focused last */
+  last_field?: string;
+  /** Milliseconds since the form was started */
+  duration: number;
 }
 
 /**
@@ -151,4 +724,79 @@ export interface CustomEvent extends BaseEvent {
   properties?: Record<string, string | number | boolean>;
 }
 
-export type TrackerEvent = PageViewEvent | WebVitalEvent | ErrorEvent | CustomEvent;
+export type TrackerEvent =
+  | PageViewEvent
+  | WebVitalEvent
+  | ErrorEvent
+  | CustomEvent
+  | LongFrameEvent
+  | ResourceEvent
+  | NetworkEvent
+  | ErrorStatsEvent
+  | LinkClickEvent
+  | PageLeaveEvent
+  | FrustrationEvent
+  | FormEvent;
+
+/**
+ * A collector that measures per page view and is told about SPA route
+ * changes and bfcache restores.
+ */
+export interface PageViewCollector {
+  /** Report what has been measured for the current page view */
+  finalize(): void;
+  /**
+   * Start measuring a new page view. `restoredAt` is the pageshow event's
+   * timestamp when the page was restored from bfcache.
+   */
+  reset(restoredAt?: number): void;
+}
+
+/**
+ * What an optional feature (see load.ts) is given by the tracker that
+ * loaded it.
+ */
+export interface FeatureHost {
+  readonly config: TrackerConfig;
+  /** Send a measurement taken on the current page view */
+  report(data: { type: EventType }): void;
+  /** Send a complete event, subject to consent and sampling */
+  send(event: TrackerEvent): void;
+  trackEvent(name: string, properties?: Record<string, string>): void;
+  /** Send queued events right away with a beacon, e.g. before a navigation */
+  flush(): void;
+  /** Tell a collector about route changes and bfcache restores */
+  collect(collector: PageViewCollector): void;
+  addBreadcrumb(breadcrumb: Omit<Breadcrumb, 'timestamp'>): void;
+  /** Count an error against the session, returning the session's total */
+  countError(): number;
+  /** Fields every event carries, as of now */
+  getBaseFields(): BaseEvent;
+  /** Tell the tracker the URL changed without loading a new page */
+  routeChange(): void;
+}
+
+/**
+ * Reasons the ingest endpoint may reject an event. Only `insert_failed`
+ * is transient and worth retrying.
+ */
+export type RejectionReason =
+  | 'missing_field'
+  | 'unknown_type'
+  | 'invalid_metric'
+  | 'unknown_site'
+  | 'unknown_page_view'
+  | 'insert_failed';
+
+/**
+ * Response body returned by the ingest endpoint for a batch.
+ */
+export interface IngestResult {
+  status: 'ok' | 'partial';
+  /** Number of events stored */
+  accepted: number;
+  /** Number of events not stored */
+  rejected: number;
+  /** One entry per rejected event, referencing its index in the batch */
+  errors: Array<{ index: number; reason: RejectionReason; message: string }>;
+}
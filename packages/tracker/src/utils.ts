@@ -1,3 +1,5 @@
+import { stripClickIds } from './campaign';
+
 /**
  * Generate a short random identifier.
  * Uses crypto.randomUUID where available, falls back to Math.random.
@@ -23,17 +25,17 @@ export function getPathname(): string {
 }
 
 /**
- * Get the full URL without hash for the current page.
+ * Get the full URL without hash or ad click ids for the current page.
  */
 export function getUrl(): string {
-  return window.location.origin + window.location.pathname + window.location.search;
+  return stripClickIds(window.location.origin + window.location.pathname + window.location.search);
 }
 
 /**
- * Get the referrer, or empty string if not available.
+ * Get the referrer without ad click ids, or empty string if not available.
  */
 export function getReferrer(): string {
-  return document.referrer || '';
+  return stripClickIds(document.referrer || '');
 }
 
 /**
@@ -79,6 +81,14 @@ export function isDNTEnabled(): boolean {
   return nav.doNotTrack === '1' || nav.doNotTrack === 'yes';
 }
 
+/**
+ * Check if the Global Privacy Control signal is set.
+ */
+export function isGPCEnabled(): boolean {
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+  return nav.globalPrivacyControl === true;
+}
+
 /**
  * Check if we are in a browser environment.
  */
@@ -86,6 +96,32 @@ export function isBrowser(): boolean {
   return typeof window !== 'undefined' && typeof document !== 'undefined';
 }
 
+/**
+ * Build a short CSS selector identifying an element, e.g.
+ * "main > div.hero > img#banner". Walks up at most five levels and stops
+ * at the first ancestor with an id.
+ */
+export function getSelector(node: Node | null | undefined): string | undefined {
+  const parts: string[] = [];
+  let el = node instanceof Element ? node : node?.parentElement;
+
+  while (el && parts.length < 5 && el !== document.documentElement) {
+    let part = el.tagName.toLowerCase();
+    if (el.id) {
+      parts.unshift(part + '#' + el.id);
+      break;
+    }
+    const classes = Array.from(el.classList).slice(0, 2);
+    if (classes.length > 0) {
+      part += '.' + classes.join('.');
+    }
+    parts.unshift(part);
+    el = el.parentElement;
+  }
+
+  return parts.length > 0 ? truncate(parts.join(' > '), 200) : undefined;
+}
+
 /**
  * Truncate a string to a maximum length.
  */
@@ -93,3 +129,15 @@ export function truncate(str: string, maxLength: number): string {
   if (str.length <= maxLength) return str;
   return str.slice(0, maxLength) + '...';
 }
+
+/**
+ * Whether a value matches one of the patterns. Strings match anywhere in
+ * the value; regular expressions are tested against the whole value.
+ */
+export function matchesAny(value: string, patterns: Array<string | RegExp>): boolean {
+  return patterns.some((pattern) => {
+    if (typeof pattern === 'string') return value.includes(pattern);
+    pattern.lastIndex = 0;
+    return pattern.test(value);
+  });
+}
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { collectWebVitals } from './web-vitals';
+import type { InteractionEntry } from './inp';
+
+/** PerformanceObserver that only supports event timing, fed by the tests */
+class FakeObserver {
+  static supportedEntryTypes = ['event', 'first-input'];
+  static observers: FakeObserver[] = [];
+
+  options?: PerformanceObserverInit;
+
+  constructor(private callback: (list: { getEntries(): unknown[] }) => void) {
+    FakeObserver.observers.push(this);
+  }
+
+  observe(options: PerformanceObserverInit): void {
+    this.options = options;
+  }
+
+  static emit(type: string, entries: InteractionEntry[]): void {
+    for (const observer of FakeObserver.observers) {
+      if (observer.options?.type === type) {
+        observer.callback({ getEntries: () => entries });
+      }
+    }
+  }
+}
+
+function interaction(id: number | undefined, duration: number, name = 'click'): InteractionEntry {
+  return { name, startTime: 1000, duration, interactionId: id };
+}
+
+describe('INP', () => {
+  let performanceStub: { interactionCount?: number; getEntriesByType: () => unknown[] };
+  let vitals: ReturnType<typeof vi.fn>;
+  let collector: ReturnType<typeof collectWebVitals>;
+
+  /** Report the page's metrics and return the INP reported, if any */
+  const reportINP = () => {
+    vitals.mockClear();
+    collector.finalize();
+    return vitals.mock.calls.map(([vital]) => vital).find((vital) => vital.metric_name === 'INP');
+  };
+
+  beforeEach(() => {
+    FakeObserver.observers = [];
+    performanceStub = { getEntriesByType: () => [] };
+    vi.stubGlobal('PerformanceObserver', FakeObserver);
+    vi.stubGlobal('performance', performanceStub);
+    vi.stubGlobal('Element', class {});
+    vi.stubGlobal('document', new EventTarget());
+    vi.stubGlobal('window', new EventTarget());
+
+    vitals = vi.fn();
+    collector = collectWebVitals(vitals);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('observes event timing from the lowest duration threshold browsers accept', () => {
+    const events = FakeObserver.observers.find((observer) => observer.options?.type === 'event');
+    expect(events?.options).toMatchObject({ buffered: true, durationThreshold: 40 });
+  });
+
+  it('groups entries by interactionId and takes the longest of each', () => {
+    FakeObserver.emit('event', [
+      interaction(1, 80, 'pointerdown'),
+      interaction(1, 160, 'click'),
+      interaction(2, 120),
+      // Hovers and scrolls have no interactionId
+      interaction(undefined, 400, 'pointerover'),
+    ]);
+
+    expect(reportINP()).toMatchObject({
+      metric_value: 160,
+      metric_rating: 'good',
+      attribution: { event_type: 'click' },
+    });
+  });
+
+  it('skips one of the worst interactions per 50 on the page', () => {
+    FakeObserver.emit(
+      'event',
+      [500, 400, 300, 200, 100].map((duration, i) => interaction(i + 1, duration)),
+    );
+
+    performanceStub.interactionCount = 49;
+    expect(reportINP()?.metric_value).toBe(500);
+
+    performanceStub.interactionCount = 50;
+    expect(reportINP()?.metric_value).toBe(400);
+
+    // interactionCount includes the interactions below the threshold
+    performanceStub.interactionCount = 120;
+    expect(reportINP()?.metric_value).toBe(300);
+  });
+
+  it('never skips past the interactions kept', () => {
+    FakeObserver.emit('event', [interaction(1, 250), interaction(2, 90)]);
+    performanceStub.interactionCount = 500;
+
+    expect(reportINP()?.metric_value).toBe(90);
+  });
+
+  it('counts the first input when no interaction passed the threshold', () => {
+    FakeObserver.emit('first-input', [{ name: 'keydown', startTime: 500, duration: 24 }]);
+
+    expect(reportINP()).toMatchObject({ metric_value: 24, attribution: { event_type: 'keydown' } });
+  });
+
+  it('merges the first input into its interaction', () => {
+    FakeObserver.emit('first-input', [interaction(7, 56, 'pointerdown')]);
+    FakeObserver.emit('event', [interaction(7, 72, 'click')]);
+
+    expect(reportINP()?.metric_value).toBe(72);
+  });
+
+  it('reports nothing without interactions', () => {
+    expect(reportINP()).toBeUndefined();
+  });
+
+  it('starts over on a route change, counting only its interactions', () => {
+    FakeObserver.emit('event', [interaction(1, 600)]);
+    performanceStub.interactionCount = 100;
+    collector.reset();
+
+    FakeObserver.emit('event', [interaction(2, 300), interaction(3, 150)]);
+    performanceStub.interactionCount = 102;
+
+    expect(reportINP()?.metric_value).toBe(300);
+  });
+});
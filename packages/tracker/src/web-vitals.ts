@@ -8,24 +8,39 @@
  * full `web-vitals` library while still capturing the key metrics.
  */
 
-import type { WebVitalEvent } from './types';
-import { generateId } from './utils';
+import type { FeatureHost, PageViewCollector, VitalAttribution, WebVitalEvent } from './types';
+import { InteractionTracker, longestEntry, type InteractionEntry } from './inp';
+import { generateId, getSelector, truncate } from './utils';
 
 type MetricCallback = (metric: {
   name: string;
   value: number;
   rating: 'good' | 'needs-improvement' | 'poor';
   id: string;
-  navigationType: string;
+  attribution?: VitalAttribution;
 }) => void;
 
-interface PerformanceEntryWithProcessingStart extends PerformanceEntry {
-  processingStart?: number;
+/**
+ * Measures one metric for the current page view.
+ */
+interface Collector {
+  /** Report the value measured so far */
+  report?(): void;
+  /** Start over for a new page view */
+  reset?(): void;
+  /** Measure the metric for a page restored from bfcache at `timeStamp` */
+  restore?(timeStamp: number): void;
+}
+
+interface LargestContentfulPaintEntry extends PerformanceEntry {
+  element?: Element | null;
+  url?: string;
 }
 
 interface LayoutShiftEntry extends PerformanceEntry {
   hadRecentInput?: boolean;
   value: number;
+  sources?: Array<{ node?: Node | null; currentRect?: DOMRectReadOnly }>;
 }
 
 /**
@@ -59,10 +74,36 @@ function getNavigationType(): string {
   return 'navigate';
 }
 
+function getNavigationEntry(): PerformanceNavigationTiming | undefined {
+  if (typeof performance === 'undefined' || !performance.getEntriesByType) return undefined;
+  return (performance.getEntriesByType('navigation') as PerformanceNavigationTiming[])[0];
+}
+
+/**
+ * Round phase durations to whole milliseconds, clamping clock skew to zero.
+ */
+function phases(values: Record<string, number>): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const key in values) {
+    result[key] = Math.max(0, Math.round(values[key]));
+  }
+  return result;
+}
+
+/**
+ * Time from a bfcache restore until the next frame is painted. Restored
+ * pages have no paint entries, so this stands in for FCP and LCP.
+ */
+function measureRestore(timeStamp: number, callback: (value: number) => void): void {
+  requestAnimationFrame(() => {
+    requestAnimationFrame(() => callback(Math.max(0, performance.now() - timeStamp)));
+  });
+}
+
 function observe(
   type: string,
   callback: (entries: PerformanceEntryList) => void,
-  options?: { buffered?: boolean },
+  options?: { buffered?: boolean; durationThreshold?: number },
 ): PerformanceObserver | undefined {
   try {
     if (typeof PerformanceObserver === 'undefined') return undefined;
@@ -77,7 +118,8 @@ function observe(
     observer.observe({
       type,
       buffered: options?.buffered ?? true,
-    });
+      durationThreshold: options?.durationThreshold,
+    } as PerformanceObserverInit);
 
     return observer;
   } catch {
@@ -88,14 +130,18 @@ function observe(
 /**
  * Collect Largest Contentful Paint.
  */
-function collectLCP(onMetric: MetricCallback): void {
+function collectLCP(onMetric: MetricCallback): Collector {
   let lastValue = 0;
-  const id = generateId();
+  let lastEntry: LargestContentfulPaintEntry | undefined;
+  let id = generateId();
+  // Browsers only report LCP for the document load, not soft navigations
+  let active = true;
 
   observe('largest-contentful-paint', (entries) => {
-    const lastEntry = entries[entries.length - 1];
-    if (lastEntry) {
-      lastValue = lastEntry.startTime;
+    const entry = entries[entries.length - 1] as LargestContentfulPaintEntry | undefined;
+    if (entry && active) {
+      lastValue = entry.startTime;
+      lastEntry = entry;
     }
   });
 
@@ -107,50 +153,107 @@ function collectLCP(onMetric: MetricCallback): void {
         value: lastValue,
         rating: rate('LCP', lastValue),
         id,
-        navigationType: getNavigationType(),
+        attribution: lastEntry && attributeLCP(lastEntry),
       });
     }
   };
 
-  document.addEventListener('visibilitychange', () => {
-    if (document.visibilityState === 'hidden') {
-      report();
-    }
-  });
+  return {
+    report,
+    reset: () => {
+      lastValue = 0;
+      lastEntry = undefined;
+      id = generateId();
+      active = false;
+    },
+    restore: (timeStamp) =>
+      measureRestore(timeStamp, (value) => {
+        lastValue = value;
+        report();
+      }),
+  };
+}
 
-  // Also fire on pagehide for reliability
-  window.addEventListener('pagehide', report);
+/**
+ * Break LCP down into time to first byte, the delay before the LCP
+ * resource started loading, its load time, and the delay until it rendered.
+ */
+function attributeLCP(entry: LargestContentfulPaintEntry): VitalAttribution {
+  const attribution: VitalAttribution = { target: getSelector(entry.element) };
+  const navEntry = getNavigationEntry();
+  if (!navEntry) return attribution;
+
+  let resource: PerformanceResourceTiming | undefined;
+  if (entry.url) {
+    attribution.url = truncate(entry.url, 500);
+    resource = (performance.getEntriesByType('resource') as PerformanceResourceTiming[]).find(
+      (r) => r.name === entry.url,
+    );
+  }
+
+  const ttfb = navEntry.responseStart;
+  const requestStart = Math.max(ttfb, resource ? resource.requestStart || resource.startTime : 0);
+  const responseEnd = Math.max(requestStart, resource ? resource.responseEnd : 0);
+
+  attribution.phases = phases({
+    ttfb,
+    load_delay: requestStart - ttfb,
+    load_duration: responseEnd - requestStart,
+    render_delay: Math.max(responseEnd, entry.startTime) - responseEnd,
+  });
+  return attribution;
 }
 
 /**
  * Collect First Contentful Paint.
  */
-function collectFCP(onMetric: MetricCallback): void {
-  const id = generateId();
+function collectFCP(onMetric: MetricCallback): Collector {
+  let id = generateId();
+  let active = true;
+
+  const report = (value: number) => {
+    onMetric({
+      name: 'FCP',
+      value,
+      rating: rate('FCP', value),
+      id,
+    });
+  };
 
   observe('paint', (entries) => {
     for (const entry of entries) {
-      if (entry.name === 'first-contentful-paint') {
-        onMetric({
-          name: 'FCP',
-          value: entry.startTime,
-          rating: rate('FCP', entry.startTime),
-          id,
-          navigationType: getNavigationType(),
-        });
+      if (entry.name === 'first-contentful-paint' && active) {
+        report(entry.startTime);
       }
     }
   });
+
+  return {
+    reset: () => {
+      id = generateId();
+      active = false;
+    },
+    restore: (timeStamp) => measureRestore(timeStamp, report),
+  };
 }
 
 /**
  * Collect Cumulative Layout Shift.
  */
-function collectCLS(onMetric: MetricCallback): void {
+function collectCLS(onMetric: MetricCallback): Collector {
   let clsValue = 0;
   let sessionValue = 0;
   let sessionEntries: LayoutShiftEntry[] = [];
-  const id = generateId();
+  // Largest single shift in the worst session window so far
+  let clsEntry: LayoutShiftEntry | undefined;
+  let id = generateId();
+
+  const closeWindow = () => {
+    if (sessionValue > clsValue) {
+      clsValue = sessionValue;
+      clsEntry = sessionEntries.reduce((a, b) => (b.value > a.value ? b : a));
+    }
+  };
 
   observe('layout-shift', (entries) => {
     for (const rawEntry of entries) {
@@ -166,9 +269,7 @@ function collectCLS(onMetric: MetricCallback): void {
           (entry.startTime - lastSessionEntry!.startTime > 1000 ||
             entry.startTime - firstSessionEntry!.startTime > 5000)
         ) {
-          if (sessionValue > clsValue) {
-            clsValue = sessionValue;
-          }
+          closeWindow();
           sessionValue = 0;
           sessionEntries = [];
         }
@@ -180,73 +281,119 @@ function collectCLS(onMetric: MetricCallback): void {
   });
 
   const report = () => {
-    if (sessionValue > clsValue) {
-      clsValue = sessionValue;
-    }
+    closeWindow();
     if (clsValue > 0) {
       onMetric({
         name: 'CLS',
         value: clsValue,
         rating: rate('CLS', clsValue),
         id,
-        navigationType: getNavigationType(),
+        attribution: clsEntry && { target: getSelector(largestSource(clsEntry)) },
       });
     }
   };
 
-  document.addEventListener('visibilitychange', () => {
-    if (document.visibilityState === 'hidden') {
-      report();
-    }
-  });
+  return {
+    report,
+    reset: () => {
+      clsValue = 0;
+      sessionValue = 0;
+      sessionEntries = [];
+      clsEntry = undefined;
+      id = generateId();
+    },
+  };
+}
 
-  window.addEventListener('pagehide', report);
+/**
+ * The node of a layout shift that covered the largest area after moving.
+ */
+function largestSource(entry: LayoutShiftEntry): Node | null | undefined {
+  let largest: Node | null | undefined;
+  let largestArea = -1;
+  for (const source of entry.sources ?? []) {
+    const area = source.currentRect ? source.currentRect.width * source.currentRect.height : 0;
+    if (source.node && area > largestArea) {
+      largest = source.node;
+      largestArea = area;
+    }
+  }
+  return largest;
 }
 
 /**
  * Collect Interaction to Next Paint.
  */
-function collectINP(onMetric: MetricCallback): void {
-  let maxDuration = 0;
-  const id = generateId();
+function collectINP(onMetric: MetricCallback): Collector {
+  const interactions = new InteractionTracker();
+  let id = generateId();
+  // performance.interactionCount keeps counting across page views
+  let interactionCountOffset = 0;
+
+  // 40ms is the lowest threshold browsers accept; faster interactions
+  // cannot be the INP of a page that has any slow ones
+  observe(
+    'event',
+    (entries) => interactions.add(entries as unknown as InteractionEntry[]),
+    { buffered: true, durationThreshold: 40 },
+  );
 
-  observe('event', (entries) => {
-    for (const rawEntry of entries) {
-      const entry = rawEntry as PerformanceEntryWithProcessingStart;
-      if (entry.processingStart) {
-        const duration = entry.duration;
-        if (duration > maxDuration) {
-          maxDuration = duration;
-        }
-      }
+  observe('first-input', (entries) => {
+    for (const entry of entries) {
+      interactions.addFirstInput(entry as unknown as InteractionEntry);
     }
   });
 
   const report = () => {
-    if (maxDuration > 0) {
+    const inp = interactions.estimate(getInteractionCount() - interactionCountOffset);
+    if (inp) {
       onMetric({
         name: 'INP',
-        value: maxDuration,
-        rating: rate('INP', maxDuration),
+        value: inp.latency,
+        rating: rate('INP', inp.latency),
         id,
-        navigationType: getNavigationType(),
+        attribution: attributeINP(longestEntry(inp)),
       });
     }
   };
 
-  document.addEventListener('visibilitychange', () => {
-    if (document.visibilityState === 'hidden') {
-      report();
-    }
-  });
+  return {
+    report,
+    reset: () => {
+      interactions.reset();
+      id = generateId();
+      interactionCountOffset = getInteractionCount();
+    },
+  };
+}
+
+/**
+ * Split an interaction into the wait before its handlers ran, the handlers
+ * themselves, and the time until the next frame was painted.
+ */
+function attributeINP(entry: InteractionEntry): VitalAttribution {
+  const processingStart = entry.processingStart ?? entry.startTime;
+  const processingEnd = entry.processingEnd ?? processingStart;
+
+  return {
+    target: getSelector(entry.target),
+    event_type: entry.name,
+    phases: phases({
+      input_delay: processingStart - entry.startTime,
+      processing: processingEnd - processingStart,
+      presentation: entry.startTime + entry.duration - processingEnd,
+    }),
+  };
+}
 
-  window.addEventListener('pagehide', report);
+function getInteractionCount(): number {
+  return (performance as Performance & { interactionCount?: number }).interactionCount ?? 0;
 }
 
 /**
  * Collect Time to First Byte.
  */
-function collectTTFB(onMetric: MetricCallback): void {
+function collectTTFB(onMetric: MetricCallback): Collector {
   const id = generateId();
 
   observe(
@@ -261,22 +408,49 @@ function collectTTFB(onMetric: MetricCallback): void {
             value: ttfb,
             rating: rate('TTFB', ttfb),
             id,
-            navigationType: getNavigationType(),
+            attribution: {
+              // secureConnectionStart is 0 for plain HTTP and reused connections
+              phases: phases({
+                dns: navEntry.domainLookupEnd - navEntry.domainLookupStart,
+                connect: navEntry.connectEnd - navEntry.connectStart,
+                tls: navEntry.secureConnectionStart
+                  ? navEntry.connectEnd - navEntry.secureConnectionStart
+                  : 0,
+                server: navEntry.responseStart - navEntry.requestStart,
+              }),
+            },
           });
         }
       }
     },
     { buffered: true },
   );
+
+  // Soft navigations and bfcache restores make no request
+  return {};
+}
+
+/**
+ * Entry point of the Web Vitals feature (see load.ts).
+ */
+export function setup(host: FeatureHost): void {
+  host.collect(collectWebVitals((data) => host.report(data)));
 }
 
 /**
  * Start collecting all Web Vitals metrics.
  * Calls the provided callback for each metric as it becomes available.
+ *
+ * Metrics are measured per page view. The returned controller reports the
+ * current page view's metrics before an SPA route change and starts fresh
+ * measurements for the next one; all metrics are also reported when the
+ * page is hidden.
  */
 export function collectWebVitals(
-  onVital: (event: Pick<WebVitalEvent, 'type' | 'metric_name' | 'metric_value' | 'metric_rating' | 'metric_id' | 'navigation_type'>) => void,
-): void {
+  onVital: (event: Pick<WebVitalEvent, 'type' | 'metric_name' | 'metric_value' | 'metric_rating' | 'metric_id' | 'navigation_type' | 'attribution'>) => void,
+): PageViewCollector {
+  let navigationType = getNavigationType();
+
   const handler: MetricCallback = (metric) => {
     onVital({
       type: 'webvital',
@@ -284,13 +458,44 @@ export function collectWebVitals(
       metric_value: metric.value,
       metric_rating: metric.rating,
       metric_id: metric.id,
-      navigation_type: metric.navigationType,
+      navigation_type: navigationType,
+      attribution: metric.attribution,
     });
   };
 
-  collectLCP(handler);
-  collectFCP(handler);
-  collectCLS(handler);
-  collectINP(handler);
-  collectTTFB(handler);
+  const collectors = [
+    collectLCP(handler),
+    collectFCP(handler),
+    collectCLS(handler),
+    collectINP(handler),
+    collectTTFB(handler),
+  ];
+
+  const finalize = () => {
+    for (const collector of collectors) {
+      collector.report?.();
+    }
+  };
+
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') {
+      finalize();
+    }
+  });
+
+  // Also fire on pagehide for reliability
+  window.addEventListener('pagehide', finalize);
+
+  return {
+    finalize,
+    reset: (restoredAt) => {
+      navigationType = restoredAt === undefined ? 'soft-navigation' : 'back-forward-cache';
+      for (const collector of collectors) {
+        collector.reset?.();
+        if (restoredAt !== undefined) {
+          collector.restore?.(restoredAt);
+        }
+      }
+    },
+  };
 }
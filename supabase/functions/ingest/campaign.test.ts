@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { stripClickIds } from './campaign.ts';
+
+describe('stripClickIds', () => {
+  it('removes every click id and keeps other parameters', () => {
+    expect(
+      stripClickIds('https://example.com/pricing?gclid=abc&plan=pro&fbclid=def&li_fat_id=ghi'),
+    ).toBe('https://example.com/pricing?plan=pro');
+  });
+
+  it('drops the query string when only click ids were in it', () => {
+    expect(stripClickIds('https://example.com/landing?ttclid=abc&twclid=def')).toBe(
+      'https://example.com/landing',
+    );
+  });
+
+  it('keeps the fragment', () => {
+    expect(stripClickIds('https://example.com/?dclid=abc#pricing')).toBe(
+      'https://example.com/#pricing',
+    );
+  });
+
+  it('leaves URLs without click ids as they were', () => {
+    const url = 'https://example.com/search?q=a+b&gclid_source=1';
+    expect(stripClickIds(url)).toBe(url);
+  });
+
+  it('returns values that are not URLs unchanged', () => {
+    expect(stripClickIds('')).toBe('');
+    expect(stripClickIds('not a url?gclid=abc')).toBe('not a url?gclid=abc');
+  });
+});
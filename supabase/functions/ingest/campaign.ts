@@ -0,0 +1,42 @@
+/**
+ * Ad click ids.
+ *
+ * Click ids are unique per click and would make visitors linkable across
+ * systems. Page views keep only the name of the parameter that carried
+ * one (e.g. "gclid"); the values are stripped from every stored URL,
+ * including those sent by trackers that did not strip them yet.
+ */
+
+export const CLICK_ID_PARAMS = new Set([
+  'gclid',
+  'gbraid',
+  'wbraid',
+  'dclid',
+  'fbclid',
+  'msclkid',
+  'ttclid',
+  'twclid',
+  'li_fat_id',
+]);
+
+/**
+ * Remove click id parameters from a URL's query string, keeping the rest
+ * of the URL as it was. Values that are not absolute URLs are returned
+ * unchanged.
+ */
+export function stripClickIds(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+
+  const names = [...parsed.searchParams.keys()].filter((name) => CLICK_ID_PARAMS.has(name));
+  if (names.length === 0) return url;
+
+  for (const name of names) {
+    parsed.searchParams.delete(name);
+  }
+  return parsed.href;
+}
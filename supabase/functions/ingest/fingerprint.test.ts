@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { fingerprintError } from './fingerprint.ts';
+
+const v8Error = {
+  message: "Cannot read properties of undefined (reading 'id')",
+  stack: [
+    "TypeError: Cannot read properties of undefined (reading 'id')",
+    '    at renderUser (https://example.com/assets/app.3f9a1c2b.js?v=2:1:2345)',
+    '    at chrome-extension://abcdefghijklmnop/content.js:10:5',
+    '    at Array.map (<anonymous>)',
+    '    at https://example.com/assets/app.3f9a1c2b.js:1:999',
+    '    at loadPage (https://example.com/assets/vendor.js:4:20)',
+    '    at boot (https://example.com/assets/main.js:1:1)',
+  ].join('\n'),
+  source: 'https://example.com/assets/app.3f9a1c2b.js',
+};
+
+describe('fingerprintError', () => {
+  // Digests of the first fingerprint version. Issues are keyed by them, so
+  // these must never change.
+  it('keeps the fingerprints of existing issues', async () => {
+    expect(await fingerprintError(v8Error)).toBe(
+      'a829213de2283cf92c377567f061ebfe90e2eaa8009598e7a63ac6b9e914c149',
+    );
+    expect(
+      await fingerprintError({
+        message: 'Uncaught Error: Order 1234 failed',
+        stack:
+          'renderUser@https://example.com/assets/app.77aa88bb.js:1:2345\n' +
+          '@https://example.com/assets/app.77aa88bb.js:1:999\n',
+        source: null,
+      }),
+    ).toBe('33f7ad3e912eb3a1bb913ce7beafd0bcc47967276624a515ef1fab5b2a885765');
+    expect(await fingerprintError({ message: 'Script error.', stack: null, source: null })).toBe(
+      '0464bd1a9f3a146ab9cb1ca0112e05faec296b7a84985dc718d518acac9dfe55',
+    );
+  });
+
+  it('ignores positions, query strings and content hashes', async () => {
+    const redeployed = {
+      ...v8Error,
+      stack: v8Error.stack.replace(/3f9a1c2b/g, '0c1d2e3f').replace(/:1:2345/, ':1:4000'),
+      source: 'https://example.com/assets/app.0c1d2e3f.js?v=3',
+    };
+    expect(await fingerprintError(redeployed)).toBe(await fingerprintError(v8Error));
+  });
+
+  it('replaces variable values in the message', async () => {
+    const a = await fingerprintError({ message: 'Order 1234 failed at https://a.test/x' });
+    const b = await fingerprintError({ message: 'Uncaught Order 98 failed at https://b.test/y' });
+    expect(a).toBe(b);
+  });
+
+  it('ignores function names, which minifiers change between builds', async () => {
+    const rebuilt = {
+      ...v8Error,
+      stack: v8Error.stack.replace('renderUser', 'n').replace('loadPage', 'a'),
+    };
+    expect(await fingerprintError(rebuilt)).toBe(await fingerprintError(v8Error));
+  });
+
+  it('only uses the top three in-app frames', async () => {
+    const deeper = {
+      ...v8Error,
+      stack: v8Error.stack + '\n    at main (https://example.com/x.js:1:1)',
+    };
+    expect(await fingerprintError(deeper)).toBe(await fingerprintError(v8Error));
+
+    const otherCaller = { ...v8Error, stack: v8Error.stack.replace('vendor.js', 'router.js') };
+    expect(await fingerprintError(otherCaller)).not.toBe(await fingerprintError(v8Error));
+  });
+});
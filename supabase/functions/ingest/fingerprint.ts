@@ -0,0 +1,107 @@
+/**
+ * Error fingerprinting.
+ *
+ * Errors with the same fingerprint are occurrences of one issue. The
+ * fingerprint is built from parts that stay the same when an error
+ * recurs - the message with variable values replaced, the files of the
+ * top in-app stack frames and the source file - and leaves out what
+ * changes between occurrences or deploys: line and column numbers, query
+ * strings, content hashes in bundle file names and function names, which
+ * production bundles minify differently in each build.
+ */
+
+/** Stack frames from the page's own code that go into the fingerprint */
+const MAX_IN_APP_FRAMES = 3;
+
+/** Scripts injected by browser extensions are not part of the site */
+const EXTENSION_URL = /^(?:chrome|moz|safari(?:-web)?|ms-browser)-extension:\/\//;
+
+/**
+ * Replacements applied to messages so that values such as ids, URLs and
+ * numbers do not split one issue into many. Quoted names are kept: in
+ * "Cannot read properties of undefined (reading 'id')" they tell issues apart.
+ */
+const MESSAGE_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/^Uncaught\s+/, ''],
+  [/https?:\/\/\S+/g, '<url>'],
+  [/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>'],
+  [/\b0x[0-9a-f]+\b/gi, '<hex>'],
+  [/\b[0-9a-f]{16,}\b/gi, '<hex>'],
+  [/\d+(?:\.\d+)?/g, '<n>'],
+  [/\s+/g, ' '],
+];
+
+export interface FingerprintInput {
+  message: string;
+  stack?: string | null;
+  source?: string | null;
+}
+
+/**
+ * Compute an error's fingerprint: a hex SHA-256 of its normalized
+ * message, the files of its top in-app frames and its source file.
+ */
+export async function fingerprintError(error: FingerprintInput): Promise<string> {
+  const parts = [
+    normalizeMessage(error.message),
+    ...inAppFrames(error.stack ?? ''),
+    error.source ? normalizeFile(error.source) : '',
+  ];
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(parts.join('\n')));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function normalizeMessage(message: string): string {
+  let normalized = message;
+  for (const [pattern, replacement] of MESSAGE_REPLACEMENTS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+  return normalized.trim();
+}
+
+/**
+ * The files of the top frames of a stack trace that come from the site's
+ * own scripts. Frames from extensions, native code and eval are skipped.
+ * Stacks reach ingest unsymbolicated, so function names are left out.
+ * Understands V8 ("at fn (file:1:2)") and SpiderMonkey/JavaScriptCore
+ * ("fn@file:1:2") formats.
+ *
+ * Frozen: changing it splits existing issues. This is deliberately not
+ * the parser in stack.ts, which may improve without changing fingerprints.
+ */
+function inAppFrames(stack: string): string[] {
+  const frames: string[] = [];
+
+  for (const line of stack.split('\n')) {
+    const match =
+      line.match(/^\s*at (?:.+? \()?(.+?):\d+:\d+\)?$/) ?? line.match(/^.*?@(.+?):\d+:\d+$/);
+    if (!match) continue;
+
+    const file = match[1];
+    if (!/^https?:\/\//.test(file) || EXTENSION_URL.test(file)) continue;
+
+    frames.push(normalizeFile(file));
+    if (frames.length === MAX_IN_APP_FRAMES) break;
+  }
+
+  return frames;
+}
+
+/**
+ * Reduce a script URL to its path, without query string, hash or content
+ * hash, e.g. "https://cdn.example.com/assets/app.3f9a1c2b.js?v=2" ->
+ * "/assets/app.js". A content hash is a run of 8 or more word characters,
+ * including a digit, before the extension.
+ */
+function normalizeFile(file: string): string {
+  let path = file;
+  try {
+    path = new URL(file).pathname;
+  } catch {
+    path = file.split(/[?#]/)[0];
+  }
+  return path.replace(/[.-](?=\w*\d)\w{8,}(?=\.\w+$)/, '');
+}
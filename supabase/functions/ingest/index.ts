@@ -16,9 +16,23 @@
  *     ...
  *   ]
  * }
+ *
+ * Response body (200 when every event was stored, 207 otherwise):
+ * {
+ *   "status": "ok" | "partial",
+ *   "accepted": 9,
+ *   "rejected": 1,
+ *   "errors": [
+ *     { "index": 4, "reason": "missing_field", "message": "message is required" }
+ *   ]
+ * }
  */
 
 import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { classifyChannel, matchesSource, normalizeReferrer } from './sources.ts';
+import { CLICK_ID_PARAMS, stripClickIds } from './campaign.ts';
+import { fingerprintError } from './fingerprint.ts';
+import { isExtensionError, parseStack } from './stack.ts';
 
 // CORS headers for cross-origin tracker requests
 const corsHeaders = {
@@ -29,7 +43,20 @@ const corsHeaders = {
 };
 
 interface BaseEvent {
-  type: 'pageview' | 'webvital' | 'error' | 'custom';
+  type:
+    | 'pageview'
+    | 'webvital'
+    | 'error'
+    | 'custom'
+    | 'longframe'
+    | 'resources'
+    | 'network'
+    | 'errorstats'
+    | 'outbound'
+    | 'download'
+    | 'pageleave'
+    | 'frustration'
+    | 'form';
   timestamp: string;
   site_id: string;
   url: string;
@@ -40,12 +67,21 @@ interface BaseEvent {
   language?: string;
   connection_type?: string;
   tracker_version?: string;
+  session_id?: string;
+  sample_rate?: number;
+  event_id?: string;
 }
 
 interface PageViewEvent extends BaseEvent {
   type: 'pageview';
   title?: string;
   page_view_id: string;
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  utm_term?: string;
+  utm_content?: string;
+  click_id?: string;
 }
 
 interface WebVitalEvent extends BaseEvent {
@@ -55,6 +91,13 @@ interface WebVitalEvent extends BaseEvent {
   metric_rating: string;
   metric_id: string;
   navigation_type?: string;
+  page_view_id?: string;
+  attribution?: {
+    target?: string;
+    url?: string;
+    event_type?: string;
+    phases?: Record<string, unknown>;
+  };
 }
 
 interface ErrorEvent extends BaseEvent {
@@ -64,6 +107,12 @@ interface ErrorEvent extends BaseEvent {
   source?: string;
   line?: number;
   column?: number;
+  breadcrumbs?: Record<string, unknown>[];
+  release?: string;
+  occurrences?: number;
+  level?: string;
+  tags?: Record<string, unknown>;
+  extra?: Record<string, unknown>;
 }
 
 interface CustomEvent extends BaseEvent {
@@ -72,7 +121,189 @@ interface CustomEvent extends BaseEvent {
   properties?: Record<string, unknown>;
 }
 
-type TrackerEvent = PageViewEvent | WebVitalEvent | ErrorEvent | CustomEvent;
+interface LongFrameEvent extends BaseEvent {
+  type: 'longframe';
+  page_view_id?: string;
+  report_id: string;
+  entry_type: string;
+  frame_count: number;
+  blocking_time: number;
+  worst_duration: number;
+  scripts?: Record<string, unknown>[];
+}
+
+interface ResourceEvent extends BaseEvent {
+  type: 'resources';
+  page_view_id?: string;
+  report_id: string;
+  resource_count: number;
+  transfer_size: number;
+  first_party_bytes: number;
+  third_party_bytes: number;
+  render_blocking_count: number;
+  failed_count: number;
+  initiators?: Record<string, unknown>;
+  hosts?: Record<string, unknown>[];
+  resources?: Record<string, unknown>[];
+}
+
+interface NetworkEvent extends BaseEvent {
+  type: 'network';
+  page_view_id?: string;
+  method: string;
+  url_template: string;
+  host?: string;
+  status?: number;
+  duration: number;
+  failure_type?: string;
+  initiator?: string;
+}
+
+interface ErrorStatsEvent extends BaseEvent {
+  type: 'errorstats';
+  page_view_id?: string;
+  report_id: string;
+  deduplicated: number;
+  rate_limited: number;
+  filtered: number;
+}
+
+interface LinkClickEvent extends BaseEvent {
+  type: 'outbound' | 'download';
+  page_view_id?: string;
+  link_url: string;
+  link_host?: string;
+  file_extension?: string;
+}
+
+interface PageLeaveEvent extends BaseEvent {
+  type: 'pageleave';
+  page_view_id?: string;
+  engaged_time: number;
+  scroll_depth: number;
+}
+
+interface FrustrationEvent extends BaseEvent {
+  type: 'frustration';
+  page_view_id?: string;
+  signal: string;
+  selector: string;
+  click_count?: number;
+}
+
+interface FormEvent extends BaseEvent {
+  type: 'form';
+  page_view_id?: string;
+  report_id: string;
+  form_id: string;
+  action: string;
+  fields?: Record<string, unknown>[];
+  last_field?: string;
+  duration?: number;
+}
+
+type TrackerEvent =
+  | PageViewEvent
+  | WebVitalEvent
+  | ErrorEvent
+  | CustomEvent
+  | LongFrameEvent
+  | ResourceEvent
+  | NetworkEvent
+  | ErrorStatsEvent
+  | LinkClickEvent
+  | PageLeaveEvent
+  | FrustrationEvent
+  | FormEvent;
+
+type TableName =
+  | 'page_views'
+  | 'web_vitals'
+  | 'errors'
+  | 'custom_events'
+  | 'long_frames'
+  | 'resource_timings'
+  | 'network_requests'
+  | 'error_drops'
+  | 'link_clicks'
+  | 'frustration_signals'
+  | 'form_interactions';
+
+interface TableBatch {
+  rows: Record<string, unknown>[];
+  /** Index in the request's events array of each row */
+  indices: number[];
+}
+
+/**
+ * Machine-readable reasons an event was not stored. Only `insert_failed`
+ * is transient; the tracker drops events rejected for any other reason.
+ */
+type RejectionReason =
+  | 'missing_field'
+  | 'unknown_type'
+  | 'invalid_metric'
+  | 'unknown_site'
+  | 'unknown_page_view'
+  | 'insert_failed';
+
+interface RejectedEvent {
+  index: number;
+  reason: RejectionReason;
+  message: string;
+}
+
+interface IngestResult {
+  status: 'ok' | 'partial';
+  accepted: number;
+  rejected: number;
+  errors: RejectedEvent[];
+}
+
+const VITAL_METRICS = new Set(['LCP', 'FID', 'CLS', 'FCP', 'TTFB', 'INP']);
+const VITAL_RATINGS = new Set(['good', 'needs-improvement', 'poor']);
+const LONG_FRAME_ENTRY_TYPES = new Set(['long-animation-frame', 'longtask']);
+const HTTP_METHODS = new Set(['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']);
+const NETWORK_FAILURE_TYPES = new Set(['http', 'network', 'timeout', 'abort']);
+const NETWORK_INITIATORS = new Set(['fetch', 'xhr']);
+const BREADCRUMB_TYPES = new Set(['navigation', 'click', 'console', 'network', 'custom']);
+const BREADCRUMB_LEVELS = new Set(['info', 'warning', 'error']);
+const ERROR_LEVELS = new Set(['fatal', 'error', 'warning', 'info']);
+const FRUSTRATION_SIGNALS = new Set(['rage', 'dead', 'error']);
+/** Form status after each tracker action */
+const FORM_STATUSES: Record<string, string> = {
+  start: 'started',
+  submit: 'submitted',
+  abandon: 'abandoned',
+};
+/** Lowest accepted sample rate (one in 10,000 sessions) */
+const MIN_SAMPLE_RATE = 0.0001;
+
+/** Largest byte count accepted for a page view's resources (10 GB) */
+const MAX_BYTES = 10 * 1024 ** 3;
+
+/** Longest engaged time accepted for a page view (one day) */
+const MAX_ENGAGED_TIME = 24 * 60 * 60 * 1000;
+
+/**
+ * Tables whose rows the tracker may send more than once. Web Vitals keep
+ * their first report; long frame, resource, error throttling and form
+ * reports replace the previous report. Other events, and errors (see
+ * record_errors), are stored once per event_id, however often a batch is
+ * retried.
+ */
+const UPSERTS: Partial<Record<TableName, { onConflict: string; ignoreDuplicates: boolean }>> = {
+  page_views: { onConflict: 'site_id,event_id', ignoreDuplicates: true },
+  custom_events: { onConflict: 'site_id,event_id', ignoreDuplicates: true },
+  network_requests: { onConflict: 'site_id,event_id', ignoreDuplicates: true },
+  link_clicks: { onConflict: 'site_id,event_id', ignoreDuplicates: true },
+  frustration_signals: { onConflict: 'site_id,event_id', ignoreDuplicates: true },
+  web_vitals: { onConflict: 'site_id,metric_id', ignoreDuplicates: true },
+  long_frames: { onConflict: 'site_id,report_id', ignoreDuplicates: false },
+  resource_timings: { onConflict: 'site_id,report_id', ignoreDuplicates: false },
+  error_drops: { onConflict: 'site_id,report_id', ignoreDuplicates: false },
+  form_interactions: { onConflict: 'site_id,report_id', ignoreDuplicates: false },
+};
 
 Deno.serve(async (req: Request) => {
   // Handle CORS preflight
@@ -115,23 +346,82 @@ Deno.serve(async (req: Request) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Sort events by type for batch insertion
-    const pageViews: Record<string, unknown>[] = [];
-    const webVitals: Record<string, unknown>[] = [];
-    const errors: Record<string, unknown>[] = [];
-    const customEvents: Record<string, unknown>[] = [];
+    // Visitors are identified by a hash that rotates daily, so the same
+    // person cannot be linked across days and no IP address is stored.
+    const { data: dailySalt, error: saltError } = await supabase.rpc('get_daily_salt');
+    if (saltError) throw new Error(`Failed to load daily salt: ${saltError.message}`);
+
+    const clientIp = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || '';
+    const userAgent = req.headers.get('user-agent') || '';
+    const visitorIds = new Map<string, string>();
+
+    // Events are only accepted for sites that have been registered
+    const siteIds = [...new Set(events.map((e) => sanitize(e?.site_id, 100)).filter(Boolean))];
+    const { data: knownSites, error: sitesError } = await supabase
+      .from('sites')
+      .select('site_id, domains')
+      .in('site_id', siteIds);
+    if (sitesError) throw new Error(`Failed to load sites: ${sitesError.message}`);
+    // Site id -> additional domains whose referrals count as internal
+    const registeredSites = new Map<string, string[]>(
+      (knownSites ?? []).map((s: { site_id: string; domains: string[] | null }) => [
+        s.site_id,
+        s.domains ?? [],
+      ]),
+    );
+
+    // Sort events by table for batch insertion, remembering which
+    // request index each row came from so failures can be reported per event
+    const batches: Record<TableName, TableBatch> = {
+      page_views: { rows: [], indices: [] },
+      web_vitals: { rows: [], indices: [] },
+      errors: { rows: [], indices: [] },
+      custom_events: { rows: [], indices: [] },
+      long_frames: { rows: [], indices: [] },
+      resource_timings: { rows: [], indices: [] },
+      network_requests: { rows: [], indices: [] },
+      error_drops: { rows: [], indices: [] },
+      link_clicks: { rows: [], indices: [] },
+      frustration_signals: { rows: [], indices: [] },
+      form_interactions: { rows: [], indices: [] },
+    };
+    // An upsert may not touch a row twice, so a form reported more than
+    // once in a request keeps only its latest report: key -> row position
+    const formRows = new Map<string, number>();
+    // Page leaves update the page views they were measured on
+    const pageLeaves: TableBatch = { rows: [], indices: [] };
+    const rejected: RejectedEvent[] = [];
+
+    for (const [index, event] of events.entries()) {
+      const reject = (reason: RejectionReason, message: string) =>
+        rejected.push({ index, reason, message });
 
-    for (const event of events) {
       // Validate required fields
-      if (!event.type || !event.site_id || !event.url) {
-        continue; // Skip malformed events
+      if (!event || typeof event !== 'object') {
+        reject('missing_field', 'Event must be an object');
+        continue;
+      }
+      const missing = (['type', 'site_id', 'url'] as const).find((field) => !event[field]);
+      if (missing) {
+        reject('missing_field', `${missing} is required`);
+        continue;
+      }
+
+      const siteId = sanitize(event.site_id, 100);
+      if (!registeredSites.has(siteId)) {
+        reject('unknown_site', `Site "${siteId}" is not registered`);
+        continue;
+      }
+
+      if (!visitorIds.has(siteId)) {
+        visitorIds.set(siteId, await hashVisitor(dailySalt as string, siteId, clientIp, userAgent));
       }
 
       const baseFields = {
-        site_id: sanitize(event.site_id, 100),
-        url: sanitize(event.url, 2000),
+        site_id: siteId,
+        url: stripClickIds(sanitize(event.url, 2000)),
         pathname: sanitize(event.pathname || '/', 500),
-        referrer: sanitize(event.referrer || '', 2000),
+        referrer: stripClickIds(sanitize(event.referrer || '', 2000)),
         screen_width: clamp(event.screen_width || 0, 0, 10000),
         timezone: sanitize(event.timezone || 'Unknown', 100),
         language: sanitize(event.language || 'en', 20),
@@ -139,113 +429,399 @@ Deno.serve(async (req: Request) => {
           ? sanitize(event.connection_type, 20)
           : null,
         tracker_version: sanitize(event.tracker_version || '', 20),
+        session_id: event.session_id ? sanitize(event.session_id, 100) : null,
+        visitor_id: visitorIds.get(siteId),
+        sample_rate: sampleRate(event.sample_rate),
         created_at: event.timestamp || new Date().toISOString(),
       };
+      // Trackers before event ids send none; their events are always inserted
+      const eventId = event.event_id ? sanitize(event.event_id, 100) : null;
 
       switch (event.type) {
         case 'pageview': {
           const pv = event as PageViewEvent;
-          pageViews.push({
+          if (!pv.page_view_id) {
+            reject('missing_field', 'page_view_id is required');
+            continue;
+          }
+          const referrerHost = normalizeReferrer(baseFields.referrer);
+          const internal =
+            referrerHost !== null &&
+            isSelfReferral(referrerHost, baseFields.url, registeredSites.get(siteId)!);
+
+          batches.page_views.indices.push(index);
+          batches.page_views.rows.push({
             ...baseFields,
+            event_id: eventId,
+            referrer_host: referrerHost,
+            channel: classifyChannel({
+              referrerHost,
+              internal,
+              utmSource: pv.utm_source,
+              utmMedium: pv.utm_medium,
+              clickId: pv.click_id,
+            }),
             title: sanitize(pv.title || '', 500),
-            page_view_id: sanitize(pv.page_view_id || '', 100),
+            page_view_id: sanitize(pv.page_view_id, 100),
+            utm_source: pv.utm_source ? sanitize(pv.utm_source, 200) : null,
+            utm_medium: pv.utm_medium ? sanitize(pv.utm_medium, 200) : null,
+            utm_campaign: pv.utm_campaign ? sanitize(pv.utm_campaign, 200) : null,
+            utm_term: pv.utm_term ? sanitize(pv.utm_term, 200) : null,
+            utm_content: pv.utm_content ? sanitize(pv.utm_content, 200) : null,
+            click_id: pv.click_id && CLICK_ID_PARAMS.has(pv.click_id) ? pv.click_id : null,
           });
           break;
         }
         case 'webvital': {
           const wv = event as WebVitalEvent;
-          if (!wv.metric_name || typeof wv.metric_value !== 'number') continue;
-          webVitals.push({
+          if (!wv.metric_name || !wv.metric_id) {
+            reject('missing_field', 'metric_name and metric_id are required');
+            continue;
+          }
+          if (!VITAL_METRICS.has(wv.metric_name)) {
+            reject('invalid_metric', `Unknown metric "${sanitize(wv.metric_name, 20)}"`);
+            continue;
+          }
+          if (
+            typeof wv.metric_value !== 'number' ||
+            !isFinite(wv.metric_value) ||
+            wv.metric_value < 0
+          ) {
+            reject('invalid_metric', 'metric_value must be a non-negative number');
+            continue;
+          }
+          if (wv.metric_rating && !VITAL_RATINGS.has(wv.metric_rating)) {
+            reject('invalid_metric', `Unknown rating "${sanitize(wv.metric_rating, 30)}"`);
+            continue;
+          }
+          batches.web_vitals.indices.push(index);
+          batches.web_vitals.rows.push({
             ...baseFields,
-            metric_name: sanitize(wv.metric_name, 20),
+            metric_name: wv.metric_name,
             metric_value: wv.metric_value,
-            metric_rating: sanitize(wv.metric_rating || 'good', 30),
-            metric_id: sanitize(wv.metric_id || '', 100),
+            metric_rating: wv.metric_rating || 'good',
+            metric_id: sanitize(wv.metric_id, 100),
             navigation_type: wv.navigation_type
               ? sanitize(wv.navigation_type, 30)
               : null,
+            page_view_id: wv.page_view_id ? sanitize(wv.page_view_id, 100) : null,
+            ...sanitizeAttribution(wv.attribution),
           });
           break;
         }
         case 'error': {
           const err = event as ErrorEvent;
-          if (!err.message) continue;
-          errors.push({
+          if (!err.message) {
+            reject('missing_field', 'message is required');
+            continue;
+          }
+          const message = sanitize(err.message, 1000);
+          const stack = err.stack ? sanitize(err.stack, 5000) : null;
+          const source = err.source ? sanitize(err.source, 500) : null;
+          const frames = stack ? parseStack(stack) : [];
+          batches.errors.indices.push(index);
+          batches.errors.rows.push({
             ...baseFields,
-            message: sanitize(err.message, 1000),
-            stack: err.stack ? sanitize(err.stack, 5000) : null,
-            source: err.source ? sanitize(err.source, 500) : null,
+            event_id: eventId,
+            message,
+            stack,
+            frames: frames.length > 0 ? frames : null,
+            from_extension: isExtensionError(frames, source),
+            source,
             line: err.line ? clamp(err.line, 0, 1000000) : null,
             column_number: err.column ? clamp(err.column, 0, 100000) : null,
+            breadcrumbs: Array.isArray(err.breadcrumbs)
+              ? sanitizeBreadcrumbs(err.breadcrumbs)
+              : null,
+            release: typeof err.release === 'string' && err.release
+              ? sanitize(err.release, 100)
+              : null,
+            occurrences: err.occurrences ? clamp(Math.round(err.occurrences), 1, 100000) : 1,
+            level: err.level && ERROR_LEVELS.has(err.level) ? err.level : 'error',
+            tags: err.tags && typeof err.tags === 'object' ? sanitizeTags(err.tags) : null,
+            extra: err.extra && typeof err.extra === 'object'
+              ? sanitizeProperties(err.extra)
+              : null,
+            fingerprint: await fingerprintError({ message, stack, source }),
           });
           break;
         }
         case 'custom': {
           const ce = event as CustomEvent;
-          if (!ce.event_name) continue;
-          customEvents.push({
+          if (!ce.event_name) {
+            reject('missing_field', 'event_name is required');
+            continue;
+          }
+          batches.custom_events.indices.push(index);
+          batches.custom_events.rows.push({
             ...baseFields,
+            event_id: eventId,
             event_name: sanitize(ce.event_name, 100),
             properties: ce.properties ? sanitizeProperties(ce.properties) : null,
           });
           break;
         }
+        case 'longframe': {
+          const lf = event as LongFrameEvent;
+          if (!lf.report_id) {
+            reject('missing_field', 'report_id is required');
+            continue;
+          }
+          if (!LONG_FRAME_ENTRY_TYPES.has(lf.entry_type)) {
+            reject('missing_field', 'entry_type must be "long-animation-frame" or "longtask"');
+            continue;
+          }
+          batches.long_frames.indices.push(index);
+          batches.long_frames.rows.push({
+            ...baseFields,
+            page_view_id: lf.page_view_id ? sanitize(lf.page_view_id, 100) : null,
+            report_id: sanitize(lf.report_id, 100),
+            entry_type: lf.entry_type,
+            frame_count: clamp(lf.frame_count, 0, 100000),
+            blocking_time: clamp(lf.blocking_time, 0, 86400000),
+            worst_duration: clamp(lf.worst_duration, 0, 86400000),
+            scripts: Array.isArray(lf.scripts) ? sanitizeScripts(lf.scripts) : null,
+          });
+          break;
+        }
+        case 'resources': {
+          const rs = event as ResourceEvent;
+          if (!rs.report_id) {
+            reject('missing_field', 'report_id is required');
+            continue;
+          }
+          batches.resource_timings.indices.push(index);
+          batches.resource_timings.rows.push({
+            ...baseFields,
+            page_view_id: rs.page_view_id ? sanitize(rs.page_view_id, 100) : null,
+            report_id: sanitize(rs.report_id, 100),
+            resource_count: clamp(rs.resource_count, 0, 100000),
+            transfer_size: clamp(rs.transfer_size, 0, MAX_BYTES),
+            first_party_bytes: clamp(rs.first_party_bytes, 0, MAX_BYTES),
+            third_party_bytes: clamp(rs.third_party_bytes, 0, MAX_BYTES),
+            render_blocking_count: clamp(rs.render_blocking_count, 0, 100000),
+            failed_count: clamp(rs.failed_count, 0, 100000),
+            initiators: rs.initiators ? sanitizeInitiators(rs.initiators) : null,
+            hosts: Array.isArray(rs.hosts) ? sanitizeResourceHosts(rs.hosts) : null,
+            resources: Array.isArray(rs.resources) ? sanitizeResources(rs.resources) : null,
+          });
+          break;
+        }
+        case 'network': {
+          const nr = event as NetworkEvent;
+          if (!nr.url_template) {
+            reject('missing_field', 'url_template is required');
+            continue;
+          }
+          const method = sanitize(nr.method, 10).toUpperCase();
+          batches.network_requests.indices.push(index);
+          batches.network_requests.rows.push({
+            ...baseFields,
+            event_id: eventId,
+            page_view_id: nr.page_view_id ? sanitize(nr.page_view_id, 100) : null,
+            method: HTTP_METHODS.has(method) ? method : 'OTHER',
+            url_template: sanitize(nr.url_template, 500),
+            host: nr.host ? sanitize(nr.host, 255).toLowerCase() : null,
+            status: clamp(nr.status ?? 0, 0, 999),
+            duration: clamp(nr.duration, 0, 600000),
+            failure_type:
+              nr.failure_type && NETWORK_FAILURE_TYPES.has(nr.failure_type)
+                ? nr.failure_type
+                : null,
+            initiator:
+              nr.initiator && NETWORK_INITIATORS.has(nr.initiator) ? nr.initiator : null,
+          });
+          break;
+        }
+        case 'errorstats': {
+          const es = event as ErrorStatsEvent;
+          if (!es.report_id) {
+            reject('missing_field', 'report_id is required');
+            continue;
+          }
+          batches.error_drops.indices.push(index);
+          batches.error_drops.rows.push({
+            ...baseFields,
+            page_view_id: es.page_view_id ? sanitize(es.page_view_id, 100) : null,
+            report_id: sanitize(es.report_id, 100),
+            deduplicated: clamp(es.deduplicated, 0, 1000000),
+            rate_limited: clamp(es.rate_limited, 0, 1000000),
+            filtered: clamp(es.filtered, 0, 1000000),
+          });
+          break;
+        }
+        case 'outbound':
+        case 'download': {
+          const lc = event as LinkClickEvent;
+          if (!lc.link_url) {
+            reject('missing_field', 'link_url is required');
+            continue;
+          }
+          const linkUrl = sanitize(lc.link_url, 500).split(/[?#]/)[0];
+          batches.link_clicks.indices.push(index);
+          batches.link_clicks.rows.push({
+            ...baseFields,
+            event_id: eventId,
+            page_view_id: lc.page_view_id ? sanitize(lc.page_view_id, 100) : null,
+            kind: lc.type,
+            link_url: linkUrl,
+            link_host: lc.link_host ? sanitize(lc.link_host, 255).toLowerCase() : null,
+            file_extension: lc.type === 'download' && lc.file_extension
+              ? sanitize(lc.file_extension, 10).toLowerCase()
+              : null,
+          });
+          break;
+        }
+        case 'frustration': {
+          const fe = event as FrustrationEvent;
+          if (!FRUSTRATION_SIGNALS.has(fe.signal)) {
+            reject('missing_field', 'signal must be "rage", "dead" or "error"');
+            continue;
+          }
+          if (!fe.selector) {
+            reject('missing_field', 'selector is required');
+            continue;
+          }
+          batches.frustration_signals.indices.push(index);
+          batches.frustration_signals.rows.push({
+            ...baseFields,
+            event_id: eventId,
+            page_view_id: fe.page_view_id ? sanitize(fe.page_view_id, 100) : null,
+            signal: fe.signal,
+            selector: sanitize(fe.selector, 300),
+            click_count: fe.signal === 'rage' ? clamp(fe.click_count ?? 0, 0, 1000) : null,
+          });
+          break;
+        }
+        case 'form': {
+          const fe = event as FormEvent;
+          if (!fe.report_id || !fe.form_id) {
+            reject('missing_field', 'report_id and form_id are required');
+            continue;
+          }
+          if (!FORM_STATUSES[fe.action]) {
+            reject('missing_field', 'action must be "start", "submit" or "abandon"');
+            continue;
+          }
+          const row = {
+            ...baseFields,
+            page_view_id: fe.page_view_id ? sanitize(fe.page_view_id, 100) : null,
+            report_id: sanitize(fe.report_id, 100),
+            form_id: sanitize(fe.form_id, 100),
+            status: FORM_STATUSES[fe.action],
+            fields: Array.isArray(fe.fields) ? sanitizeFormFields(fe.fields) : [],
+            last_field: fe.last_field ? sanitize(fe.last_field, 100) : null,
+            duration: clamp(fe.duration ?? 0, 0, 86400000),
+          };
+          const key = `${siteId}\n${row.report_id}`;
+          const position = formRows.get(key);
+          batches.form_interactions.indices.push(index);
+          if (position === undefined) {
+            formRows.set(key, batches.form_interactions.rows.length);
+            batches.form_interactions.rows.push(row);
+          } else {
+            batches.form_interactions.rows[position] = row;
+          }
+          break;
+        }
+        case 'pageleave': {
+          const pl = event as PageLeaveEvent;
+          if (!pl.page_view_id) {
+            reject('missing_field', 'page_view_id is required');
+            continue;
+          }
+          pageLeaves.indices.push(index);
+          pageLeaves.rows.push({
+            site_id: siteId,
+            page_view_id: sanitize(pl.page_view_id, 100),
+            engaged_time: Math.round(clamp(pl.engaged_time, 0, MAX_ENGAGED_TIME)),
+            scroll_depth: Math.round(clamp(pl.scroll_depth, 0, 100)),
+          });
+          break;
+        }
+        default: {
+          const type = sanitize(String((event as BaseEvent).type), 30);
+          reject('unknown_type', `Unknown event type "${type}"`);
+        }
       }
     }
 
     // Batch insert into each table
-    const results = await Promise.allSettled([
-      pageViews.length > 0
-        ? supabase.from('page_views').insert(pageViews)
-        : Promise.resolve({ error: null }),
-      webVitals.length > 0
-        ? supabase
-            .from('web_vitals')
-            .upsert(webVitals, { onConflict: 'site_id,metric_id', ignoreDuplicates: true })
-        : Promise.resolve({ error: null }),
-      errors.length > 0
-        ? supabase.from('errors').insert(errors)
-        : Promise.resolve({ error: null }),
-      customEvents.length > 0
-        ? supabase.from('custom_events').insert(customEvents)
-        : Promise.resolve({ error: null }),
-    ]);
-
-    // Check for insertion errors
-    const insertionErrors = results
-      .map((r, i) => {
-        if (r.status === 'rejected') return `Table ${i}: ${r.reason}`;
-        const val = r.value as { error: { message: string } | null };
-        if (val.error) return `Table ${i}: ${val.error.message}`;
-        return null;
-      })
-      .filter(Boolean);
-
-    if (insertionErrors.length > 0) {
-      console.error('Insertion errors:', insertionErrors);
-      return new Response(
-        JSON.stringify({
-          status: 'partial',
-          errors: insertionErrors,
-          accepted: events.length - insertionErrors.length,
-        }),
-        {
-          status: 207,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        },
-      );
-    }
-
-    return new Response(
-      JSON.stringify({
-        status: 'ok',
-        accepted: events.length,
+    const tableNames = Object.keys(batches) as TableName[];
+    const results = await Promise.allSettled(
+      tableNames.map((table) => {
+        const { rows } = batches[table];
+        if (rows.length === 0) return Promise.resolve({ error: null });
+        // Stored along with their issues in one transaction
+        if (table === 'errors') {
+          return supabase.rpc('record_errors', { p_errors: rows });
+        }
+        const upsert = UPSERTS[table];
+        if (upsert) {
+          return supabase.from(table).upsert(rows, upsert);
+        }
+        return supabase.from(table).insert(rows);
       }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      },
     );
+
+    // A failed insert rejects every event destined for that table
+    results.forEach((result, i) => {
+      const table = tableNames[i];
+      const message =
+        result.status === 'rejected'
+          ? String(result.reason)
+          : (result.value as { error: { message: string } | null }).error?.message;
+      if (!message) return;
+
+      console.error(`Insertion error (${table}):`, message);
+      for (const index of batches[table].indices) {
+        rejected.push({ index, reason: 'insert_failed', message: `Failed to store in ${table}` });
+      }
+    });
+
+    // Runs after the inserts, so page views sent in the same batch exist.
+    // Updates only ever raise the totals, so a retried batch is harmless.
+    if (pageLeaves.rows.length > 0) {
+      const { data: unmatched, error: leavesError } = await supabase.rpc('record_page_leaves', {
+        p_leaves: pageLeaves.rows,
+      });
+      if (leavesError) {
+        console.error('Page leave error:', leavesError.message);
+        for (const index of pageLeaves.indices) {
+          rejected.push({ index, reason: 'insert_failed', message: 'Failed to update page_views' });
+        }
+      } else {
+        // Page leaves whose page view was never stored, e.g. sampled out
+        // or rejected; retrying them would not change that
+        const missing = new Set(
+          ((unmatched ?? []) as { site_id: string; page_view_id: string }[]).map(
+            (leave) => `${leave.site_id}:${leave.page_view_id}`,
+          ),
+        );
+        pageLeaves.rows.forEach((row, i) => {
+          if (missing.has(`${row.site_id}:${row.page_view_id}`)) {
+            rejected.push({
+              index: pageLeaves.indices[i],
+              reason: 'unknown_page_view',
+              message: 'No page view to update',
+            });
+          }
+        });
+      }
+    }
+
+    rejected.sort((a, b) => a.index - b.index);
+    const result: IngestResult = {
+      status: rejected.length === 0 ? 'ok' : 'partial',
+      accepted: events.length - rejected.length,
+      rejected: rejected.length,
+      errors: rejected,
+    };
+
+    return new Response(JSON.stringify(result), {
+      status: rejected.length === 0 ? 200 : 207,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
   } catch (err) {
     console.error('Ingestion error:', err);
     return new Response(
@@ -271,6 +847,215 @@ function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max);
 }
 
+/**
+ * Fraction of sessions the event was sampled from. Aggregates weight each
+ * row by its inverse, so rates are floored to keep weights bounded.
+ */
+function sampleRate(value: unknown): number {
+  if (typeof value !== 'number' || !(value > 0)) return 1;
+  return clamp(value, MIN_SAMPLE_RATE, 1);
+}
+
+/**
+ * Whether a referrer host belongs to the site itself: the host of the page
+ * being viewed, or one of the domains configured for the site.
+ */
+function isSelfReferral(referrerHost: string, pageUrl: string, domains: string[]): boolean {
+  const pageHost = normalizeReferrer(pageUrl);
+  if (referrerHost === pageHost) return true;
+  return matchesSource(
+    referrerHost,
+    domains.map((d) => d.toLowerCase().replace(/^www\./, '')),
+  );
+}
+
+/**
+ * Derive an anonymous visitor id from the daily salt, site, IP address and
+ * user agent. The inputs are discarded; only the truncated hash is stored.
+ */
+async function hashVisitor(
+  salt: string,
+  siteId: string,
+  ip: string,
+  userAgent: string,
+): Promise<string> {
+  const input = new TextEncoder().encode(`${salt}:${siteId}:${ip}:${userAgent}`);
+  const digest = await crypto.subtle.digest('SHA-256', input);
+  return Array.from(new Uint8Array(digest).slice(0, 16))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Flatten Web Vital attribution into its columns. Phases must be
+ * non-negative durations in milliseconds.
+ */
+function sanitizeAttribution(
+  attribution: WebVitalEvent['attribution'],
+): Record<string, unknown> {
+  if (!attribution || typeof attribution !== 'object') return {};
+
+  let phases: Record<string, number> | null = null;
+  if (attribution.phases && typeof attribution.phases === 'object') {
+    phases = {};
+    for (const key of Object.keys(attribution.phases).slice(0, 10)) {
+      const value = attribution.phases[key];
+      if (typeof value === 'number' && isFinite(value)) {
+        phases[sanitize(key, 30)] = clamp(Math.round(value), 0, 600000);
+      }
+    }
+  }
+
+  return {
+    attribution_target: attribution.target ? sanitize(attribution.target, 200) : null,
+    attribution_url: attribution.url ? sanitize(attribution.url, 500) : null,
+    attribution_event_type: attribution.event_type
+      ? sanitize(attribution.event_type, 30)
+      : null,
+    attribution_phases: phases,
+  };
+}
+
+/**
+ * Keep the known fields of long animation frame scripts.
+ */
+function sanitizeScripts(scripts: Record<string, unknown>[]): Record<string, unknown>[] {
+  const str = (value: unknown, maxLength: number) =>
+    typeof value === 'string' && value ? sanitize(value, maxLength) : null;
+
+  return scripts
+    .slice(0, 15)
+    .filter((script) => script && typeof script === 'object')
+    .map((script) => ({
+      source_url: str(script.source_url, 500) ?? '',
+      function_name: str(script.function_name, 200),
+      invoker: str(script.invoker, 200),
+      invoker_type: str(script.invoker_type, 50),
+      duration: clamp(script.duration as number, 0, 86400000),
+      frame_duration: clamp(script.frame_duration as number, 0, 86400000),
+    }));
+}
+
+/**
+ * Keep the known fields of resource counts by initiator type.
+ */
+function sanitizeInitiators(
+  initiators: Record<string, unknown>,
+): Record<string, { count: number; transfer_size: number }> {
+  const sanitized: Record<string, { count: number; transfer_size: number }> = {};
+  if (typeof initiators !== 'object') return sanitized;
+
+  for (const key of Object.keys(initiators).slice(0, 20)) {
+    const value = initiators[key] as Record<string, unknown> | null;
+    if (!value || typeof value !== 'object') continue;
+    sanitized[sanitize(key, 30)] = {
+      count: clamp(value.count as number, 0, 100000),
+      transfer_size: clamp(value.transfer_size as number, 0, MAX_BYTES),
+    };
+  }
+  return sanitized;
+}
+
+/**
+ * Keep the known fields of per host resource totals.
+ */
+function sanitizeResourceHosts(hosts: Record<string, unknown>[]): Record<string, unknown>[] {
+  return hosts
+    .slice(0, 10)
+    .filter((host) => host && typeof host === 'object' && typeof host.host === 'string')
+    .map((host) => ({
+      host: sanitize(host.host as string, 255).toLowerCase(),
+      first_party: host.first_party === true,
+      count: clamp(host.count as number, 0, 100000),
+      transfer_size: clamp(host.transfer_size as number, 0, MAX_BYTES),
+      duration: clamp(host.duration as number, 0, 86400000),
+    }));
+}
+
+/**
+ * Keep the known fields of individual resource timings.
+ */
+function sanitizeResources(resources: Record<string, unknown>[]): Record<string, unknown>[] {
+  return resources
+    .slice(0, 15)
+    .filter(
+      (resource) => resource && typeof resource === 'object' && typeof resource.url === 'string',
+    )
+    .map((resource) => ({
+      url: sanitize(resource.url as string, 500),
+      host: typeof resource.host === 'string' ? sanitize(resource.host, 255).toLowerCase() : '',
+      initiator_type:
+        typeof resource.initiator_type === 'string'
+          ? sanitize(resource.initiator_type, 30)
+          : 'other',
+      duration: clamp(resource.duration as number, 0, 86400000),
+      transfer_size: clamp(resource.transfer_size as number, 0, MAX_BYTES),
+      render_blocking: resource.render_blocking === true,
+      status: typeof resource.status === 'number' ? clamp(resource.status, 0, 999) : null,
+      failed: resource.failed === true,
+    }));
+}
+
+/**
+ * Keep well-formed breadcrumbs, most recent last. Breadcrumb data follows
+ * the same rules as custom event properties.
+ */
+function sanitizeBreadcrumbs(breadcrumbs: Record<string, unknown>[]): Record<string, unknown>[] {
+  return breadcrumbs
+    .slice(-100)
+    .filter(
+      (crumb) =>
+        crumb &&
+        typeof crumb === 'object' &&
+        BREADCRUMB_TYPES.has(crumb.type as string) &&
+        typeof crumb.message === 'string',
+    )
+    .map((crumb) => ({
+      type: crumb.type,
+      timestamp: sanitize(crumb.timestamp as string, 30),
+      message: sanitize(crumb.message as string, 300),
+      level: BREADCRUMB_LEVELS.has(crumb.level as string) ? crumb.level : 'info',
+      data:
+        crumb.data && typeof crumb.data === 'object'
+          ? sanitizeProperties(crumb.data as Record<string, unknown>)
+          : null,
+    }));
+}
+
+/**
+ * Keep well-formed form field stats, at most 50. Fields carry only a name
+ * and numbers, never a value.
+ */
+function sanitizeFormFields(fields: Record<string, unknown>[]): Record<string, unknown>[] {
+  return fields
+    .slice(0, 50)
+    .filter((field) => field && typeof field === 'object' && typeof field.name === 'string')
+    .map((field) => ({
+      name: sanitize(field.name as string, 100),
+      order: clamp(field.order as number, 0, 50),
+      time: clamp(field.time as number, 0, 86400000),
+      errors: clamp(field.errors as number, 0, 1000),
+    }));
+}
+
+/**
+ * Keep string tags only, up to 20, with short keys and values so they stay
+ * useful for filtering.
+ */
+function sanitizeTags(tags: Record<string, unknown>): Record<string, string> | null {
+  const sanitized: Record<string, string> = {};
+  let count = 0;
+
+  for (const key of Object.keys(tags)) {
+    const value = tags[key];
+    if (typeof value !== 'string' || !key) continue;
+    sanitized[sanitize(key, 32)] = sanitize(value, 200);
+    if (++count === 20) break;
+  }
+
+  return count > 0 ? sanitized : null;
+}
+
 function sanitizeProperties(
   props: Record<string, unknown>,
 ): Record<string, unknown> {
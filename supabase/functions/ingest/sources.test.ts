@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  classifyChannel,
+  matchesSource,
+  normalizeReferrer,
+  SEARCH_SOURCES,
+  SOCIAL_SOURCES,
+} from './sources.ts';
+
+describe('normalizeReferrer', () => {
+  it('reduces a referrer to its lowercase host without www.', () => {
+    expect(normalizeReferrer('https://www.Google.com/search?q=x')).toBe('google.com');
+    expect(normalizeReferrer('http://blog.example.org/post')).toBe('blog.example.org');
+  });
+
+  it('maps redirect hosts to their network', () => {
+    expect(normalizeReferrer('https://l.facebook.com/l.php?u=x')).toBe('facebook.com');
+    expect(normalizeReferrer('https://m.youtube.com/watch?v=x')).toBe('youtube.com');
+  });
+
+  it('maps known Android apps and keeps the package of others', () => {
+    expect(normalizeReferrer('android-app://com.google.android.gm')).toBe('mail.google.com');
+    expect(normalizeReferrer('android-app://com.example.reader')).toBe('com.example.reader');
+  });
+
+  it('returns null for empty, unparseable and non-web referrers', () => {
+    expect(normalizeReferrer('')).toBeNull();
+    expect(normalizeReferrer('not a url')).toBeNull();
+    expect(normalizeReferrer('file:///tmp/page.html')).toBeNull();
+  });
+});
+
+describe('matchesSource', () => {
+  it('matches a host and its subdomains but not lookalikes', () => {
+    expect(matchesSource('reddit.com', SOCIAL_SOURCES)).toBe(true);
+    expect(matchesSource('np.reddit.com', SOCIAL_SOURCES)).toBe(true);
+    expect(matchesSource('notreddit.com', SOCIAL_SOURCES)).toBe(false);
+  });
+
+  it('matches entries ending in "." under every top-level domain', () => {
+    expect(matchesSource('google.co.uk', SEARCH_SOURCES)).toBe(true);
+    expect(matchesSource('news.google.de', SEARCH_SOURCES)).toBe(true);
+    expect(matchesSource('mygoogle.com', SEARCH_SOURCES)).toBe(false);
+  });
+});
+
+describe('classifyChannel', () => {
+  const visit = { referrerHost: null, internal: false };
+
+  it('classifies self-referrals as internal before anything else', () => {
+    expect(classifyChannel({ ...visit, internal: true, clickId: 'gclid' })).toBe('Internal');
+  });
+
+  it('classifies click ids and paid mediums as paid', () => {
+    expect(classifyChannel({ ...visit, referrerHost: 'google.com', clickId: 'gclid' })).toBe(
+      'Paid',
+    );
+    expect(classifyChannel({ ...visit, utmMedium: 'CPC' })).toBe('Paid');
+    expect(classifyChannel({ ...visit, utmMedium: 'paid_social' })).toBe('Paid');
+  });
+
+  it('lets the UTM medium win over the referrer', () => {
+    expect(classifyChannel({ ...visit, referrerHost: 'google.com', utmMedium: 'email' })).toBe(
+      'Email',
+    );
+    expect(classifyChannel({ ...visit, referrerHost: 'example.com', utmMedium: 'social' })).toBe(
+      'Social',
+    );
+  });
+
+  it('classifies by referrer host, checking webmail before search', () => {
+    expect(classifyChannel({ ...visit, referrerHost: 'mail.google.com' })).toBe('Email');
+    expect(classifyChannel({ ...visit, referrerHost: 't.co' })).toBe('Social');
+    expect(classifyChannel({ ...visit, referrerHost: 'duckduckgo.com' })).toBe('Organic Search');
+    expect(classifyChannel({ ...visit, referrerHost: 'example.com' })).toBe('Referral');
+  });
+
+  it('falls back to a bare UTM source without a referrer', () => {
+    expect(classifyChannel({ ...visit, utmSource: 'Facebook' })).toBe('Social');
+    expect(classifyChannel({ ...visit, utmSource: 'Google' })).toBe('Organic Search');
+    expect(classifyChannel({ ...visit, utmSource: 'partner-site' })).toBe('Referral');
+  });
+
+  it('classifies visits without referrer or source as direct', () => {
+    expect(classifyChannel(visit)).toBe('Direct');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Referrer normalization and acquisition channel classification.
+ *
+ * The source lists below are matched against the normalized referrer
+ * host. An entry matches the host itself and any of its subdomains; an
+ * entry ending in "." (e.g. "google.") matches every top-level domain.
+ * Keep entries lowercase and without "www.".
+ */
+
+export type Channel =
+  | 'Direct'
+  | 'Organic Search'
+  | 'Social'
+  | 'Email'
+  | 'Referral'
+  | 'Paid'
+  | 'Internal';
+
+/** Webmail clients. Checked before search engines (mail.google.com). */
+export const EMAIL_SOURCES = [
+  'mail.google.com',
+  'inbox.google.com',
+  'outlook.live.com',
+  'outlook.office.com',
+  'outlook.office365.com',
+  'mail.yahoo.com',
+  'mail.aol.com',
+  'mail.proton.me',
+  'mail.zoho.com',
+  'app.fastmail.com',
+  'icloud.com',
+];
+
+export const SOCIAL_SOURCES = [
+  'facebook.com',
+  'instagram.com',
+  'twitter.com',
+  'x.com',
+  't.co',
+  'linkedin.com',
+  'lnkd.in',
+  'reddit.com',
+  'news.ycombinator.com',
+  'pinterest.com',
+  'tiktok.com',
+  'youtube.com',
+  'youtu.be',
+  'threads.net',
+  'bsky.app',
+  'mastodon.social',
+  'tumblr.com',
+  'discord.com',
+  'telegram.org',
+  'whatsapp.com',
+  'quora.com',
+  'vk.com',
+  'weibo.com',
+];
+
+export const SEARCH_SOURCES = [
+  'google.',
+  'bing.com',
+  'duckduckgo.com',
+  'search.yahoo.com',
+  'yandex.',
+  'baidu.com',
+  'ecosia.org',
+  'search.brave.com',
+  'startpage.com',
+  'qwant.com',
+  'naver.com',
+  'kagi.com',
+];
+
+/** Link shorteners and redirect hosts that stand in for their network */
+const HOST_ALIASES: Record<string, string> = {
+  'l.facebook.com': 'facebook.com',
+  'lm.facebook.com': 'facebook.com',
+  'm.facebook.com': 'facebook.com',
+  'l.instagram.com': 'instagram.com',
+  'out.reddit.com': 'reddit.com',
+  'old.reddit.com': 'reddit.com',
+  'm.youtube.com': 'youtube.com',
+};
+
+/** Android apps report themselves as android-app://<package> */
+const ANDROID_APPS: Record<string, string> = {
+  'com.google.android.gm': 'mail.google.com',
+  'com.google.android.googlequicksearchbox': 'google.com',
+  'com.google.android.youtube': 'youtube.com',
+  'com.facebook.katana': 'facebook.com',
+  'com.instagram.android': 'instagram.com',
+  'com.twitter.android': 'twitter.com',
+  'com.linkedin.android': 'linkedin.com',
+  'com.reddit.frontpage': 'reddit.com',
+  'com.slack': 'slack.com',
+  'org.telegram.messenger': 'telegram.org',
+  'com.whatsapp': 'whatsapp.com',
+  'com.microsoft.office.outlook': 'outlook.live.com',
+};
+
+const PAID_MEDIUMS =
+  /^(cpc|ppc|cpm|cpv|cpa|paid|paid[-_ ]?(search|social)|display|banner|retargeting)$/;
+const EMAIL_MEDIUMS = /^(e[-_]?mail|newsletter)$/;
+const SOCIAL_MEDIUMS = /^(social|social[-_ ]?(network|media)|sm)$/;
+
+/**
+ * Reduce a raw referrer to a canonical host, e.g.
+ * "https://www.google.com/search?q=x" -> "google.com".
+ * Returns null for empty or unparseable referrers.
+ */
+export function normalizeReferrer(referrer: string): string | null {
+  if (!referrer) return null;
+
+  let url: URL;
+  try {
+    url = new URL(referrer);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol === 'android-app:') {
+    const pkg = url.hostname.toLowerCase();
+    return ANDROID_APPS[pkg] ?? pkg;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  return HOST_ALIASES[host] ?? host;
+}
+
+/**
+ * Whether a host matches any entry of a source list.
+ */
+export function matchesSource(host: string, sources: string[]): boolean {
+  return sources.some((source) =>
+    source.endsWith('.')
+      ? host.startsWith(source) || host.includes('.' + source)
+      : host === source || host.endsWith('.' + source),
+  );
+}
+
+/**
+ * Classify a page view into an acquisition channel.
+ *
+ * `internal` marks self-referrals (the referrer belongs to the site itself),
+ * which are never counted as a traffic source.
+ */
+export function classifyChannel(input: {
+  referrerHost: string | null;
+  internal: boolean;
+  utmSource?: string | null;
+  utmMedium?: string | null;
+  clickId?: string | null;
+}): Channel {
+  if (input.internal) return 'Internal';
+
+  const medium = input.utmMedium?.toLowerCase() ?? '';
+  if (input.clickId || PAID_MEDIUMS.test(medium)) return 'Paid';
+  if (EMAIL_MEDIUMS.test(medium)) return 'Email';
+  if (SOCIAL_MEDIUMS.test(medium)) return 'Social';
+
+  const host = input.referrerHost;
+  if (host) {
+    if (matchesSource(host, EMAIL_SOURCES)) return 'Email';
+    if (matchesSource(host, SOCIAL_SOURCES)) return 'Social';
+    if (matchesSource(host, SEARCH_SOURCES)) return 'Organic Search';
+    return 'Referral';
+  }
+
+  // Without a referrer, a bare utm_source such as "facebook" still names the network
+  const source = input.utmSource?.toLowerCase();
+  if (!source) return 'Direct';
+  if (matchesSource(source + '.com', SOCIAL_SOURCES)) return 'Social';
+  if (matchesSource(source + '.', SEARCH_SOURCES)) return 'Organic Search';
+  return 'Referral';
+}
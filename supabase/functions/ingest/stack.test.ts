@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { isExtensionError, parseStack } from './stack.ts';
+
+describe('parseStack', () => {
+  it('parses V8 frames with and without a function name', () => {
+    const stack = [
+      'TypeError: x is undefined',
+      '    at render (https://example.com/app.js:10:5)',
+      '    at https://example.com/app.js:20:7',
+      '    at Array.map (<anonymous>)',
+    ].join('\n');
+
+    expect(parseStack(stack)).toEqual([
+      {
+        function: 'render',
+        file: 'https://example.com/app.js',
+        line: 10,
+        column: 5,
+        in_app: true,
+        extension: false,
+      },
+      {
+        function: null,
+        file: 'https://example.com/app.js',
+        line: 20,
+        column: 7,
+        in_app: true,
+        extension: false,
+      },
+    ]);
+  });
+
+  it('parses SpiderMonkey and JavaScriptCore frames', () => {
+    const stack = [
+      'render@https://example.com/app.js:10:5',
+      '@https://example.com/app.js:20:7',
+      'https://example.com/vendor.js:3:1',
+      'forEach@[native code]',
+    ].join('\n');
+
+    expect(parseStack(stack).map((f) => [f.function, f.file, f.line, f.column])).toEqual([
+      ['render', 'https://example.com/app.js', 10, 5],
+      [null, 'https://example.com/app.js', 20, 7],
+      [null, 'https://example.com/vendor.js', 3, 1],
+    ]);
+  });
+
+  it('places V8 eval frames at the code that called eval', () => {
+    const [frame] = parseStack(
+      '    at eval (eval at load (https://example.com/app.js:5:9), <anonymous>:1:1)',
+    );
+    expect(frame).toMatchObject({
+      function: 'eval',
+      file: 'https://example.com/app.js',
+      line: 5,
+      column: 9,
+      in_app: false,
+    });
+  });
+
+  it('skips SpiderMonkey eval frames', () => {
+    expect(parseStack('run@https://example.com/app.js line 2 > eval:1:2')).toEqual([]);
+  });
+
+  it('flags extension and non-http frames', () => {
+    const [extension, local] = parseStack(
+      [
+        '    at inject (chrome-extension://abcdef/content.js:1:1)',
+        '    at run (file:///home/me/app.js:1:1)',
+      ].join('\n'),
+    );
+    expect(extension).toMatchObject({ in_app: false, extension: true });
+    expect(local).toMatchObject({ in_app: false, extension: false });
+  });
+
+  it('keeps at most 50 frames', () => {
+    const stack = Array.from({ length: 60 }, (_, i) => `    at f${i} (https://a.test/x.js:${i + 1}:1)`);
+    expect(parseStack(stack.join('\n'))).toHaveLength(50);
+  });
+});
+
+describe('isExtensionError', () => {
+  it('looks at the innermost frame, or without frames the source', () => {
+    const frames = parseStack(
+      '    at a (moz-extension://abc/x.js:1:1)\n    at b (https://example.com/app.js:1:1)',
+    );
+    expect(isExtensionError(frames, null)).toBe(true);
+    expect(isExtensionError(frames.slice(1), 'moz-extension://abc/x.js')).toBe(false);
+    expect(isExtensionError([], 'safari-web-extension://abc/x.js')).toBe(true);
+    expect(isExtensionError([], null)).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Stack trace parsing.
+ *
+ * Turns the stack string of an error into structured frames, innermost
+ * first. Understands the formats of V8 (Chrome, Edge, Node), SpiderMonkey
+ * (Firefox) and JavaScriptCore (Safari):
+ *
+ *   V8:             "    at fn (https://example.com/app.js:1:2)"
+ *                   "    at https://example.com/app.js:1:2"
+ *   SpiderMonkey:   "fn@https://example.com/app.js:1:2"
+ *   JavaScriptCore: "fn@https://example.com/app.js:1:2", "https://example.com/app.js:1:2"
+ *
+ * Lines without a position, such as the message, native code and
+ * SpiderMonkey eval frames ("fn@file line 2 > eval:1:2"), are skipped.
+ * V8 eval frames take the position of the code that called eval.
+ */
+
+/** Frames kept per error */
+const MAX_FRAMES = 50;
+
+/** Scripts injected by browser extensions are not part of the site */
+const EXTENSION_URL = /^(?:chrome|moz|safari(?:-web)?|ms-browser)-extension:\/\//;
+
+const V8_FRAME = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/;
+const V8_EVAL = /^eval at .*?\((.+?):(\d+):(\d+)\)/;
+const GECKO_FRAME = /^(.*?)@(.+?):(\d+):(\d+)$/;
+const JSC_ANONYMOUS_FRAME = /^([\w-]+:\/\/.+?):(\d+):(\d+)$/;
+
+export interface StackFrame {
+  function: string | null;
+  file: string;
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+  /** Whether the frame is from a script served over http(s), i.e. by a site */
+  in_app: boolean;
+  /** Whether the frame is from a browser extension */
+  extension: boolean;
+}
+
+/**
+ * Parse a stack trace into frames, innermost first.
+ */
+export function parseStack(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  for (const line of stack.split('\n')) {
+    const frame = parseFrame(line);
+    if (!frame) continue;
+    frames.push(frame);
+    if (frames.length === MAX_FRAMES) break;
+  }
+
+  return frames;
+}
+
+/**
+ * Whether an error was thrown by a browser extension rather than the
+ * site: its innermost frame, or without frames its source, is an
+ * extension script.
+ */
+export function isExtensionError(frames: StackFrame[], source: string | null): boolean {
+  if (frames.length > 0) return frames[0].extension;
+  return source !== null && EXTENSION_URL.test(source);
+}
+
+function parseFrame(line: string): StackFrame | null {
+  const v8 = line.match(V8_FRAME);
+  if (v8) {
+    const evalOrigin = v8[2].match(V8_EVAL);
+    if (evalOrigin) {
+      // Code run by eval has no file of its own
+      return { ...createFrame(v8[1], evalOrigin[1], evalOrigin[2], evalOrigin[3]), in_app: false };
+    }
+    return createFrame(v8[1], v8[2], v8[3], v8[4]);
+  }
+
+  // SpiderMonkey eval frames end in "line 2 > eval:1:2" and do not match
+  const gecko = line.match(GECKO_FRAME);
+  if (gecko) {
+    if (/ line \d+ > /.test(gecko[2])) return null;
+    return createFrame(gecko[1], gecko[2], gecko[3], gecko[4]);
+  }
+
+  const anonymous = line.trim().match(JSC_ANONYMOUS_FRAME);
+  if (anonymous) return createFrame(undefined, anonymous[1], anonymous[2], anonymous[3]);
+
+  return null;
+}
+
+function createFrame(
+  fn: string | undefined,
+  file: string,
+  line: string,
+  column: string,
+): StackFrame {
+  return {
+    function: fn || null,
+    file,
+    line: Number(line),
+    column: Number(column),
+    in_app: /^https?:\/\//.test(file),
+    extension: EXTENSION_URL.test(file),
+  };
+}
@@ -0,0 +1,139 @@
+-- open-observability sessions and visitor identity
+-- Migration: 00004_sessions
+--
+-- Adds session and visitor identifiers to every event table so
+-- get_page_view_stats can report real unique visitors, sessions,
+-- bounce rate and time on page.
+--
+--   - session_id: cookieless, rotating id generated by the tracker
+--   - visitor_id: hash of a daily salt + site + IP + user agent,
+--                 computed by the ingest function (raw inputs are never stored)
+
+-- ============================================================
+-- Identity columns
+-- ============================================================
+
+ALTER TABLE page_views
+  ADD COLUMN IF NOT EXISTS session_id TEXT,
+  ADD COLUMN IF NOT EXISTS visitor_id TEXT;
+
+ALTER TABLE web_vitals
+  ADD COLUMN IF NOT EXISTS session_id TEXT,
+  ADD COLUMN IF NOT EXISTS visitor_id TEXT;
+
+ALTER TABLE errors
+  ADD COLUMN IF NOT EXISTS session_id TEXT,
+  ADD COLUMN IF NOT EXISTS visitor_id TEXT;
+
+ALTER TABLE custom_events
+  ADD COLUMN IF NOT EXISTS session_id TEXT,
+  ADD COLUMN IF NOT EXISTS visitor_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_page_views_site_session
+  ON page_views (site_id, session_id, created_at);
+
+-- ============================================================
+-- Daily visitor salts
+-- ============================================================
+
+-- One random salt per day. Previous days' salts are deleted as soon as a
+-- new one is issued, which makes older visitor hashes irreversible and
+-- prevents linking the same visitor across days.
+CREATE TABLE IF NOT EXISTS visitor_salts (
+  day        DATE PRIMARY KEY,
+  salt       TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE visitor_salts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role full access" ON visitor_salts
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION get_daily_salt()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_salt TEXT;
+BEGIN
+  DELETE FROM visitor_salts WHERE day < CURRENT_DATE;
+
+  INSERT INTO visitor_salts (day, salt)
+  VALUES (CURRENT_DATE, replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''))
+  ON CONFLICT (day) DO NOTHING;
+
+  SELECT vs.salt INTO v_salt FROM visitor_salts vs WHERE vs.day = CURRENT_DATE;
+  RETURN v_salt;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_daily_salt FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_daily_salt TO service_role;
+
+-- ============================================================
+-- Page View Stats (sessions, bounce rate, time on page)
+-- ============================================================
+
+-- The return type changes, so the old definition must be dropped first.
+DROP FUNCTION IF EXISTS get_page_view_stats(TEXT, TIMESTAMPTZ, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION get_page_view_stats(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  total_views BIGINT,
+  unique_visitors BIGINT,
+  sessions BIGINT,
+  pages_per_session DOUBLE PRECISION,
+  avg_time_on_page DOUBLE PRECISION,
+  bounce_rate DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    WITH views AS (
+      SELECT
+        pv.session_id,
+        -- Rows recorded before visitor hashing fall back to the page view id
+        COALESCE(pv.visitor_id, pv.page_view_id) AS visitor_key,
+        -- Time on page: gap until the next page view in the same session
+        EXTRACT(EPOCH FROM
+          LEAD(pv.created_at) OVER (PARTITION BY pv.session_id ORDER BY pv.created_at)
+          - pv.created_at
+        ) AS seconds_on_page
+      FROM page_views pv
+      WHERE pv.site_id = p_site_id
+        AND pv.created_at >= p_from
+        AND pv.created_at <= p_to
+    ),
+    session_sizes AS (
+      SELECT v.session_id, COUNT(*) AS view_count
+      FROM views v
+      WHERE v.session_id IS NOT NULL
+      GROUP BY v.session_id
+    )
+    SELECT
+      (SELECT COUNT(*) FROM views)::BIGINT,
+      (SELECT COUNT(DISTINCT v.visitor_key) FROM views v)::BIGINT,
+      (SELECT COUNT(*) FROM session_sizes)::BIGINT,
+      (SELECT AVG(s.view_count) FROM session_sizes s)::DOUBLE PRECISION,
+      (SELECT AVG(v.seconds_on_page) FROM views v
+        WHERE v.session_id IS NOT NULL AND v.seconds_on_page IS NOT NULL)::DOUBLE PRECISION,
+      (SELECT 100.0 * COUNT(*) FILTER (WHERE s.view_count = 1) / NULLIF(COUNT(*), 0)
+        FROM session_sizes s)::DOUBLE PRECISION;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_page_view_stats TO authenticated, service_role;
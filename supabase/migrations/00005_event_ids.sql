@@ -0,0 +1,23 @@
+-- open-observability idempotent ingestion
+-- Migration: 00005_event_ids
+--
+-- The tracker gives every event a unique event_id, and may send a batch
+-- more than once: when the response to a delivered batch is lost, or
+-- when a tab is frozen past its lease on a stored batch and another tab
+-- takes it over. Tables without a natural key get a unique
+-- (site_id, event_id) index, which the ingest function upserts on while
+-- ignoring duplicates, so each event is stored once. Events from trackers
+-- that predate event ids have none and are inserted as before.
+
+ALTER TABLE page_views ADD COLUMN IF NOT EXISTS event_id TEXT;
+ALTER TABLE errors ADD COLUMN IF NOT EXISTS event_id TEXT;
+ALTER TABLE custom_events ADD COLUMN IF NOT EXISTS event_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_page_views_site_event
+  ON page_views (site_id, event_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_errors_site_event
+  ON errors (site_id, event_id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_custom_events_site_event
+  ON custom_events (site_id, event_id);
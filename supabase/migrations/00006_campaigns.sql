@@ -0,0 +1,118 @@
+-- open-observability campaign attribution
+-- Migration: 00006_campaigns
+--
+-- Stores UTM parameters captured by the tracker on landing pages
+-- (and carried for the rest of the session) and adds the
+-- get_top_campaigns report. Ad click ids are recorded by parameter
+-- name only (e.g. 'gclid'), never by value: the tracker and the ingest
+-- function strip click id values from page URLs and referrers, and
+-- strip_click_ids removes them from the rows stored before.
+
+-- ============================================================
+-- Campaign columns
+-- ============================================================
+
+ALTER TABLE page_views
+  ADD COLUMN IF NOT EXISTS utm_source   TEXT,
+  ADD COLUMN IF NOT EXISTS utm_medium   TEXT,
+  ADD COLUMN IF NOT EXISTS utm_campaign TEXT,
+  ADD COLUMN IF NOT EXISTS utm_term     TEXT,
+  ADD COLUMN IF NOT EXISTS utm_content  TEXT,
+  ADD COLUMN IF NOT EXISTS click_id     TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_page_views_site_campaign
+  ON page_views (site_id, utm_source, utm_campaign, created_at DESC)
+  WHERE utm_source IS NOT NULL OR utm_campaign IS NOT NULL;
+
+-- ============================================================
+-- Click id removal
+-- ============================================================
+
+-- Removes the click id parameters from a URL's query string, and the
+-- query string itself when nothing else is left in it. URLs without click
+-- ids are returned as they are. Must match CLICK_ID_PARAMS in
+-- supabase/functions/ingest/campaign.ts.
+CREATE OR REPLACE FUNCTION strip_click_ids(p_url TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_url ~ '[?&](gclid|gbraid|wbraid|dclid|fbclid|msclkid|ttclid|twclid|li_fat_id)(=|&|#|$)'
+    THEN regexp_replace(
+      regexp_replace(
+        p_url,
+        '(?<=[?&])(gclid|gbraid|wbraid|dclid|fbclid|msclkid|ttclid|twclid|li_fat_id)(=[^&#]*)?(&|(?=#)|$)',
+        '',
+        'g'
+      ),
+      '[?&]+(#|$)',
+      '\1'
+    )
+    ELSE p_url
+  END;
+$$;
+
+-- Only rows carrying a click id are rewritten
+UPDATE page_views
+  SET url = strip_click_ids(url), referrer = strip_click_ids(referrer)
+  WHERE strip_click_ids(url) <> url OR strip_click_ids(referrer) <> referrer;
+
+UPDATE web_vitals
+  SET url = strip_click_ids(url), referrer = strip_click_ids(referrer)
+  WHERE strip_click_ids(url) <> url OR strip_click_ids(referrer) <> referrer;
+
+UPDATE errors
+  SET url = strip_click_ids(url), referrer = strip_click_ids(referrer)
+  WHERE strip_click_ids(url) <> url OR strip_click_ids(referrer) <> referrer;
+
+UPDATE custom_events
+  SET url = strip_click_ids(url), referrer = strip_click_ids(referrer)
+  WHERE strip_click_ids(url) <> url OR strip_click_ids(referrer) <> referrer;
+
+-- ============================================================
+-- Top Campaigns
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_top_campaigns(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  utm_source TEXT,
+  utm_medium TEXT,
+  utm_campaign TEXT,
+  visitors BIGINT,
+  sessions BIGINT,
+  views BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      pv.utm_source,
+      pv.utm_medium,
+      pv.utm_campaign,
+      COUNT(DISTINCT COALESCE(pv.visitor_id, pv.page_view_id))::BIGINT AS visitors,
+      COUNT(DISTINCT pv.session_id)::BIGINT AS sessions,
+      COUNT(*)::BIGINT AS views
+    FROM page_views pv
+    WHERE pv.site_id = p_site_id
+      AND pv.created_at >= p_from
+      AND pv.created_at <= p_to
+      AND (pv.utm_source IS NOT NULL OR pv.utm_campaign IS NOT NULL)
+    GROUP BY pv.utm_source, pv.utm_medium, pv.utm_campaign
+    ORDER BY visitors DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_top_campaigns TO authenticated, service_role;
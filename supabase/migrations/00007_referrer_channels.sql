@@ -0,0 +1,78 @@
+-- open-observability referrer normalization and channels
+-- Migration: 00007_referrer_channels
+--
+-- Stores the normalized referrer host and acquisition channel computed
+-- by the ingest function, lets each site list extra domains whose
+-- referrals are internal, and adds a grouping mode to get_top_referrers.
+--
+-- Channels: Direct, Organic Search, Social, Email, Referral, Paid, Internal
+
+-- ============================================================
+-- Columns
+-- ============================================================
+
+ALTER TABLE page_views
+  ADD COLUMN IF NOT EXISTS referrer_host TEXT,
+  ADD COLUMN IF NOT EXISTS channel       TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_page_views_site_referrer_host
+  ON page_views (site_id, referrer_host, created_at DESC);
+
+-- Domains (besides the page's own host) that belong to the site,
+-- e.g. '{shop.example.com, example.co.uk}'. Referrals from these hosts
+-- and their subdomains are classified as Internal.
+ALTER TABLE sites
+  ADD COLUMN IF NOT EXISTS domains TEXT[] NOT NULL DEFAULT '{}';
+
+-- ============================================================
+-- Top Referrers (grouping by host, full URL or channel)
+-- ============================================================
+
+-- A parameter is added, so the old signature must be dropped first.
+DROP FUNCTION IF EXISTS get_top_referrers(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INT);
+
+CREATE OR REPLACE FUNCTION get_top_referrers(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10,
+  p_group_by TEXT DEFAULT 'host'
+)
+RETURNS TABLE (referrer TEXT, count BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  IF p_group_by NOT IN ('host', 'url', 'channel') THEN
+    RAISE EXCEPTION 'Invalid grouping: %. Use "host", "url" or "channel".', p_group_by;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      CASE p_group_by
+        WHEN 'url' THEN COALESCE(NULLIF(pv.referrer, ''), '(direct)')
+        -- Rows ingested before classification are Direct or Referral
+        WHEN 'channel' THEN COALESCE(
+          pv.channel,
+          CASE WHEN pv.referrer = '' THEN 'Direct' ELSE 'Referral' END
+        )
+        ELSE COALESCE(pv.referrer_host, NULLIF(pv.referrer, ''), '(direct)')
+      END AS referrer,
+      COUNT(*)::BIGINT AS count
+    FROM page_views pv
+    WHERE pv.site_id = p_site_id
+      AND pv.created_at >= p_from
+      AND pv.created_at <= p_to
+      -- Self-referrals are navigation within the site, not a traffic source
+      AND pv.channel IS DISTINCT FROM 'Internal'
+    GROUP BY 1
+    ORDER BY count DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_top_referrers TO authenticated, service_role;
@@ -0,0 +1,435 @@
+-- open-observability sampling
+-- Migration: 00008_sampling
+--
+-- Records the sample rate each event was collected at and weights the
+-- aggregates by its inverse, so a site tracking 10% of sessions still
+-- sees full-size numbers. The tracker samples whole sessions, so
+-- distinct visitor and session counts are weighted per visitor/session.
+-- Percentiles weigh each row by 1 / sample_rate too, so rows of one group
+-- sampled at different rates - a site changing its sample rate, or per
+-- event type rates mixing in one chart - each count for their share.
+
+-- ============================================================
+-- Columns
+-- ============================================================
+
+ALTER TABLE page_views
+  ADD COLUMN IF NOT EXISTS sample_rate REAL NOT NULL DEFAULT 1
+    CHECK (sample_rate > 0 AND sample_rate <= 1);
+
+ALTER TABLE web_vitals
+  ADD COLUMN IF NOT EXISTS sample_rate REAL NOT NULL DEFAULT 1
+    CHECK (sample_rate > 0 AND sample_rate <= 1);
+
+ALTER TABLE errors
+  ADD COLUMN IF NOT EXISTS sample_rate REAL NOT NULL DEFAULT 1
+    CHECK (sample_rate > 0 AND sample_rate <= 1);
+
+ALTER TABLE custom_events
+  ADD COLUMN IF NOT EXISTS sample_rate REAL NOT NULL DEFAULT 1
+    CHECK (sample_rate > 0 AND sample_rate <= 1);
+
+-- ============================================================
+-- Page View Time Series
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_pageview_timeseries(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_interval TEXT DEFAULT 'hour'
+)
+RETURNS TABLE (bucket TIMESTAMPTZ, count BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  IF p_interval NOT IN ('hour', 'day') THEN
+    RAISE EXCEPTION 'Invalid interval: %. Use "hour" or "day".', p_interval;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      date_trunc(p_interval, pv.created_at) AS bucket,
+      ROUND(SUM(1.0 / pv.sample_rate))::BIGINT AS count
+    FROM page_views pv
+    WHERE pv.site_id = p_site_id
+      AND pv.created_at >= p_from
+      AND pv.created_at <= p_to
+    GROUP BY 1
+    ORDER BY 1;
+END;
+$$;
+
+-- ============================================================
+-- Top Pages
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_top_pages(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (pathname TEXT, count BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      pv.pathname,
+      ROUND(SUM(1.0 / pv.sample_rate))::BIGINT AS count
+    FROM page_views pv
+    WHERE pv.site_id = p_site_id
+      AND pv.created_at >= p_from
+      AND pv.created_at <= p_to
+    GROUP BY pv.pathname
+    ORDER BY count DESC
+    LIMIT p_limit;
+END;
+$$;
+
+-- ============================================================
+-- Top Referrers
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_top_referrers(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10,
+  p_group_by TEXT DEFAULT 'host'
+)
+RETURNS TABLE (referrer TEXT, count BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  IF p_group_by NOT IN ('host', 'url', 'channel') THEN
+    RAISE EXCEPTION 'Invalid grouping: %. Use "host", "url" or "channel".', p_group_by;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      CASE p_group_by
+        WHEN 'url' THEN COALESCE(NULLIF(pv.referrer, ''), '(direct)')
+        -- Rows ingested before classification are Direct or Referral
+        WHEN 'channel' THEN COALESCE(
+          pv.channel,
+          CASE WHEN pv.referrer = '' THEN 'Direct' ELSE 'Referral' END
+        )
+        ELSE COALESCE(pv.referrer_host, NULLIF(pv.referrer, ''), '(direct)')
+      END AS referrer,
+      ROUND(SUM(1.0 / pv.sample_rate))::BIGINT AS count
+    FROM page_views pv
+    WHERE pv.site_id = p_site_id
+      AND pv.created_at >= p_from
+      AND pv.created_at <= p_to
+      -- Self-referrals are navigation within the site, not a traffic source
+      AND pv.channel IS DISTINCT FROM 'Internal'
+    GROUP BY 1
+    ORDER BY count DESC
+    LIMIT p_limit;
+END;
+$$;
+
+-- ============================================================
+-- Top Campaigns
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_top_campaigns(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  utm_source TEXT,
+  utm_medium TEXT,
+  utm_campaign TEXT,
+  visitors BIGINT,
+  sessions BIGINT,
+  views BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    -- One row per visitor and campaign, carrying that visitor's weight
+    WITH per_visitor AS (
+      SELECT
+        pv.utm_source,
+        pv.utm_medium,
+        pv.utm_campaign,
+        COUNT(DISTINCT pv.session_id) AS session_count,
+        SUM(1.0 / pv.sample_rate) AS weighted_views,
+        MAX(1.0 / pv.sample_rate) AS weight
+      FROM page_views pv
+      WHERE pv.site_id = p_site_id
+        AND pv.created_at >= p_from
+        AND pv.created_at <= p_to
+        AND (pv.utm_source IS NOT NULL OR pv.utm_campaign IS NOT NULL)
+      GROUP BY pv.utm_source, pv.utm_medium, pv.utm_campaign,
+        COALESCE(pv.visitor_id, pv.page_view_id)
+    )
+    SELECT
+      c.utm_source,
+      c.utm_medium,
+      c.utm_campaign,
+      ROUND(SUM(c.weight))::BIGINT AS visitors,
+      ROUND(SUM(c.session_count * c.weight))::BIGINT AS sessions,
+      ROUND(SUM(c.weighted_views))::BIGINT AS views
+    FROM per_visitor c
+    GROUP BY c.utm_source, c.utm_medium, c.utm_campaign
+    ORDER BY visitors DESC
+    LIMIT p_limit;
+END;
+$$;
+
+-- ============================================================
+-- Device Breakdown
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_device_breakdown(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (category TEXT, count BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      CASE
+        WHEN pv.screen_width < 768 THEN 'mobile'
+        WHEN pv.screen_width < 1024 THEN 'tablet'
+        ELSE 'desktop'
+      END AS category,
+      ROUND(SUM(1.0 / pv.sample_rate))::BIGINT AS count
+    FROM page_views pv
+    WHERE pv.site_id = p_site_id
+      AND pv.created_at >= p_from
+      AND pv.created_at <= p_to
+    GROUP BY category
+    ORDER BY count DESC;
+END;
+$$;
+
+-- ============================================================
+-- Weighted Percentile
+-- ============================================================
+
+-- PERCENTILE_CONT over a sample in which each value occurs as often as
+-- its weight. Weights are scaled to average 1, so equal weights give
+-- exactly PERCENTILE_CONT: each value spans `weight` positions of the
+-- expanded sample and positions between two values are interpolated.
+-- NULL values and weights are ignored; returns NULL when none are left.
+CREATE OR REPLACE FUNCTION weighted_percentile(
+  p_values DOUBLE PRECISION[],
+  p_weights DOUBLE PRECISION[],
+  p_fraction DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH samples AS (
+    SELECT
+      s.value,
+      s.weight * COUNT(*) OVER () / SUM(s.weight) OVER () AS weight
+    FROM unnest(p_values, p_weights) AS s(value, weight)
+    WHERE s.value IS NOT NULL
+      AND s.weight > 0
+  ),
+  spans AS (
+    SELECT
+      sa.value,
+      sa.weight,
+      SUM(sa.weight) OVER (ORDER BY sa.value ROWS UNBOUNDED PRECEDING) AS cumulative
+    FROM samples sa
+  ),
+  -- First and last position of each value; a weight under 1 spans one point
+  points AS (
+    SELECT sp.cumulative - sp.weight AS position, sp.value
+    FROM spans sp
+    UNION ALL
+    SELECT GREATEST(sp.cumulative - sp.weight, sp.cumulative - 1), sp.value
+    FROM spans sp
+  ),
+  target AS (
+    -- Capped at the last position against rounding errors
+    SELECT LEAST(
+      p_fraction * ((SELECT COUNT(*) FROM samples) - 1),
+      MAX(pt.position)
+    ) AS position
+    FROM points pt
+  ),
+  below AS (
+    SELECT pt.position, pt.value
+    FROM points pt, target t
+    WHERE pt.position <= t.position
+    ORDER BY pt.position DESC
+    LIMIT 1
+  ),
+  above AS (
+    SELECT pt.position, pt.value
+    FROM points pt, target t
+    WHERE pt.position >= t.position
+    ORDER BY pt.position
+    LIMIT 1
+  )
+  SELECT
+    CASE
+      WHEN a.position = b.position THEN b.value
+      ELSE b.value + (a.value - b.value) * (t.position - b.position) / (a.position - b.position)
+    END
+  FROM below b, above a, target t;
+$$;
+
+-- ============================================================
+-- Web Vitals Summary
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_vitals_summary(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  metric_name TEXT,
+  p50 DOUBLE PRECISION,
+  p75 DOUBLE PRECISION,
+  p95 DOUBLE PRECISION,
+  good_count BIGINT,
+  needs_improvement_count BIGINT,
+  poor_count BIGINT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      wv.metric_name,
+      weighted_percentile(ARRAY_AGG(wv.metric_value::DOUBLE PRECISION), ARRAY_AGG(1.0 / wv.sample_rate), 0.5) AS p50,
+      weighted_percentile(ARRAY_AGG(wv.metric_value::DOUBLE PRECISION), ARRAY_AGG(1.0 / wv.sample_rate), 0.75) AS p75,
+      weighted_percentile(ARRAY_AGG(wv.metric_value::DOUBLE PRECISION), ARRAY_AGG(1.0 / wv.sample_rate), 0.95) AS p95,
+      ROUND(COALESCE(SUM(1.0 / wv.sample_rate) FILTER (WHERE wv.metric_rating = 'good'), 0))::BIGINT AS good_count,
+      ROUND(COALESCE(SUM(1.0 / wv.sample_rate) FILTER (WHERE wv.metric_rating = 'needs-improvement'), 0))::BIGINT AS needs_improvement_count,
+      ROUND(COALESCE(SUM(1.0 / wv.sample_rate) FILTER (WHERE wv.metric_rating = 'poor'), 0))::BIGINT AS poor_count,
+      ROUND(SUM(1.0 / wv.sample_rate))::BIGINT AS total_count
+    FROM web_vitals wv
+    WHERE wv.site_id = p_site_id
+      AND wv.created_at >= p_from
+      AND wv.created_at <= p_to
+    GROUP BY wv.metric_name
+    ORDER BY wv.metric_name;
+END;
+$$;
+
+-- ============================================================
+-- Page View Stats
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_page_view_stats(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  total_views BIGINT,
+  unique_visitors BIGINT,
+  sessions BIGINT,
+  pages_per_session DOUBLE PRECISION,
+  avg_time_on_page DOUBLE PRECISION,
+  bounce_rate DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    WITH views AS (
+      SELECT
+        pv.session_id,
+        -- Rows recorded before visitor hashing fall back to the page view id
+        COALESCE(pv.visitor_id, pv.page_view_id) AS visitor_key,
+        1.0 / pv.sample_rate AS weight,
+        -- Time on page: gap until the next page view in the same session
+        EXTRACT(EPOCH FROM
+          LEAD(pv.created_at) OVER (PARTITION BY pv.session_id ORDER BY pv.created_at)
+          - pv.created_at
+        ) AS seconds_on_page
+      FROM page_views pv
+      WHERE pv.site_id = p_site_id
+        AND pv.created_at >= p_from
+        AND pv.created_at <= p_to
+    ),
+    session_sizes AS (
+      SELECT v.session_id, COUNT(*) AS view_count, MAX(v.weight) AS weight
+      FROM views v
+      WHERE v.session_id IS NOT NULL
+      GROUP BY v.session_id
+    ),
+    visitors AS (
+      SELECT MAX(v.weight) AS weight
+      FROM views v
+      GROUP BY v.visitor_key
+    )
+    SELECT
+      (SELECT ROUND(COALESCE(SUM(v.weight), 0)) FROM views v)::BIGINT,
+      (SELECT ROUND(COALESCE(SUM(u.weight), 0)) FROM visitors u)::BIGINT,
+      (SELECT ROUND(COALESCE(SUM(s.weight), 0)) FROM session_sizes s)::BIGINT,
+      (SELECT SUM(s.view_count * s.weight) / NULLIF(SUM(s.weight), 0)
+        FROM session_sizes s)::DOUBLE PRECISION,
+      (SELECT SUM(v.seconds_on_page * v.weight) / NULLIF(SUM(v.weight), 0) FROM views v
+        WHERE v.session_id IS NOT NULL AND v.seconds_on_page IS NOT NULL)::DOUBLE PRECISION,
+      (SELECT 100.0 * SUM(s.weight) FILTER (WHERE s.view_count = 1) / NULLIF(SUM(s.weight), 0)
+        FROM session_sizes s)::DOUBLE PRECISION;
+END;
+$$;
+
+-- ============================================================
+-- Re-grant execute permissions
+-- ============================================================
+
+GRANT EXECUTE ON FUNCTION get_pageview_timeseries TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_top_pages TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_top_referrers TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_top_campaigns TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_device_breakdown TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_vitals_summary TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_page_view_stats TO authenticated, service_role;
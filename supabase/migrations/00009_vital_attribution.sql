@@ -0,0 +1,111 @@
+-- open-observability Web Vitals attribution
+-- Migration: 00009_vital_attribution
+--
+-- Stores what caused each Web Vital value: the responsible element
+-- (LCP element, INP target, largest CLS shift source), the LCP resource
+-- URL, the INP event type, and a breakdown into phases (LCP load and
+-- render delays, INP input/processing/presentation, TTFB DNS/connect/
+-- TLS/server) in milliseconds. get_vital_attribution ranks the causes
+-- of a metric.
+
+-- ============================================================
+-- Columns
+-- ============================================================
+
+ALTER TABLE web_vitals
+  ADD COLUMN IF NOT EXISTS attribution_target     TEXT,
+  ADD COLUMN IF NOT EXISTS attribution_url        TEXT,
+  ADD COLUMN IF NOT EXISTS attribution_event_type TEXT,
+  ADD COLUMN IF NOT EXISTS attribution_phases     JSONB;
+
+-- ============================================================
+-- Vital Attribution
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_vital_attribution(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_metric TEXT,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  target TEXT,
+  url TEXT,
+  event_type TEXT,
+  count BIGINT,
+  poor_count BIGINT,
+  p75 DOUBLE PRECISION,
+  phases JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    WITH vitals AS (
+      SELECT
+        wv.attribution_target,
+        wv.attribution_url,
+        wv.attribution_event_type,
+        wv.attribution_phases,
+        wv.metric_value,
+        wv.metric_rating,
+        1.0 / wv.sample_rate AS weight
+      FROM web_vitals wv
+      WHERE wv.site_id = p_site_id
+        AND wv.created_at >= p_from
+        AND wv.created_at <= p_to
+        AND wv.metric_name = p_metric
+        AND (wv.attribution_target IS NOT NULL
+          OR wv.attribution_url IS NOT NULL
+          OR wv.attribution_phases IS NOT NULL)
+    ),
+    causes AS (
+      SELECT
+        v.attribution_target,
+        v.attribution_url,
+        v.attribution_event_type,
+        ROUND(SUM(v.weight))::BIGINT AS count,
+        ROUND(COALESCE(SUM(v.weight) FILTER (WHERE v.metric_rating = 'poor'), 0))::BIGINT AS poor_count,
+        weighted_percentile(ARRAY_AGG(v.metric_value::DOUBLE PRECISION), ARRAY_AGG(v.weight), 0.75) AS p75
+      FROM vitals v
+      GROUP BY v.attribution_target, v.attribution_url, v.attribution_event_type
+    ),
+    -- Average of each phase per cause
+    phase_averages AS (
+      SELECT
+        v.attribution_target,
+        v.attribution_url,
+        v.attribution_event_type,
+        p.key,
+        AVG(p.value::DOUBLE PRECISION) AS avg_ms
+      FROM vitals v
+      CROSS JOIN LATERAL jsonb_each_text(v.attribution_phases) p
+      GROUP BY v.attribution_target, v.attribution_url, v.attribution_event_type, p.key
+    )
+    SELECT
+      c.attribution_target,
+      c.attribution_url,
+      c.attribution_event_type,
+      c.count,
+      c.poor_count,
+      c.p75,
+      (
+        SELECT jsonb_object_agg(pa.key, ROUND(pa.avg_ms::NUMERIC))
+        FROM phase_averages pa
+        WHERE pa.attribution_target IS NOT DISTINCT FROM c.attribution_target
+          AND pa.attribution_url IS NOT DISTINCT FROM c.attribution_url
+          AND pa.attribution_event_type IS NOT DISTINCT FROM c.attribution_event_type
+      )
+    FROM causes c
+    ORDER BY c.poor_count DESC, c.count DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_vital_attribution TO authenticated, service_role;
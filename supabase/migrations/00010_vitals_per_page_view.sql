@@ -0,0 +1,63 @@
+-- open-observability per page view Web Vitals
+-- Migration: 00010_vitals_per_page_view
+--
+-- The tracker now measures Web Vitals per page view: SPA route changes
+-- and bfcache restores start new measurements, and each metric records
+-- the page view it belongs to. navigation_type distinguishes
+-- 'soft-navigation' and 'back-forward-cache' from document loads.
+-- get_vitals_by_page ranks routes by a metric's p75.
+
+-- ============================================================
+-- Columns
+-- ============================================================
+
+ALTER TABLE web_vitals
+  ADD COLUMN IF NOT EXISTS page_view_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_web_vitals_page_view
+  ON web_vitals (page_view_id)
+  WHERE page_view_id IS NOT NULL;
+
+-- ============================================================
+-- Vitals by Page
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_vitals_by_page(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_metric TEXT,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  pathname TEXT,
+  p75 DOUBLE PRECISION,
+  poor_count BIGINT,
+  total_count BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      wv.pathname,
+      weighted_percentile(ARRAY_AGG(wv.metric_value::DOUBLE PRECISION), ARRAY_AGG(1.0 / wv.sample_rate), 0.75) AS p75,
+      ROUND(COALESCE(SUM(1.0 / wv.sample_rate) FILTER (WHERE wv.metric_rating = 'poor'), 0))::BIGINT AS poor_count,
+      ROUND(SUM(1.0 / wv.sample_rate))::BIGINT AS total_count
+    FROM web_vitals wv
+    WHERE wv.site_id = p_site_id
+      AND wv.created_at >= p_from
+      AND wv.created_at <= p_to
+      AND wv.metric_name = p_metric
+    GROUP BY wv.pathname
+    ORDER BY p75 DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_vitals_by_page TO authenticated, service_role;
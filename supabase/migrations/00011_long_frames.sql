@@ -0,0 +1,106 @@
+-- open-observability long animation frames
+-- Migration: 00011_long_frames
+--
+-- Stores main-thread jank reported by the tracker's optional long frame
+-- collector: one row per page view with the number of long frames (or
+-- long tasks), total blocking time, the worst frame, and the scripts
+-- that ran in the worst frames. The tracker re-sends a page view's
+-- totals under the same report_id, replacing the previous row.
+-- get_blocking_scripts ranks scripts by the time they blocked.
+
+-- ============================================================
+-- Long Frames
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS long_frames (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id         TEXT NOT NULL,
+  url             TEXT NOT NULL,
+  pathname        TEXT NOT NULL,
+  page_view_id    TEXT,
+  report_id       TEXT NOT NULL,
+  entry_type      TEXT NOT NULL CHECK (entry_type IN ('long-animation-frame', 'longtask')),
+  frame_count     INT NOT NULL DEFAULT 0,
+  blocking_time   DOUBLE PRECISION NOT NULL DEFAULT 0,
+  worst_duration  DOUBLE PRECISION NOT NULL DEFAULT 0,
+  -- [{ source_url, function_name, invoker, invoker_type, duration, frame_duration }]
+  scripts         JSONB,
+  referrer        TEXT DEFAULT '',
+  screen_width    INT DEFAULT 0,
+  timezone        TEXT DEFAULT 'Unknown',
+  language        TEXT DEFAULT 'en',
+  connection_type TEXT,
+  tracker_version TEXT DEFAULT '',
+  session_id      TEXT,
+  visitor_id      TEXT,
+  sample_rate     REAL NOT NULL DEFAULT 1 CHECK (sample_rate > 0 AND sample_rate <= 1),
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_long_frames_site_created
+  ON long_frames (site_id, created_at DESC);
+
+-- Later reports for a page view replace earlier ones
+CREATE UNIQUE INDEX idx_long_frames_dedup
+  ON long_frames (site_id, report_id);
+
+ALTER TABLE long_frames ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read" ON long_frames
+  FOR SELECT TO authenticated
+  USING (check_site_membership(site_id));
+
+CREATE POLICY "Service role full access" ON long_frames
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================
+-- Blocking Scripts
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_blocking_scripts(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  source_url TEXT,
+  function_name TEXT,
+  invoker TEXT,
+  total_duration DOUBLE PRECISION,
+  occurrences BIGINT,
+  page_views BIGINT,
+  worst_frame DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      NULLIF(s.script->>'source_url', '') AS source_url,
+      s.script->>'function_name' AS function_name,
+      s.script->>'invoker' AS invoker,
+      SUM((s.script->>'duration')::DOUBLE PRECISION / lf.sample_rate)::DOUBLE PRECISION AS total_duration,
+      ROUND(SUM(1.0 / lf.sample_rate))::BIGINT AS occurrences,
+      COUNT(DISTINCT lf.report_id)::BIGINT AS page_views,
+      MAX((s.script->>'frame_duration')::DOUBLE PRECISION) AS worst_frame
+    FROM long_frames lf
+    CROSS JOIN LATERAL jsonb_array_elements(lf.scripts) AS s(script)
+    WHERE lf.site_id = p_site_id
+      AND lf.created_at >= p_from
+      AND lf.created_at <= p_to
+      AND lf.scripts IS NOT NULL
+    GROUP BY 1, 2, 3
+    ORDER BY total_duration DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_blocking_scripts TO authenticated, service_role;
@@ -0,0 +1,191 @@
+-- open-observability resource timing
+-- Migration: 00012_resource_timings
+--
+-- Stores the tracker's optional per page view resource summaries: resource
+-- count and transfer size (total, first- and third-party, by initiator
+-- type), the hosts with the most bytes, and the slowest, render-blocking
+-- and failed resources. The tracker re-sends a page view's summary under
+-- the same report_id, replacing the previous row.
+-- get_slow_resources ranks resources (or their hosts) by p75 duration and
+-- get_third_party_impact ranks third-party hosts by transfer size.
+
+-- ============================================================
+-- Resource Timings
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS resource_timings (
+  id                    UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id               TEXT NOT NULL,
+  url                   TEXT NOT NULL,
+  pathname              TEXT NOT NULL,
+  page_view_id          TEXT,
+  report_id             TEXT NOT NULL,
+  resource_count        INT NOT NULL DEFAULT 0,
+  transfer_size         BIGINT NOT NULL DEFAULT 0,
+  first_party_bytes     BIGINT NOT NULL DEFAULT 0,
+  third_party_bytes     BIGINT NOT NULL DEFAULT 0,
+  render_blocking_count INT NOT NULL DEFAULT 0,
+  failed_count          INT NOT NULL DEFAULT 0,
+  -- { "<initiator_type>": { count, transfer_size } }
+  initiators            JSONB,
+  -- [{ host, first_party, count, transfer_size, duration }]
+  hosts                 JSONB,
+  -- [{ url, host, initiator_type, duration, transfer_size, render_blocking, status, failed }]
+  resources             JSONB,
+  referrer              TEXT DEFAULT '',
+  screen_width          INT DEFAULT 0,
+  timezone              TEXT DEFAULT 'Unknown',
+  language              TEXT DEFAULT 'en',
+  connection_type       TEXT,
+  tracker_version       TEXT DEFAULT '',
+  session_id            TEXT,
+  visitor_id            TEXT,
+  sample_rate           REAL NOT NULL DEFAULT 1 CHECK (sample_rate > 0 AND sample_rate <= 1),
+  created_at            TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_resource_timings_site_created
+  ON resource_timings (site_id, created_at DESC);
+
+-- Later reports for a page view replace earlier ones
+CREATE UNIQUE INDEX idx_resource_timings_dedup
+  ON resource_timings (site_id, report_id);
+
+ALTER TABLE resource_timings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read" ON resource_timings
+  FOR SELECT TO authenticated
+  USING (check_site_membership(site_id));
+
+CREATE POLICY "Service role full access" ON resource_timings
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================
+-- Slow Resources
+-- ============================================================
+
+-- Only each page view's slowest, render-blocking and failed resources are
+-- stored, so fast resources are under-counted by design.
+CREATE OR REPLACE FUNCTION get_slow_resources(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10,
+  p_group_by TEXT DEFAULT 'url'
+)
+RETURNS TABLE (
+  resource TEXT,
+  initiator_type TEXT,
+  p75_duration DOUBLE PRECISION,
+  avg_transfer_size BIGINT,
+  occurrences BIGINT,
+  render_blocking_count BIGINT,
+  failed_count BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  IF p_group_by NOT IN ('url', 'host') THEN
+    RAISE EXCEPTION 'Invalid grouping: %. Use "url" or "host".', p_group_by;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      CASE p_group_by
+        WHEN 'host' THEN COALESCE(NULLIF(r.res->>'host', ''), '(unknown)')
+        ELSE r.res->>'url'
+      END AS resource,
+      MODE() WITHIN GROUP (ORDER BY r.res->>'initiator_type') AS initiator_type,
+      weighted_percentile(
+        ARRAY_AGG((r.res->>'duration')::DOUBLE PRECISION), ARRAY_AGG(1.0 / rt.sample_rate), 0.75
+      ) AS p75_duration,
+      ROUND(AVG((r.res->>'transfer_size')::BIGINT))::BIGINT AS avg_transfer_size,
+      ROUND(SUM(1.0 / rt.sample_rate))::BIGINT AS occurrences,
+      ROUND(COALESCE(
+        SUM(1.0 / rt.sample_rate) FILTER (WHERE (r.res->>'render_blocking')::BOOLEAN), 0
+      ))::BIGINT AS render_blocking_count,
+      ROUND(COALESCE(
+        SUM(1.0 / rt.sample_rate) FILTER (WHERE (r.res->>'failed')::BOOLEAN), 0
+      ))::BIGINT AS failed_count
+    FROM resource_timings rt
+    CROSS JOIN LATERAL jsonb_array_elements(rt.resources) AS r(res)
+    WHERE rt.site_id = p_site_id
+      AND rt.created_at >= p_from
+      AND rt.created_at <= p_to
+      AND rt.resources IS NOT NULL
+    GROUP BY 1
+    ORDER BY p75_duration DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_slow_resources TO authenticated, service_role;
+
+-- ============================================================
+-- Third-Party Impact
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_third_party_impact(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  host TEXT,
+  requests BIGINT,
+  page_views BIGINT,
+  transfer_size BIGINT,
+  avg_duration DOUBLE PRECISION,
+  bytes_share DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    WITH in_range AS (
+      SELECT rt.hosts, rt.transfer_size, rt.sample_rate
+      FROM resource_timings rt
+      WHERE rt.site_id = p_site_id
+        AND rt.created_at >= p_from
+        AND rt.created_at <= p_to
+    ),
+    total AS (
+      SELECT SUM(ir.transfer_size / ir.sample_rate) AS bytes
+      FROM in_range ir
+    )
+    SELECT
+      h.entry->>'host' AS host,
+      ROUND(SUM((h.entry->>'count')::BIGINT / ir.sample_rate))::BIGINT AS requests,
+      ROUND(SUM(1.0 / ir.sample_rate))::BIGINT AS page_views,
+      ROUND(SUM((h.entry->>'transfer_size')::BIGINT / ir.sample_rate))::BIGINT AS transfer_size,
+      (SUM((h.entry->>'duration')::DOUBLE PRECISION)
+        / NULLIF(SUM((h.entry->>'count')::BIGINT), 0))::DOUBLE PRECISION AS avg_duration,
+      COALESCE(
+        SUM((h.entry->>'transfer_size')::BIGINT / ir.sample_rate)
+          / NULLIF((SELECT t.bytes FROM total t), 0),
+        0
+      )::DOUBLE PRECISION AS bytes_share
+    FROM in_range ir
+    CROSS JOIN LATERAL jsonb_array_elements(ir.hosts) AS h(entry)
+    WHERE ir.hosts IS NOT NULL
+      AND NOT COALESCE((h.entry->>'first_party')::BOOLEAN, false)
+    GROUP BY 1
+    ORDER BY transfer_size DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_third_party_impact TO authenticated, service_role;
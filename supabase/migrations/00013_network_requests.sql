@@ -0,0 +1,125 @@
+-- open-observability network requests
+-- Migration: 00013_network_requests
+--
+-- Stores the fetch and XMLHttpRequest calls reported by the tracker's
+-- optional network instrumentation: one row per request with its method,
+-- URL template (query stripped, id-like path segments replaced by ":id"),
+-- status, duration and failure type. get_api_calls aggregates them per
+-- endpoint with p50/p95 latency and error rate.
+
+-- ============================================================
+-- Network Requests
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS network_requests (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id         TEXT NOT NULL,
+  url             TEXT NOT NULL,
+  pathname        TEXT NOT NULL,
+  page_view_id    TEXT,
+  event_id        TEXT,
+  method          TEXT NOT NULL,
+  url_template    TEXT NOT NULL,
+  host            TEXT,
+  status          INT NOT NULL DEFAULT 0,
+  duration        DOUBLE PRECISION NOT NULL DEFAULT 0,
+  failure_type    TEXT CHECK (failure_type IN ('http', 'network', 'timeout', 'abort')),
+  initiator       TEXT CHECK (initiator IN ('fetch', 'xhr')),
+  referrer        TEXT DEFAULT '',
+  screen_width    INT DEFAULT 0,
+  timezone        TEXT DEFAULT 'Unknown',
+  language        TEXT DEFAULT 'en',
+  connection_type TEXT,
+  tracker_version TEXT DEFAULT '',
+  session_id      TEXT,
+  visitor_id      TEXT,
+  sample_rate     REAL NOT NULL DEFAULT 1 CHECK (sample_rate > 0 AND sample_rate <= 1),
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_network_requests_site_created
+  ON network_requests (site_id, created_at DESC);
+
+CREATE INDEX idx_network_requests_endpoint
+  ON network_requests (site_id, url_template, method);
+
+-- A batch sent again stores each event once (see 00005_event_ids)
+CREATE UNIQUE INDEX idx_network_requests_site_event
+  ON network_requests (site_id, event_id);
+
+ALTER TABLE network_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read" ON network_requests
+  FOR SELECT TO authenticated
+  USING (check_site_membership(site_id));
+
+CREATE POLICY "Service role full access" ON network_requests
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================
+-- API Calls
+-- ============================================================
+
+-- Aborted requests are usually cancelled on purpose, so they count towards
+-- neither latency nor the error rate. Latency only covers requests that
+-- received a response.
+CREATE OR REPLACE FUNCTION get_api_calls(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  method TEXT,
+  url_template TEXT,
+  requests BIGINT,
+  error_count BIGINT,
+  error_rate DOUBLE PRECISION,
+  p50 DOUBLE PRECISION,
+  p95 DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      nr.method,
+      nr.url_template,
+      ROUND(SUM(1.0 / nr.sample_rate))::BIGINT AS requests,
+      ROUND(COALESCE(
+        SUM(1.0 / nr.sample_rate) FILTER (WHERE nr.failure_type IS NOT NULL), 0
+      ))::BIGINT AS error_count,
+      COALESCE(
+        100.0 * SUM(1.0 / nr.sample_rate) FILTER (WHERE nr.failure_type IS NOT NULL)
+          / NULLIF(SUM(1.0 / nr.sample_rate), 0),
+        0
+      )::DOUBLE PRECISION AS error_rate,
+      weighted_percentile(
+        ARRAY_AGG(nr.duration::DOUBLE PRECISION) FILTER (WHERE nr.status > 0),
+        ARRAY_AGG(1.0 / nr.sample_rate) FILTER (WHERE nr.status > 0),
+        0.5
+      ) AS p50,
+      weighted_percentile(
+        ARRAY_AGG(nr.duration::DOUBLE PRECISION) FILTER (WHERE nr.status > 0),
+        ARRAY_AGG(1.0 / nr.sample_rate) FILTER (WHERE nr.status > 0),
+        0.95
+      ) AS p95
+    FROM network_requests nr
+    WHERE nr.site_id = p_site_id
+      AND nr.created_at >= p_from
+      AND nr.created_at <= p_to
+      AND nr.failure_type IS DISTINCT FROM 'abort'
+    GROUP BY nr.method, nr.url_template
+    ORDER BY requests DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_api_calls TO authenticated, service_role;
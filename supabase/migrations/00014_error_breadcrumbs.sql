@@ -0,0 +1,14 @@
+-- open-observability error breadcrumbs
+-- Migration: 00014_error_breadcrumbs
+--
+-- Errors now carry the breadcrumbs recorded before them: navigations,
+-- clicks, console warnings and errors, network requests and custom
+-- entries, oldest first.
+
+-- ============================================================
+-- Columns
+-- ============================================================
+
+-- [{ type, timestamp, message, level, data }]
+ALTER TABLE errors
+  ADD COLUMN IF NOT EXISTS breadcrumbs JSONB;
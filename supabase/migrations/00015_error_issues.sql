@@ -0,0 +1,235 @@
+-- open-observability error issues
+-- Migration: 00015_error_issues
+--
+-- Groups errors into issues. The ingest function fingerprints each error
+-- (normalized message, top in-app stack frames, source file), and
+-- record_errors stores the errors with their fingerprints and records
+-- each occurrence on the issue with that fingerprint, in one transaction.
+-- Issues are open, resolved or ignored; a resolved issue that occurs
+-- again reopens as a regression.
+
+-- ============================================================
+-- Columns
+-- ============================================================
+
+ALTER TABLE errors
+  ADD COLUMN IF NOT EXISTS fingerprint TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_errors_fingerprint
+  ON errors (site_id, fingerprint, created_at DESC);
+
+-- ============================================================
+-- Error Issues
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS error_issues (
+  id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id       TEXT NOT NULL,
+  fingerprint   TEXT NOT NULL,
+  -- Message and source of the first occurrence
+  message       TEXT NOT NULL,
+  source        TEXT,
+  status        TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'ignored')),
+  first_seen    TIMESTAMPTZ NOT NULL,
+  last_seen     TIMESTAMPTZ NOT NULL,
+  -- Weighted by sample rate
+  occurrences   BIGINT NOT NULL DEFAULT 0,
+  resolved_at   TIMESTAMPTZ,
+  -- When a resolved issue last reopened
+  regressed_at  TIMESTAMPTZ,
+  UNIQUE (site_id, fingerprint)
+);
+
+CREATE INDEX idx_error_issues_site_last_seen
+  ON error_issues (site_id, last_seen DESC);
+
+ALTER TABLE error_issues ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read" ON error_issues
+  FOR SELECT TO authenticated
+  USING (check_site_membership(site_id));
+
+CREATE POLICY "Service role full access" ON error_issues
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================
+-- Recording Errors
+-- ============================================================
+
+-- Called by the ingest function with the batch's error rows, keyed by
+-- column name. Errors whose event_id was stored before are skipped, so a
+-- retried batch counts its errors once. An occurrence seen after its
+-- issue was resolved reopens it. Occurrences from before the resolution
+-- (e.g. retried from an offline queue) do not.
+CREATE OR REPLACE FUNCTION record_errors(p_errors JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  WITH inserted AS (
+    INSERT INTO errors (
+      site_id, url, pathname, referrer, screen_width, timezone, language,
+      connection_type, tracker_version, session_id, visitor_id, sample_rate,
+      created_at, event_id, message, stack, source, line, column_number,
+      breadcrumbs, fingerprint
+    )
+    SELECT
+      e.site_id, e.url, e.pathname, e.referrer, e.screen_width, e.timezone, e.language,
+      e.connection_type, e.tracker_version, e.session_id, e.visitor_id, e.sample_rate,
+      e.created_at, e.event_id, e.message, e.stack, e.source, e.line, e.column_number,
+      e.breadcrumbs, e.fingerprint
+    FROM jsonb_populate_recordset(NULL::errors, p_errors) AS e
+    ON CONFLICT (site_id, event_id) DO NOTHING
+    RETURNING site_id, fingerprint, message, source, created_at, sample_rate
+  )
+  INSERT INTO error_issues AS ei (
+    site_id, fingerprint, message, source, first_seen, last_seen, occurrences
+  )
+  SELECT
+    i.site_id,
+    i.fingerprint,
+    (ARRAY_AGG(i.message ORDER BY i.created_at))[1],
+    (ARRAY_AGG(i.source ORDER BY i.created_at))[1],
+    MIN(i.created_at),
+    MAX(i.created_at),
+    -- Weighted by sample rate
+    ROUND(SUM(1.0 / i.sample_rate))::BIGINT
+  FROM inserted i
+  WHERE i.fingerprint IS NOT NULL
+  GROUP BY i.site_id, i.fingerprint
+  ON CONFLICT (site_id, fingerprint) DO UPDATE SET
+    first_seen = LEAST(ei.first_seen, EXCLUDED.first_seen),
+    last_seen = GREATEST(ei.last_seen, EXCLUDED.last_seen),
+    occurrences = ei.occurrences + EXCLUDED.occurrences,
+    status = CASE
+      WHEN ei.status = 'resolved' AND EXCLUDED.last_seen > ei.resolved_at THEN 'open'
+      ELSE ei.status
+    END,
+    regressed_at = CASE
+      WHEN ei.status = 'resolved' AND EXCLUDED.last_seen > ei.resolved_at THEN NOW()
+      ELSE ei.regressed_at
+    END,
+    resolved_at = CASE
+      WHEN ei.status = 'resolved' AND EXCLUDED.last_seen > ei.resolved_at THEN NULL
+      ELSE ei.resolved_at
+    END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_errors FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_errors TO service_role;
+
+-- ============================================================
+-- Error Issues Query
+-- ============================================================
+
+-- Issues that occurred in the period, most frequent first. occurrences
+-- and first_seen/last_seen cover all time; the period_ columns and
+-- affected_pages only the period.
+CREATE OR REPLACE FUNCTION get_error_issues(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_status TEXT DEFAULT NULL,
+  p_limit INT DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  fingerprint TEXT,
+  message TEXT,
+  source TEXT,
+  status TEXT,
+  first_seen TIMESTAMPTZ,
+  last_seen TIMESTAMPTZ,
+  occurrences BIGINT,
+  period_occurrences BIGINT,
+  affected_pages BIGINT,
+  regressed_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  IF p_status IS NOT NULL AND p_status NOT IN ('open', 'resolved', 'ignored') THEN
+    RAISE EXCEPTION 'Invalid status: %. Use "open", "resolved" or "ignored".', p_status;
+  END IF;
+
+  RETURN QUERY
+    WITH period AS (
+      SELECT
+        e.fingerprint,
+        ROUND(SUM(1.0 / e.sample_rate))::BIGINT AS occurrences,
+        COUNT(DISTINCT e.pathname)::BIGINT AS pages
+      FROM errors e
+      WHERE e.site_id = p_site_id
+        AND e.created_at >= p_from
+        AND e.created_at <= p_to
+        AND e.fingerprint IS NOT NULL
+      GROUP BY e.fingerprint
+    )
+    SELECT
+      ei.id,
+      ei.fingerprint,
+      ei.message,
+      ei.source,
+      ei.status,
+      ei.first_seen,
+      ei.last_seen,
+      ei.occurrences,
+      p.occurrences AS period_occurrences,
+      p.pages AS affected_pages,
+      ei.regressed_at
+    FROM error_issues ei
+    JOIN period p ON p.fingerprint = ei.fingerprint
+    WHERE ei.site_id = p_site_id
+      AND (p_status IS NULL OR ei.status = p_status)
+    ORDER BY p.occurrences DESC, ei.last_seen DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_error_issues TO authenticated, service_role;
+
+-- ============================================================
+-- Issue Status
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION update_issue_status(
+  p_site_id TEXT,
+  p_issue_id UUID,
+  p_status TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  IF p_status NOT IN ('open', 'resolved', 'ignored') THEN
+    RAISE EXCEPTION 'Invalid status: %. Use "open", "resolved" or "ignored".', p_status;
+  END IF;
+
+  UPDATE error_issues ei
+  SET
+    status = p_status,
+    resolved_at = CASE WHEN p_status = 'resolved' THEN NOW() ELSE NULL END
+  WHERE ei.id = p_issue_id
+    AND ei.site_id = p_site_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Issue % not found', p_issue_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION update_issue_status TO authenticated, service_role;
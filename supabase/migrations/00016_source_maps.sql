@@ -0,0 +1,120 @@
+-- open-observability source maps
+-- Migration: 00016_source_maps
+--
+-- Stores the release an error's code was built from, and a private storage
+-- bucket for source maps. Maps are uploaded per site and release as
+-- "<site_id>/<release>/<script path>.map" and applied to stack traces at
+-- query time, so errors keep their stack exactly as reported.
+
+-- ============================================================
+-- Columns
+-- ============================================================
+
+ALTER TABLE errors
+  ADD COLUMN IF NOT EXISTS release TEXT;
+
+-- ============================================================
+-- Recording Errors
+-- ============================================================
+
+-- As before, storing each error's release too
+CREATE OR REPLACE FUNCTION record_errors(p_errors JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  WITH inserted AS (
+    INSERT INTO errors (
+      site_id, url, pathname, referrer, screen_width, timezone, language,
+      connection_type, tracker_version, session_id, visitor_id, sample_rate,
+      created_at, event_id, message, stack, source, line, column_number,
+      breadcrumbs, release, fingerprint
+    )
+    SELECT
+      e.site_id, e.url, e.pathname, e.referrer, e.screen_width, e.timezone, e.language,
+      e.connection_type, e.tracker_version, e.session_id, e.visitor_id, e.sample_rate,
+      e.created_at, e.event_id, e.message, e.stack, e.source, e.line, e.column_number,
+      e.breadcrumbs, e.release, e.fingerprint
+    FROM jsonb_populate_recordset(NULL::errors, p_errors) AS e
+    ON CONFLICT (site_id, event_id) DO NOTHING
+    RETURNING site_id, fingerprint, message, source, created_at, sample_rate
+  )
+  INSERT INTO error_issues AS ei (
+    site_id, fingerprint, message, source, first_seen, last_seen, occurrences
+  )
+  SELECT
+    i.site_id,
+    i.fingerprint,
+    (ARRAY_AGG(i.message ORDER BY i.created_at))[1],
+    (ARRAY_AGG(i.source ORDER BY i.created_at))[1],
+    MIN(i.created_at),
+    MAX(i.created_at),
+    -- Weighted by sample rate
+    ROUND(SUM(1.0 / i.sample_rate))::BIGINT
+  FROM inserted i
+  WHERE i.fingerprint IS NOT NULL
+  GROUP BY i.site_id, i.fingerprint
+  ON CONFLICT (site_id, fingerprint) DO UPDATE SET
+    first_seen = LEAST(ei.first_seen, EXCLUDED.first_seen),
+    last_seen = GREATEST(ei.last_seen, EXCLUDED.last_seen),
+    occurrences = ei.occurrences + EXCLUDED.occurrences,
+    status = CASE
+      WHEN ei.status = 'resolved' AND EXCLUDED.last_seen > ei.resolved_at THEN 'open'
+      ELSE ei.status
+    END,
+    regressed_at = CASE
+      WHEN ei.status = 'resolved' AND EXCLUDED.last_seen > ei.resolved_at THEN NOW()
+      ELSE ei.regressed_at
+    END,
+    resolved_at = CASE
+      WHEN ei.status = 'resolved' AND EXCLUDED.last_seen > ei.resolved_at THEN NULL
+      ELSE ei.resolved_at
+    END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_errors FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_errors TO service_role;
+
+-- ============================================================
+-- Source Map Storage
+-- ============================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('sourcemaps', 'sourcemaps', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- The first folder of an object's path is its site
+CREATE POLICY "Members can read source maps" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'sourcemaps'
+    AND check_site_membership((storage.foldername(name))[1])
+  );
+
+CREATE POLICY "Members can upload source maps" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'sourcemaps'
+    AND check_site_membership((storage.foldername(name))[1])
+  );
+
+-- Uploading with upsert replaces the map of an existing release
+CREATE POLICY "Members can replace source maps" ON storage.objects
+  FOR UPDATE TO authenticated
+  USING (
+    bucket_id = 'sourcemaps'
+    AND check_site_membership((storage.foldername(name))[1])
+  )
+  WITH CHECK (
+    bucket_id = 'sourcemaps'
+    AND check_site_membership((storage.foldername(name))[1])
+  );
+
+CREATE POLICY "Members can delete source maps" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'sourcemaps'
+    AND check_site_membership((storage.foldername(name))[1])
+  );
@@ -0,0 +1,80 @@
+-- open-observability structured stack frames
+-- Migration: 00017_error_frames
+--
+-- The ingest function parses each error's stack trace (V8, SpiderMonkey
+-- and JavaScriptCore formats) into frames:
+-- [{ function, file, line, column, in_app, extension }], innermost first.
+-- Errors whose innermost frame is a browser extension script are flagged
+-- so they can be filtered out.
+
+-- ============================================================
+-- Columns
+-- ============================================================
+
+ALTER TABLE errors
+  ADD COLUMN IF NOT EXISTS frames JSONB,
+  ADD COLUMN IF NOT EXISTS from_extension BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================================
+-- Recording Errors
+-- ============================================================
+
+-- As before, storing each error's frames and extension flag too
+CREATE OR REPLACE FUNCTION record_errors(p_errors JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  WITH inserted AS (
+    INSERT INTO errors (
+      site_id, url, pathname, referrer, screen_width, timezone, language,
+      connection_type, tracker_version, session_id, visitor_id, sample_rate,
+      created_at, event_id, message, stack, frames, from_extension, source,
+      line, column_number, breadcrumbs, release, fingerprint
+    )
+    SELECT
+      e.site_id, e.url, e.pathname, e.referrer, e.screen_width, e.timezone, e.language,
+      e.connection_type, e.tracker_version, e.session_id, e.visitor_id, e.sample_rate,
+      e.created_at, e.event_id, e.message, e.stack, e.frames, e.from_extension, e.source,
+      e.line, e.column_number, e.breadcrumbs, e.release, e.fingerprint
+    FROM jsonb_populate_recordset(NULL::errors, p_errors) AS e
+    ON CONFLICT (site_id, event_id) DO NOTHING
+    RETURNING site_id, fingerprint, message, source, created_at, sample_rate
+  )
+  INSERT INTO error_issues AS ei (
+    site_id, fingerprint, message, source, first_seen, last_seen, occurrences
+  )
+  SELECT
+    i.site_id,
+    i.fingerprint,
+    (ARRAY_AGG(i.message ORDER BY i.created_at))[1],
+    (ARRAY_AGG(i.source ORDER BY i.created_at))[1],
+    MIN(i.created_at),
+    MAX(i.created_at),
+    -- Weighted by sample rate
+    ROUND(SUM(1.0 / i.sample_rate))::BIGINT
+  FROM inserted i
+  WHERE i.fingerprint IS NOT NULL
+  GROUP BY i.site_id, i.fingerprint
+  ON CONFLICT (site_id, fingerprint) DO UPDATE SET
+    first_seen = LEAST(ei.first_seen, EXCLUDED.first_seen),
+    last_seen = GREATEST(ei.last_seen, EXCLUDED.last_seen),
+    occurrences = ei.occurrences + EXCLUDED.occurrences,
+    status = CASE
+      WHEN ei.status = 'resolved' AND EXCLUDED.last_seen > ei.resolved_at THEN 'open'
+      ELSE ei.status
+    END,
+    regressed_at = CASE
+      WHEN ei.status = 'resolved' AND EXCLUDED.last_seen > ei.resolved_at THEN NOW()
+      ELSE ei.regressed_at
+    END,
+    resolved_at = CASE
+      WHEN ei.status = 'resolved' AND EXCLUDED.last_seen > ei.resolved_at THEN NULL
+      ELSE ei.resolved_at
+    END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_errors FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_errors TO service_role;
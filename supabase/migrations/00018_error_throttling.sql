@@ -0,0 +1,240 @@
+-- open-observability error throttling
+-- Migration: 00018_error_throttling
+--
+-- The tracker merges identical errors within a short window into one
+-- event with an occurrence count, caps errors per page view and per
+-- session, and drops errors matching its ignore and deny lists. Error rows
+-- record how many occurrences they stand for, and error_drops stores each
+-- page view's merged and dropped counts, re-sent under the same report_id.
+
+-- ============================================================
+-- Columns
+-- ============================================================
+
+ALTER TABLE errors
+  ADD COLUMN IF NOT EXISTS occurrences INT NOT NULL DEFAULT 1 CHECK (occurrences > 0);
+
+-- ============================================================
+-- Recording Errors
+-- ============================================================
+
+-- As before, with each error counting for its occurrences on its issue
+CREATE OR REPLACE FUNCTION record_errors(p_errors JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  WITH inserted AS (
+    INSERT INTO errors (
+      site_id, url, pathname, referrer, screen_width, timezone, language,
+      connection_type, tracker_version, session_id, visitor_id, sample_rate,
+      created_at, event_id, message, stack, frames, from_extension, source,
+      line, column_number, breadcrumbs, release, occurrences, fingerprint
+    )
+    SELECT
+      e.site_id, e.url, e.pathname, e.referrer, e.screen_width, e.timezone, e.language,
+      e.connection_type, e.tracker_version, e.session_id, e.visitor_id, e.sample_rate,
+      e.created_at, e.event_id, e.message, e.stack, e.frames, e.from_extension, e.source,
+      e.line, e.column_number, e.breadcrumbs, e.release, e.occurrences, e.fingerprint
+    FROM jsonb_populate_recordset(NULL::errors, p_errors) AS e
+    ON CONFLICT (site_id, event_id) DO NOTHING
+    RETURNING site_id, fingerprint, message, source, created_at, occurrences, sample_rate
+  )
+  INSERT INTO error_issues AS ei (
+    site_id, fingerprint, message, source, first_seen, last_seen, occurrences
+  )
+  SELECT
+    i.site_id,
+    i.fingerprint,
+    (ARRAY_AGG(i.message ORDER BY i.created_at))[1],
+    (ARRAY_AGG(i.source ORDER BY i.created_at))[1],
+    MIN(i.created_at),
+    MAX(i.created_at),
+    -- Weighted by sample rate
+    ROUND(SUM(i.occurrences::DOUBLE PRECISION / i.sample_rate))::BIGINT
+  FROM inserted i
+  WHERE i.fingerprint IS NOT NULL
+  GROUP BY i.site_id, i.fingerprint
+  ON CONFLICT (site_id, fingerprint) DO UPDATE SET
+    first_seen = LEAST(ei.first_seen, EXCLUDED.first_seen),
+    last_seen = GREATEST(ei.last_seen, EXCLUDED.last_seen),
+    occurrences = ei.occurrences + EXCLUDED.occurrences,
+    status = CASE
+      WHEN ei.status = 'resolved' AND EXCLUDED.last_seen > ei.resolved_at THEN 'open'
+      ELSE ei.status
+    END,
+    regressed_at = CASE
+      WHEN ei.status = 'resolved' AND EXCLUDED.last_seen > ei.resolved_at THEN NOW()
+      ELSE ei.regressed_at
+    END,
+    resolved_at = CASE
+      WHEN ei.status = 'resolved' AND EXCLUDED.last_seen > ei.resolved_at THEN NULL
+      ELSE ei.resolved_at
+    END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_errors FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_errors TO service_role;
+
+-- ============================================================
+-- Error Drops
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS error_drops (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id         TEXT NOT NULL,
+  url             TEXT NOT NULL,
+  pathname        TEXT NOT NULL,
+  page_view_id    TEXT,
+  report_id       TEXT NOT NULL,
+  -- Duplicates merged into another error's occurrences
+  deduplicated    INT NOT NULL DEFAULT 0,
+  -- Dropped by the per page view and per session caps
+  rate_limited    INT NOT NULL DEFAULT 0,
+  -- Dropped by ignoreErrors and denyUrls
+  filtered        INT NOT NULL DEFAULT 0,
+  referrer        TEXT DEFAULT '',
+  screen_width    INT DEFAULT 0,
+  timezone        TEXT DEFAULT 'Unknown',
+  language        TEXT DEFAULT 'en',
+  connection_type TEXT,
+  tracker_version TEXT DEFAULT '',
+  session_id      TEXT,
+  visitor_id      TEXT,
+  sample_rate     REAL NOT NULL DEFAULT 1 CHECK (sample_rate > 0 AND sample_rate <= 1),
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_error_drops_site_created
+  ON error_drops (site_id, created_at DESC);
+
+-- Later reports for a page view replace earlier ones
+CREATE UNIQUE INDEX idx_error_drops_dedup
+  ON error_drops (site_id, report_id);
+
+ALTER TABLE error_drops ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read" ON error_drops
+  FOR SELECT TO authenticated
+  USING (check_site_membership(site_id));
+
+CREATE POLICY "Service role full access" ON error_drops
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================
+-- Error Drops Summary
+-- ============================================================
+
+-- Totals for the period, weighted by sample rate. page_views counts the
+-- page views on which anything was merged or dropped.
+CREATE OR REPLACE FUNCTION get_error_drops(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  deduplicated BIGINT,
+  rate_limited BIGINT,
+  filtered BIGINT,
+  page_views BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      COALESCE(ROUND(SUM(d.deduplicated / d.sample_rate)), 0)::BIGINT AS deduplicated,
+      COALESCE(ROUND(SUM(d.rate_limited / d.sample_rate)), 0)::BIGINT AS rate_limited,
+      COALESCE(ROUND(SUM(d.filtered / d.sample_rate)), 0)::BIGINT AS filtered,
+      COALESCE(ROUND(SUM(1.0 / d.sample_rate)), 0)::BIGINT AS page_views
+    FROM error_drops d
+    WHERE d.site_id = p_site_id
+      AND d.created_at >= p_from
+      AND d.created_at <= p_to;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_error_drops TO authenticated, service_role;
+
+-- ============================================================
+-- Error Issues Query
+-- ============================================================
+
+-- As before, with period occurrences counting the duplicates merged into
+-- each error row.
+CREATE OR REPLACE FUNCTION get_error_issues(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_status TEXT DEFAULT NULL,
+  p_limit INT DEFAULT 50
+)
+RETURNS TABLE (
+  id UUID,
+  fingerprint TEXT,
+  message TEXT,
+  source TEXT,
+  status TEXT,
+  first_seen TIMESTAMPTZ,
+  last_seen TIMESTAMPTZ,
+  occurrences BIGINT,
+  period_occurrences BIGINT,
+  affected_pages BIGINT,
+  regressed_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  IF p_status IS NOT NULL AND p_status NOT IN ('open', 'resolved', 'ignored') THEN
+    RAISE EXCEPTION 'Invalid status: %. Use "open", "resolved" or "ignored".', p_status;
+  END IF;
+
+  RETURN QUERY
+    WITH period AS (
+      SELECT
+        e.fingerprint,
+        ROUND(SUM(e.occurrences / e.sample_rate))::BIGINT AS occurrences,
+        COUNT(DISTINCT e.pathname)::BIGINT AS pages
+      FROM errors e
+      WHERE e.site_id = p_site_id
+        AND e.created_at >= p_from
+        AND e.created_at <= p_to
+        AND e.fingerprint IS NOT NULL
+      GROUP BY e.fingerprint
+    )
+    SELECT
+      ei.id,
+      ei.fingerprint,
+      ei.message,
+      ei.source,
+      ei.status,
+      ei.first_seen,
+      ei.last_seen,
+      ei.occurrences,
+      p.occurrences AS period_occurrences,
+      p.pages AS affected_pages,
+      ei.regressed_at
+    FROM error_issues ei
+    JOIN period p ON p.fingerprint = ei.fingerprint
+    WHERE ei.site_id = p_site_id
+      AND (p_status IS NULL OR ei.status = p_status)
+    ORDER BY p.occurrences DESC, ei.last_seen DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_error_issues TO authenticated, service_role;
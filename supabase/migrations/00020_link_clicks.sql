@@ -0,0 +1,160 @@
+-- open-observability outbound links and downloads
+-- Migration: 00020_link_clicks
+--
+-- Stores the tracker's optional link click events: clicks on links to
+-- other hosts (kind 'outbound') and on links to files (kind 'download').
+-- Links are stored as origin and path only, without query string.
+-- get_outbound_links and get_downloads rank links by clicks.
+
+-- ============================================================
+-- Link Clicks
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS link_clicks (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id         TEXT NOT NULL,
+  url             TEXT NOT NULL,
+  pathname        TEXT NOT NULL,
+  page_view_id    TEXT,
+  event_id        TEXT,
+  kind            TEXT NOT NULL CHECK (kind IN ('outbound', 'download')),
+  link_url        TEXT NOT NULL,
+  link_host       TEXT,
+  -- Lowercase, without the dot; downloads only
+  file_extension  TEXT,
+  referrer        TEXT DEFAULT '',
+  screen_width    INT DEFAULT 0,
+  timezone        TEXT DEFAULT 'Unknown',
+  language        TEXT DEFAULT 'en',
+  connection_type TEXT,
+  tracker_version TEXT DEFAULT '',
+  session_id      TEXT,
+  visitor_id      TEXT,
+  sample_rate     REAL NOT NULL DEFAULT 1 CHECK (sample_rate > 0 AND sample_rate <= 1),
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_link_clicks_site_kind_created
+  ON link_clicks (site_id, kind, created_at DESC);
+
+-- A batch sent again stores each event once (see 00005_event_ids)
+CREATE UNIQUE INDEX idx_link_clicks_site_event
+  ON link_clicks (site_id, event_id);
+
+ALTER TABLE link_clicks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read" ON link_clicks
+  FOR SELECT TO authenticated
+  USING (check_site_membership(site_id));
+
+CREATE POLICY "Service role full access" ON link_clicks
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================
+-- Outbound Links
+-- ============================================================
+
+-- Clicks, and the sessions they came from, are weighted by sample rate.
+CREATE OR REPLACE FUNCTION get_outbound_links(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  link_url TEXT,
+  link_host TEXT,
+  clicks BIGINT,
+  sessions BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    -- One row per session and link, carrying that session's weight
+    WITH per_session AS (
+      SELECT
+        lc.link_url,
+        MAX(lc.link_host) AS link_host,
+        SUM(1.0 / lc.sample_rate) AS weighted_clicks,
+        MAX(1.0 / lc.sample_rate) AS weight
+      FROM link_clicks lc
+      WHERE lc.site_id = p_site_id
+        AND lc.kind = 'outbound'
+        AND lc.created_at >= p_from
+        AND lc.created_at <= p_to
+      GROUP BY lc.link_url, COALESCE(lc.session_id, lc.id::TEXT)
+    )
+    SELECT
+      ps.link_url,
+      MAX(ps.link_host) AS link_host,
+      ROUND(SUM(ps.weighted_clicks))::BIGINT AS clicks,
+      ROUND(SUM(ps.weight))::BIGINT AS sessions
+    FROM per_session ps
+    GROUP BY ps.link_url
+    ORDER BY clicks DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_outbound_links TO authenticated, service_role;
+
+-- ============================================================
+-- Downloads
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_downloads(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  link_url TEXT,
+  file_extension TEXT,
+  downloads BIGINT,
+  sessions BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    -- One row per session and link, carrying that session's weight
+    WITH per_session AS (
+      SELECT
+        lc.link_url,
+        MAX(lc.file_extension) AS file_extension,
+        SUM(1.0 / lc.sample_rate) AS weighted_clicks,
+        MAX(1.0 / lc.sample_rate) AS weight
+      FROM link_clicks lc
+      WHERE lc.site_id = p_site_id
+        AND lc.kind = 'download'
+        AND lc.created_at >= p_from
+        AND lc.created_at <= p_to
+      GROUP BY lc.link_url, COALESCE(lc.session_id, lc.id::TEXT)
+    )
+    SELECT
+      ps.link_url,
+      MAX(ps.file_extension) AS file_extension,
+      ROUND(SUM(ps.weighted_clicks))::BIGINT AS downloads,
+      ROUND(SUM(ps.weight))::BIGINT AS sessions
+    FROM per_session ps
+    GROUP BY ps.link_url
+    ORDER BY downloads DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_downloads TO authenticated, service_role;
@@ -0,0 +1,194 @@
+-- open-observability engagement
+-- Migration: 00021_engagement
+--
+-- The tracker measures per page view how long the visitor was engaged
+-- (page in the foreground and focused, interacted with in the last 30
+-- seconds) and the furthest point of the page they scrolled into view,
+-- and reports them in page-leave events. The ingest function records
+-- these on the page view with record_page_leaves, which returns the page
+-- leaves whose page view was never stored (e.g. it was sampled out or
+-- rejected). Time on page, which was the gap until the session's next
+-- page view and unknown for a session's last page, is now the engaged
+-- time; top pages also report average engaged time and scroll depth.
+
+-- ============================================================
+-- Columns
+-- ============================================================
+
+ALTER TABLE page_views
+  -- Milliseconds; NULL until the tracker reports the page leave
+  ADD COLUMN IF NOT EXISTS engaged_time INT CHECK (engaged_time >= 0),
+  -- Percent of the page scrolled into view
+  ADD COLUMN IF NOT EXISTS scroll_depth SMALLINT CHECK (scroll_depth BETWEEN 0 AND 100);
+
+CREATE INDEX IF NOT EXISTS idx_page_views_site_page_view
+  ON page_views (site_id, page_view_id);
+
+-- ============================================================
+-- Recording Page Leaves
+-- ============================================================
+
+-- Called by the ingest function with one entry per page-leave event:
+-- [{ site_id, page_view_id, engaged_time, scroll_depth }]
+-- The tracker re-sends running totals each time the page is hidden, so
+-- values only ever rise; a report sent twice changes nothing. Returns the
+-- site_id and page_view_id of each page leave without a stored page view.
+CREATE OR REPLACE FUNCTION record_page_leaves(p_leaves JSONB)
+RETURNS TABLE (site_id TEXT, page_view_id TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+    WITH leaves AS (
+      SELECT
+        r.site_id,
+        r.page_view_id,
+        MAX(r.engaged_time) AS engaged_time,
+        MAX(r.scroll_depth) AS scroll_depth
+      FROM jsonb_to_recordset(p_leaves) AS r(
+        site_id TEXT,
+        page_view_id TEXT,
+        engaged_time INT,
+        scroll_depth SMALLINT
+      )
+      GROUP BY r.site_id, r.page_view_id
+    ),
+    updated AS (
+      UPDATE page_views pv SET
+        engaged_time = GREATEST(pv.engaged_time, l.engaged_time),
+        scroll_depth = GREATEST(pv.scroll_depth, l.scroll_depth)
+      FROM leaves l
+      WHERE pv.site_id = l.site_id
+        AND pv.page_view_id = l.page_view_id
+      RETURNING pv.site_id, pv.page_view_id
+    )
+    SELECT l.site_id, l.page_view_id
+    FROM leaves l
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM updated u
+      WHERE u.site_id = l.site_id
+        AND u.page_view_id = l.page_view_id
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_page_leaves FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION record_page_leaves TO service_role;
+
+-- ============================================================
+-- Top Pages
+-- ============================================================
+
+-- The return type changes, so the old definition must be dropped first.
+DROP FUNCTION IF EXISTS get_top_pages(TEXT, TIMESTAMPTZ, TIMESTAMPTZ, INT);
+
+-- Averages are over the page views with a reported page leave, in
+-- seconds and percent.
+CREATE OR REPLACE FUNCTION get_top_pages(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  pathname TEXT,
+  count BIGINT,
+  avg_engaged_time DOUBLE PRECISION,
+  avg_scroll_depth DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      pv.pathname,
+      ROUND(SUM(1.0 / pv.sample_rate))::BIGINT AS count,
+      (SUM(pv.engaged_time / 1000.0 / pv.sample_rate)
+        / NULLIF(SUM(1.0 / pv.sample_rate) FILTER (WHERE pv.engaged_time IS NOT NULL), 0)
+      )::DOUBLE PRECISION AS avg_engaged_time,
+      (SUM(pv.scroll_depth / pv.sample_rate)
+        / NULLIF(SUM(1.0 / pv.sample_rate) FILTER (WHERE pv.scroll_depth IS NOT NULL), 0)
+      )::DOUBLE PRECISION AS avg_scroll_depth
+    FROM page_views pv
+    WHERE pv.site_id = p_site_id
+      AND pv.created_at >= p_from
+      AND pv.created_at <= p_to
+    GROUP BY pv.pathname
+    ORDER BY count DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_top_pages TO authenticated, service_role;
+
+-- ============================================================
+-- Page View Stats
+-- ============================================================
+
+-- As before, with time on page the average engaged time in seconds.
+CREATE OR REPLACE FUNCTION get_page_view_stats(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  total_views BIGINT,
+  unique_visitors BIGINT,
+  sessions BIGINT,
+  pages_per_session DOUBLE PRECISION,
+  avg_time_on_page DOUBLE PRECISION,
+  bounce_rate DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    WITH views AS (
+      SELECT
+        pv.session_id,
+        -- Rows recorded before visitor hashing fall back to the page view id
+        COALESCE(pv.visitor_id, pv.page_view_id) AS visitor_key,
+        1.0 / pv.sample_rate AS weight,
+        pv.engaged_time / 1000.0 AS seconds_on_page
+      FROM page_views pv
+      WHERE pv.site_id = p_site_id
+        AND pv.created_at >= p_from
+        AND pv.created_at <= p_to
+    ),
+    session_sizes AS (
+      SELECT v.session_id, COUNT(*) AS view_count, MAX(v.weight) AS weight
+      FROM views v
+      WHERE v.session_id IS NOT NULL
+      GROUP BY v.session_id
+    ),
+    visitors AS (
+      SELECT MAX(v.weight) AS weight
+      FROM views v
+      GROUP BY v.visitor_key
+    )
+    SELECT
+      (SELECT ROUND(COALESCE(SUM(v.weight), 0)) FROM views v)::BIGINT,
+      (SELECT ROUND(COALESCE(SUM(u.weight), 0)) FROM visitors u)::BIGINT,
+      (SELECT ROUND(COALESCE(SUM(s.weight), 0)) FROM session_sizes s)::BIGINT,
+      (SELECT SUM(s.view_count * s.weight) / NULLIF(SUM(s.weight), 0)
+        FROM session_sizes s)::DOUBLE PRECISION,
+      (SELECT SUM(v.seconds_on_page * v.weight) / NULLIF(SUM(v.weight), 0) FROM views v
+        WHERE v.seconds_on_page IS NOT NULL)::DOUBLE PRECISION,
+      (SELECT 100.0 * SUM(s.weight) FILTER (WHERE s.view_count = 1) / NULLIF(SUM(s.weight), 0)
+        FROM session_sizes s)::DOUBLE PRECISION;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_page_view_stats TO authenticated, service_role;
@@ -0,0 +1,161 @@
+-- open-observability frustration signals
+-- Migration: 00022_frustration_signals
+--
+-- Stores the tracker's optional frustration signals: rage clicks (a burst
+-- of clicks on the same spot), dead clicks (a click on a button or link
+-- that changed nothing) and error clicks (a click immediately followed by
+-- an uncaught error), each with the clicked element's selector.
+-- get_frustration_by_page and get_frustration_by_element rank pages and
+-- elements by signals.
+
+-- ============================================================
+-- Frustration Signals
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS frustration_signals (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id         TEXT NOT NULL,
+  url             TEXT NOT NULL,
+  pathname        TEXT NOT NULL,
+  page_view_id    TEXT,
+  event_id        TEXT,
+  signal          TEXT NOT NULL CHECK (signal IN ('rage', 'dead', 'error')),
+  selector        TEXT NOT NULL,
+  -- Clicks in the burst; rage clicks only
+  click_count     INT,
+  referrer        TEXT DEFAULT '',
+  screen_width    INT DEFAULT 0,
+  timezone        TEXT DEFAULT 'Unknown',
+  language        TEXT DEFAULT 'en',
+  connection_type TEXT,
+  tracker_version TEXT DEFAULT '',
+  session_id      TEXT,
+  visitor_id      TEXT,
+  sample_rate     REAL NOT NULL DEFAULT 1 CHECK (sample_rate > 0 AND sample_rate <= 1),
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_frustration_signals_site_created
+  ON frustration_signals (site_id, created_at DESC);
+
+-- A batch sent again stores each event once (see 00005_event_ids)
+CREATE UNIQUE INDEX idx_frustration_signals_site_event
+  ON frustration_signals (site_id, event_id);
+
+ALTER TABLE frustration_signals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read" ON frustration_signals
+  FOR SELECT TO authenticated
+  USING (check_site_membership(site_id));
+
+CREATE POLICY "Service role full access" ON frustration_signals
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================
+-- Frustration by Page
+-- ============================================================
+
+-- Signals, and the sessions they came from, are weighted by sample rate.
+CREATE OR REPLACE FUNCTION get_frustration_by_page(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  pathname TEXT,
+  rage_clicks BIGINT,
+  dead_clicks BIGINT,
+  error_clicks BIGINT,
+  total BIGINT,
+  sessions BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    -- One row per session and page, carrying that session's weight
+    WITH per_session AS (
+      SELECT
+        fs.pathname,
+        COALESCE(SUM(1.0 / fs.sample_rate) FILTER (WHERE fs.signal = 'rage'), 0) AS rage,
+        COALESCE(SUM(1.0 / fs.sample_rate) FILTER (WHERE fs.signal = 'dead'), 0) AS dead,
+        COALESCE(SUM(1.0 / fs.sample_rate) FILTER (WHERE fs.signal = 'error'), 0) AS error,
+        MAX(1.0 / fs.sample_rate) AS weight
+      FROM frustration_signals fs
+      WHERE fs.site_id = p_site_id
+        AND fs.created_at >= p_from
+        AND fs.created_at <= p_to
+      GROUP BY fs.pathname, COALESCE(fs.session_id, fs.id::TEXT)
+    )
+    SELECT
+      ps.pathname,
+      ROUND(SUM(ps.rage))::BIGINT AS rage_clicks,
+      ROUND(SUM(ps.dead))::BIGINT AS dead_clicks,
+      ROUND(SUM(ps.error))::BIGINT AS error_clicks,
+      ROUND(SUM(ps.rage + ps.dead + ps.error))::BIGINT AS total,
+      ROUND(SUM(ps.weight))::BIGINT AS sessions
+    FROM per_session ps
+    GROUP BY ps.pathname
+    ORDER BY total DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_frustration_by_page TO authenticated, service_role;
+
+-- ============================================================
+-- Frustration by Element
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_frustration_by_element(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  pathname TEXT,
+  selector TEXT,
+  rage_clicks BIGINT,
+  dead_clicks BIGINT,
+  error_clicks BIGINT,
+  total BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      fs.pathname,
+      fs.selector,
+      ROUND(COALESCE(SUM(1.0 / fs.sample_rate) FILTER (WHERE fs.signal = 'rage'), 0))::BIGINT
+        AS rage_clicks,
+      ROUND(COALESCE(SUM(1.0 / fs.sample_rate) FILTER (WHERE fs.signal = 'dead'), 0))::BIGINT
+        AS dead_clicks,
+      ROUND(COALESCE(SUM(1.0 / fs.sample_rate) FILTER (WHERE fs.signal = 'error'), 0))::BIGINT
+        AS error_clicks,
+      ROUND(SUM(1.0 / fs.sample_rate))::BIGINT AS total
+    FROM frustration_signals fs
+    WHERE fs.site_id = p_site_id
+      AND fs.created_at >= p_from
+      AND fs.created_at <= p_to
+    GROUP BY fs.pathname, fs.selector
+    ORDER BY total DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_frustration_by_element TO authenticated, service_role;
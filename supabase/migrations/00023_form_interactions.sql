@@ -0,0 +1,177 @@
+-- open-observability form analytics
+-- Migration: 00023_form_interactions
+--
+-- Stores the tracker's optional form tracking: one row per interaction
+-- with a form, re-sent under the same report_id as it goes on - started
+-- on the first focus, then submitted or abandoned. Each row keeps, per
+-- field, the order it was first focused in, how long it was focused and
+-- how often it failed validation, plus the last field touched. Field
+-- values are never collected. get_forms ranks forms by starts and
+-- get_form_analytics shows where visitors drop off in one form.
+
+-- ============================================================
+-- Form Interactions
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS form_interactions (
+  id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  site_id         TEXT NOT NULL,
+  url             TEXT NOT NULL,
+  pathname        TEXT NOT NULL,
+  page_view_id    TEXT,
+  report_id       TEXT NOT NULL,
+  -- The form's data-oo-form attribute, id or name
+  form_id         TEXT NOT NULL,
+  status          TEXT NOT NULL CHECK (status IN ('started', 'submitted', 'abandoned')),
+  -- [{ name, order, time, errors }] in first-focus order; time in ms
+  fields          JSONB NOT NULL DEFAULT '[]',
+  last_field      TEXT,
+  -- Milliseconds from the first focus to the latest report
+  duration        INT NOT NULL DEFAULT 0,
+  referrer        TEXT DEFAULT '',
+  screen_width    INT DEFAULT 0,
+  timezone        TEXT DEFAULT 'Unknown',
+  language        TEXT DEFAULT 'en',
+  connection_type TEXT,
+  tracker_version TEXT DEFAULT '',
+  session_id      TEXT,
+  visitor_id      TEXT,
+  sample_rate     REAL NOT NULL DEFAULT 1 CHECK (sample_rate > 0 AND sample_rate <= 1),
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_form_interactions_site_report
+  ON form_interactions (site_id, report_id);
+
+CREATE INDEX idx_form_interactions_site_form_created
+  ON form_interactions (site_id, form_id, created_at DESC);
+
+ALTER TABLE form_interactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can read" ON form_interactions
+  FOR SELECT TO authenticated
+  USING (check_site_membership(site_id));
+
+CREATE POLICY "Service role full access" ON form_interactions
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ============================================================
+-- Forms
+-- ============================================================
+
+-- Interactions are weighted by sample rate. Forms still being filled in
+-- count as started but neither submitted nor abandoned.
+CREATE OR REPLACE FUNCTION get_forms(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INT DEFAULT 10
+)
+RETURNS TABLE (
+  form_id TEXT,
+  starts BIGINT,
+  submissions BIGINT,
+  abandonments BIGINT,
+  conversion_rate DOUBLE PRECISION,
+  avg_duration DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    SELECT
+      fi.form_id,
+      ROUND(SUM(1.0 / fi.sample_rate))::BIGINT AS starts,
+      ROUND(COALESCE(SUM(1.0 / fi.sample_rate) FILTER (WHERE fi.status = 'submitted'), 0))::BIGINT
+        AS submissions,
+      ROUND(COALESCE(SUM(1.0 / fi.sample_rate) FILTER (WHERE fi.status = 'abandoned'), 0))::BIGINT
+        AS abandonments,
+      (100.0 * COALESCE(SUM(1.0 / fi.sample_rate) FILTER (WHERE fi.status = 'submitted'), 0)
+        / SUM(1.0 / fi.sample_rate))::DOUBLE PRECISION AS conversion_rate,
+      -- Seconds from the first focus to submit
+      (SUM(fi.duration / 1000.0 / fi.sample_rate) FILTER (WHERE fi.status = 'submitted')
+        / NULLIF(SUM(1.0 / fi.sample_rate) FILTER (WHERE fi.status = 'submitted'), 0)
+      )::DOUBLE PRECISION AS avg_duration
+    FROM form_interactions fi
+    WHERE fi.site_id = p_site_id
+      AND fi.created_at >= p_from
+      AND fi.created_at <= p_to
+    GROUP BY fi.form_id
+    ORDER BY starts DESC
+    LIMIT p_limit;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_forms TO authenticated, service_role;
+
+-- ============================================================
+-- Form Analytics
+-- ============================================================
+
+-- One row per field of a form, in the order visitors usually reach them.
+-- reached counts the interactions that focused the field; abandoned those
+-- abandoned with it as the last field touched; drop_off_rate is the
+-- percentage of visitors reaching the field who left the form there.
+-- avg_time is in seconds.
+CREATE OR REPLACE FUNCTION get_form_analytics(
+  p_site_id TEXT,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_form_id TEXT
+)
+RETURNS TABLE (
+  field_name TEXT,
+  avg_order DOUBLE PRECISION,
+  reached BIGINT,
+  abandoned BIGINT,
+  drop_off_rate DOUBLE PRECISION,
+  avg_time DOUBLE PRECISION,
+  errors BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT check_site_membership(p_site_id) THEN
+    RAISE EXCEPTION 'Access denied: not a member of site %', p_site_id;
+  END IF;
+
+  RETURN QUERY
+    WITH fields AS (
+      SELECT
+        f.value->>'name' AS name,
+        (f.value->>'order')::INT AS field_order,
+        (f.value->>'time')::INT AS time_ms,
+        (f.value->>'errors')::INT AS error_count,
+        fi.status = 'abandoned' AND fi.last_field = f.value->>'name' AS left_here,
+        1.0 / fi.sample_rate AS weight
+      FROM form_interactions fi
+      CROSS JOIN LATERAL jsonb_array_elements(fi.fields) AS f(value)
+      WHERE fi.site_id = p_site_id
+        AND fi.form_id = p_form_id
+        AND fi.created_at >= p_from
+        AND fi.created_at <= p_to
+    )
+    SELECT
+      fl.name AS field_name,
+      (SUM(fl.field_order * fl.weight) / SUM(fl.weight))::DOUBLE PRECISION AS avg_order,
+      ROUND(SUM(fl.weight))::BIGINT AS reached,
+      ROUND(COALESCE(SUM(fl.weight) FILTER (WHERE fl.left_here), 0))::BIGINT AS abandoned,
+      (100.0 * COALESCE(SUM(fl.weight) FILTER (WHERE fl.left_here), 0)
+        / SUM(fl.weight))::DOUBLE PRECISION AS drop_off_rate,
+      (SUM(fl.time_ms / 1000.0 * fl.weight) / SUM(fl.weight))::DOUBLE PRECISION AS avg_time,
+      ROUND(SUM(fl.error_count * fl.weight))::BIGINT AS errors
+    FROM fields fl
+    GROUP BY fl.name
+    ORDER BY avg_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_form_analytics TO authenticated, service_role;
@@ -6,7 +6,10 @@
 DO $$
 DECLARE
   i INT;
+  j INT;
   ts TIMESTAMPTZ;
+  v_session TEXT;
+  v_visitor TEXT;
   paths TEXT[] := ARRAY['/', '/about', '/blog', '/pricing', '/docs', '/docs/getting-started', '/blog/hello-world', '/contact'];
   referrers TEXT[] := ARRAY['', 'https://google.com', 'https://twitter.com', 'https://github.com', 'https://reddit.com/r/webdev', 'https://news.ycombinator.com', ''];
   vitals TEXT[] := ARRAY['LCP', 'FCP', 'CLS', 'INP', 'TTFB'];
@@ -14,23 +17,30 @@ DECLARE
   timezones TEXT[] := ARRAY['America/New_York', 'America/Los_Angeles', 'Europe/London', 'Europe/Berlin', 'Asia/Tokyo'];
   languages TEXT[] := ARRAY['en', 'en-US', 'en-GB', 'de', 'ja', 'fr', 'es'];
 BEGIN
-  -- Generate page views
-  FOR i IN 1..500 LOOP
+  -- Generate page views, grouped into sessions of 1-5 views each
+  FOR i IN 1..200 LOOP
     ts := NOW() - (random() * interval '7 days');
-    INSERT INTO page_views (site_id, url, pathname, referrer, title, screen_width, timezone, language, page_view_id, tracker_version, created_at)
-    VALUES (
-      'demo-site',
-      'https://example.com' || paths[1 + floor(random() * array_length(paths, 1))::int],
-      paths[1 + floor(random() * array_length(paths, 1))::int],
-      referrers[1 + floor(random() * array_length(referrers, 1))::int],
-      'Example Site',
-      screen_widths[1 + floor(random() * array_length(screen_widths, 1))::int],
-      timezones[1 + floor(random() * array_length(timezones, 1))::int],
-      languages[1 + floor(random() * array_length(languages, 1))::int],
-      uuid_generate_v4()::text,
-      '0.1.0',
-      ts
-    );
+    v_session := uuid_generate_v4()::text;
+    v_visitor := 'visitor-' || floor(random() * 120)::int;
+    FOR j IN 1..(1 + floor(random() * random() * 5)::int) LOOP
+      INSERT INTO page_views (site_id, url, pathname, referrer, title, screen_width, timezone, language, page_view_id, session_id, visitor_id, tracker_version, created_at)
+      VALUES (
+        'demo-site',
+        'https://example.com' || paths[1 + floor(random() * array_length(paths, 1))::int],
+        paths[1 + floor(random() * array_length(paths, 1))::int],
+        referrers[1 + floor(random() * array_length(referrers, 1))::int],
+        'Example Site',
+        screen_widths[1 + floor(random() * array_length(screen_widths, 1))::int],
+        timezones[1 + floor(random() * array_length(timezones, 1))::int],
+        languages[1 + floor(random() * array_length(languages, 1))::int],
+        uuid_generate_v4()::text,
+        v_session,
+        v_visitor,
+        '0.1.0',
+        ts
+      );
+      ts := ts + (10 + random() * 170) * interval '1 second';
+    END LOOP;
   END LOOP;
 
   -- Generate web vitals